@@ -0,0 +1,165 @@
+/**
+ * Audar CLI - Config Loading
+ *
+ * Resolves and loads `audarma.config.{ts,mts,js,mjs,cjs,json}` and
+ * instantiates the database adapter and LLM provider it references.
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { DatabaseAdapter, LLMProvider } from '../src/types';
+import type {
+  AdapterFactory,
+  AudarCLIConfig,
+  AudarCLIConfigFile,
+} from '../src/types/content-sources';
+
+const CONFIG_FILE_NAMES = [
+  'audarma.config.ts',
+  'audarma.config.mts',
+  'audarma.config.js',
+  'audarma.config.mjs',
+  'audarma.config.cjs',
+  'audarma.config.json',
+];
+
+export interface LoadedConfig {
+  config: AudarCLIConfig;
+  configPath: string;
+  /**
+   * Instantiate the database adapter (throws if none is configured)
+   */
+  createDatabase(): Promise<DatabaseAdapter>;
+  /**
+   * Instantiate the LLM provider (throws if none is configured)
+   */
+  createLLM(): Promise<LLMProvider>;
+}
+
+/**
+ * Find the config file: explicit path, or the first default name in cwd
+ */
+export function resolveConfigPath(configPath?: string, cwd = process.cwd()): string {
+  if (configPath) {
+    const resolved = path.resolve(cwd, configPath);
+    if (!existsSync(resolved)) {
+      throw new Error(`Config file not found: ${resolved}`);
+    }
+    return resolved;
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(cwd, name);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+
+  throw new Error(
+    `No config file found in ${cwd}.\n` +
+    `Create one of: ${CONFIG_FILE_NAMES.join(', ')}\n` +
+    'or pass --config <path>.'
+  );
+}
+
+type ModuleExports = Record<string, unknown>;
+
+function isObject(value: unknown): value is ModuleExports {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Import a JS/TS module, using jiti for TypeScript when it is installed
+ */
+async function importModule(filePath: string): Promise<ModuleExports> {
+  if (/\.[cm]?ts$/.test(filePath)) {
+    // Variable specifier: jiti is an optional dependency of the user's project
+    const jitiSpecifier = 'jiti';
+    const jiti = await import(jitiSpecifier).catch(() => null);
+
+    if (jiti?.createJiti) {
+      return jiti.createJiti(pathToFileURL(filePath).href).import(filePath);
+    }
+
+    try {
+      // Works when running under tsx/ts-node or Node with type stripping
+      return await import(pathToFileURL(filePath).href);
+    } catch (error) {
+      throw new Error(
+        `Could not load TypeScript config ${filePath}.\n` +
+        'Install jiti (npm install -D jiti), run the CLI through tsx, ' +
+        'or use audarma.config.js / audarma.config.json instead.\n' +
+        `Cause: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  if (filePath.endsWith('.json')) {
+    return { default: JSON.parse(await readFile(filePath, 'utf8')) };
+  }
+
+  return import(pathToFileURL(filePath).href);
+}
+
+async function createAdapter<T>(
+  factory: AdapterFactory<T> | undefined,
+  name: string,
+  configPath: string
+): Promise<T> {
+  if (!factory) {
+    throw new Error(`${configPath}: no "${name}" adapter or factory configured`);
+  }
+  return typeof factory === 'function' ? (factory as () => T | Promise<T>)() : factory;
+}
+
+/**
+ * Support `export default`, `module.exports =` and a namespace of named exports
+ */
+function defaultExport(mod: ModuleExports): unknown {
+  return (isObject(mod.default) ? mod.default.default : undefined) ?? mod.default ?? mod;
+}
+
+function validateConfig(config: unknown, configPath: string): asserts config is AudarCLIConfigFile {
+  if (!isObject(config)) {
+    throw new Error(`${configPath} must export a config object`);
+  }
+  if (!Array.isArray(config.contentSources)) {
+    throw new Error(`${configPath}: "contentSources" must be an array`);
+  }
+  if (!Array.isArray(config.locales) || config.locales.length === 0) {
+    throw new Error(`${configPath}: "locales" must be a non-empty array`);
+  }
+}
+
+/**
+ * Load the CLI config and resolve its adapter factories
+ */
+export async function loadConfig(configPath?: string): Promise<LoadedConfig> {
+  const resolvedPath = resolveConfigPath(configPath);
+  const mod = await importModule(resolvedPath);
+
+  const config = defaultExport(mod);
+  validateConfig(config, resolvedPath);
+
+  let databaseFactory = config.database ?? (mod.database as AdapterFactory<DatabaseAdapter> | undefined);
+  let llmFactory = config.llm ?? (mod.llm as AdapterFactory<LLMProvider> | undefined);
+
+  if ((!databaseFactory || !llmFactory) && config.adapters) {
+    const adaptersPath = path.resolve(path.dirname(resolvedPath), config.adapters);
+    const adapters = await importModule(adaptersPath);
+    const exported = isObject(adapters.default) ? adapters.default : adapters;
+    databaseFactory = databaseFactory ?? (exported.database as AdapterFactory<DatabaseAdapter> | undefined);
+    llmFactory = llmFactory ?? (exported.llm as AdapterFactory<LLMProvider> | undefined);
+  }
+
+  const { database: _database, llm: _llm, adapters: _adapters, ...cliConfig } = config;
+
+  return {
+    config: cliConfig,
+    configPath: resolvedPath,
+    createDatabase: () => createAdapter<DatabaseAdapter>(databaseFactory, 'database', resolvedPath),
+    createLLM: () => createAdapter<LLMProvider>(llmFactory, 'llm', resolvedPath),
+  };
+}
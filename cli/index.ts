@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+/**
+ * Audar CLI - Entry Point
+ *
+ * Usage:
+ *   npx audarma <command> [options]
+ *
+ * Commands:
+ *   translate   Pre-translate content gaps (default)
+ *   status      Show translation coverage per content type and locale
+ *   prune       Delete orphaned, stale and removed-locale translations
+ */
+
+import { main } from './main';
+
+main();
@@ -0,0 +1,217 @@
+/**
+ * Audar CLI - Run Journal
+ *
+ * Checkpoint file for batch translation runs. Records the planned gaps, the
+ * items saved and which (locale, batch) units completed, so
+ * `audarma translate --resume` can continue an interrupted or partially
+ * failed run without repeating discovery or paying for items that were
+ * already saved.
+ *
+ * The file is JSON Lines: the plan on the first line, then one line per
+ * event. Events are appended, so checkpointing a batch costs the same however
+ * large the run is.
+ */
+
+import { appendFileSync, existsSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { TranslationGap } from '../src/types/content-sources';
+
+export const DEFAULT_JOURNAL_PATH = '.audarma-journal.jsonl';
+
+/**
+ * Journal contents, as replayed from the file
+ */
+export interface JournalState {
+  version: 2;
+  createdAt: string;
+  updatedAt: string;
+  sourceLocale: string;
+  batchSize: number;
+  locales: string[];
+  gaps: TranslationGap[];
+  /**
+   * Completed units ("locale:batchNumber")
+   */
+  completed: string[];
+  /**
+   * Failed units ("locale:batchNumber") -> last error message
+   */
+  failed: Record<string, string>;
+  /**
+   * Items saved per locale (see itemKey())
+   */
+  saved: Record<string, string[]>;
+}
+
+type JournalPlan = Pick<JournalState, 'version' | 'createdAt' | 'sourceLocale' | 'batchSize' | 'locales' | 'gaps'>;
+
+/**
+ * One appended line after the plan
+ */
+type JournalEvent = { at: string } & (
+  | { completed: string }
+  | { failed: string; error: string }
+  | { saved: string; items: string[] }
+);
+
+export interface Journal {
+  readonly filePath: string;
+  /**
+   * Read an existing journal (null if none)
+   */
+  load(): JournalState | null;
+  /**
+   * Start a new run, replacing any previous journal
+   */
+  start(plan: Pick<JournalState, 'sourceLocale' | 'batchSize' | 'locales' | 'gaps'>): JournalState;
+  isCompleted(locale: string, batchNumber: number): boolean;
+  markCompleted(locale: string, batchNumber: number): void;
+  markFailed(locale: string, batchNumber: number, error: unknown): void;
+  isSaved(locale: string, item: Pick<TranslationGap, 'contentType' | 'contentId'>): boolean;
+  /**
+   * Record items whose translations were saved to the database
+   */
+  markSaved(locale: string, items: Array<Pick<TranslationGap, 'contentType' | 'contentId'>>): void;
+  /**
+   * Remove the journal file (after a fully successful run)
+   */
+  clear(): void;
+}
+
+function unitKey(locale: string, batchNumber: number): string {
+  return `${locale}:${batchNumber}`;
+}
+
+function itemKey(item: Pick<TranslationGap, 'contentType' | 'contentId'>): string {
+  return JSON.stringify([item.contentType, item.contentId]);
+}
+
+/**
+ * Apply one event to the replayed state
+ */
+function apply(state: JournalState, event: JournalEvent) {
+  state.updatedAt = event.at;
+
+  if ('completed' in event) {
+    if (!state.completed.includes(event.completed)) {
+      state.completed.push(event.completed);
+    }
+    delete state.failed[event.completed];
+  } else if ('failed' in event) {
+    state.failed[event.failed] = event.error;
+  } else {
+    (state.saved[event.saved] ??= []).push(...event.items);
+  }
+}
+
+/**
+ * Create a journal backed by a JSON Lines file
+ *
+ * The plan is written via temp file + rename and every event is appended
+ * immediately, so a crash loses at most the batch in flight. A line cut off
+ * by a crash is ignored on load.
+ */
+export function createJournal(filePath: string = DEFAULT_JOURNAL_PATH): Journal {
+  const resolvedPath = path.resolve(filePath);
+  let state: JournalState | null = null;
+  // locale -> saved item keys, for isSaved()
+  let saved = new Map<string, Set<string>>();
+
+  function requireState(): JournalState {
+    if (!state) {
+      throw new Error('Journal not started - call start() or load() first');
+    }
+    return state;
+  }
+
+  function record(event: JournalEvent) {
+    apply(requireState(), event);
+    appendFileSync(resolvedPath, `${JSON.stringify(event)}\n`);
+  }
+
+  function index(current: JournalState) {
+    saved = new Map(Object.entries(current.saved).map(([locale, keys]) => [locale, new Set(keys)]));
+  }
+
+  return {
+    filePath: resolvedPath,
+
+    load() {
+      if (!existsSync(resolvedPath)) {
+        return null;
+      }
+
+      const [header, ...lines] = readFileSync(resolvedPath, 'utf8').split('\n');
+      const plan = JSON.parse(header) as JournalPlan;
+      if (plan.version !== 2) {
+        throw new Error(`Unsupported journal version in ${resolvedPath}`);
+      }
+
+      const loaded: JournalState = { ...plan, updatedAt: plan.createdAt, completed: [], failed: {}, saved: {} };
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          apply(loaded, JSON.parse(line) as JournalEvent);
+        } catch {
+          // Cut off by a crash mid-write
+        }
+      }
+
+      state = loaded;
+      index(loaded);
+      return state;
+    },
+
+    start(plan) {
+      const now = new Date().toISOString();
+      const header: JournalPlan = { version: 2, createdAt: now, ...plan };
+
+      const tempPath = `${resolvedPath}.tmp`;
+      writeFileSync(tempPath, `${JSON.stringify(header)}\n`);
+      renameSync(tempPath, resolvedPath);
+
+      state = { ...header, updatedAt: now, completed: [], failed: {}, saved: {} };
+      saved = new Map();
+      return state;
+    },
+
+    isCompleted(locale, batchNumber) {
+      return requireState().completed.includes(unitKey(locale, batchNumber));
+    },
+
+    markCompleted(locale, batchNumber) {
+      record({ at: new Date().toISOString(), completed: unitKey(locale, batchNumber) });
+    },
+
+    markFailed(locale, batchNumber, error) {
+      record({
+        at: new Date().toISOString(),
+        failed: unitKey(locale, batchNumber),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    },
+
+    isSaved(locale, item) {
+      requireState();
+      return saved.get(locale)?.has(itemKey(item)) ?? false;
+    },
+
+    markSaved(locale, items) {
+      if (items.length === 0) return;
+      const keys = items.map(itemKey);
+      record({ at: new Date().toISOString(), saved: locale, items: keys });
+
+      const forLocale = saved.get(locale) ?? new Set();
+      keys.forEach((key) => forLocale.add(key));
+      saved.set(locale, forLocale);
+    },
+
+    clear() {
+      state = null;
+      saved = new Map();
+      if (existsSync(resolvedPath)) {
+        unlinkSync(resolvedPath);
+      }
+    },
+  };
+}
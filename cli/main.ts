@@ -0,0 +1,146 @@
+/**
+ * Audar CLI - Commands and Argument Parsing
+ *
+ * Everything behind the `audarma` binary, importable without running it.
+ */
+
+import { parseArgs } from 'util';
+import { loadConfig } from './config';
+import { runTranslation, type CLIOptions } from './translate';
+import { runStatus, STATUS_FORMATS } from './status';
+import { runPrune } from './prune';
+import type { StatusFormat } from '../src/types/content-sources';
+
+const USAGE = `Usage: audarma <command> [options]
+
+Commands:
+  translate              Pre-translate content gaps (default)
+  status                 Show translation coverage per content type and locale
+  prune                  Delete orphaned, stale and removed-locale translations
+
+Options:
+  -c, --config <path>    Config file (default: audarma.config.{ts,js,json} in cwd)
+  -l, --locale <code>    Only process this locale
+  -t, --types <list>     Only process these content types (comma-separated)
+      --force            Re-translate even if translations are up to date; prune
+                         content types for which no content was discovered
+      --max-items <n>    Translate at most n items
+      --dry-run          Show what would be translated (or pruned) without changing anything
+      --resume           Continue the last run from its journal checkpoint
+      --journal <path>   Journal file (default: .audarma-journal.jsonl)
+      --format <format>  status output: table (default), json, csv or markdown
+      --fail-under <n>   status exits with code 1 if a locale is below n% coverage
+  -h, --help             Show this help
+`;
+
+type Command = (options: CLIOptions) => Promise<void>;
+
+const COMMANDS: Record<string, Command> = {
+  async translate(options) {
+    const { config, createDatabase, createLLM } = await loadConfig(options.config);
+    // A dry run makes no LLM calls, so it needs no provider (or API keys)
+    const llm = options.dryRun ? undefined : await createLLM();
+    const result = await runTranslation(config, await createDatabase(), llm, options);
+    if (result.failedBatches.length > 0) {
+      process.exitCode = 1;
+    }
+  },
+
+  async status(options) {
+    const { config, createDatabase } = await loadConfig(options.config);
+    const report = await runStatus(config, await createDatabase(), options);
+    if (report.belowThreshold.length > 0) {
+      process.exitCode = 1;
+    }
+  },
+
+  async prune(options) {
+    const { config, createDatabase } = await loadConfig(options.config);
+    await runPrune(config, await createDatabase(), options);
+  },
+};
+
+/**
+ * Parse command line arguments into a command name and CLI options
+ */
+export function parseCLIArgs(argv: string[]): { command: string; options: CLIOptions; help: boolean } {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string', short: 'c' },
+      locale: { type: 'string', short: 'l' },
+      types: { type: 'string', short: 't' },
+      force: { type: 'boolean' },
+      'max-items': { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      resume: { type: 'boolean' },
+      journal: { type: 'string' },
+      format: { type: 'string' },
+      'fail-under': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  let maxItems: number | undefined;
+  if (values['max-items'] !== undefined) {
+    maxItems = Number(values['max-items']);
+    if (!Number.isInteger(maxItems) || maxItems <= 0) {
+      throw new Error(`--max-items must be a positive integer, got "${values['max-items']}"`);
+    }
+  }
+
+  const format = values.format as StatusFormat | undefined;
+  if (format !== undefined && !STATUS_FORMATS.includes(format)) {
+    throw new Error(`--format must be one of ${STATUS_FORMATS.join(', ')}, got "${values.format}"`);
+  }
+
+  let failUnder: number | undefined;
+  if (values['fail-under'] !== undefined) {
+    failUnder = Number(values['fail-under']);
+    if (!Number.isFinite(failUnder) || failUnder < 0 || failUnder > 100) {
+      throw new Error(`--fail-under must be a percentage between 0 and 100, got "${values['fail-under']}"`);
+    }
+  }
+
+  return {
+    command: positionals[0] || 'translate',
+    help: values.help ?? false,
+    options: {
+      config: values.config,
+      locale: values.locale,
+      types: values.types?.split(',').map((t) => t.trim()).filter(Boolean),
+      force: values.force,
+      maxItems,
+      dryRun: values['dry-run'],
+      resume: values.resume,
+      journal: values.journal,
+      format,
+      failUnder,
+    },
+  };
+}
+
+/**
+ * CLI entry point
+ */
+export async function main(argv = process.argv.slice(2)): Promise<void> {
+  try {
+    const { command, options, help } = parseCLIArgs(argv);
+
+    if (help || command === 'help') {
+      console.log(USAGE);
+      return;
+    }
+
+    const run = COMMANDS[command];
+    if (!run) {
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+    }
+
+    await run(options);
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
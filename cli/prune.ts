@@ -0,0 +1,228 @@
+/**
+ * Audar CLI - Prune Command
+ *
+ * Deletes stored translations that no longer serve any content: rows whose
+ * source item was deleted (orphaned), rows translated from an older version
+ * of the source text (stale) and rows in locales removed from the config.
+ *
+ * Only content types discovered through `contentSources` are pruned - rows of
+ * lazy-only or excluded types are never touched, since the CLI cannot tell
+ * whether their content still exists. A content type with stored rows but no
+ * discovered content is skipped too (a broken source config would otherwise
+ * make every row orphaned), unless `--force` is given.
+ *
+ * Usage:
+ *   npx audarma prune --dry-run
+ *   npx audarma prune
+ *   npx audarma prune --types product_title --locale de
+ *   npx audarma prune --types legacy_title --force
+ */
+
+import type { DatabaseAdapter, StoredTranslation, TranslationFilter } from '../src/types';
+import type { AudarCLIConfig, PruneReason, PruneResult } from '../src/types/content-sources';
+import { sourceHashMatches } from '../src/core/source-hash';
+import { discoverContent, type CLIOptions } from './translate';
+
+const PAGE_SIZE = 1000;
+const DELETE_BATCH_SIZE = 500;
+const DRY_RUN_EXAMPLES = 10;
+
+interface PruneCandidate {
+  row: StoredTranslation;
+  reason: PruneReason;
+}
+
+/**
+ * Content types prune may touch: configured, not excluded, and matching --types
+ */
+function managedContentTypes(config: AudarCLIConfig, types?: string[]): string[] {
+  const configured = config.contentSources.flatMap((source) => source.items.map((item) => item.contentType));
+
+  return [...new Set(configured)].filter(
+    (type) =>
+      !config.excludeTypes?.includes(type) &&
+      (!types || types.length === 0 || types.includes(type))
+  );
+}
+
+/**
+ * Page through stored translations matching the filter
+ */
+async function* listAll(
+  database: DatabaseAdapter,
+  filter: TranslationFilter
+): AsyncGenerator<StoredTranslation> {
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const rows = await database.listTranslations!(filter, { limit: PAGE_SIZE, offset });
+    yield* rows;
+    if (rows.length < PAGE_SIZE) return;
+  }
+}
+
+/**
+ * Delete candidates in batches of one (contentType, locale) pair
+ */
+async function deleteCandidates(
+  database: DatabaseAdapter,
+  candidates: PruneCandidate[]
+): Promise<number> {
+  const groups = new Map<string, { contentType: string; locale: string; ids: string[] }>();
+
+  for (const { row } of candidates) {
+    const key = `${row.content_type}\u0000${row.locale}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { contentType: row.content_type, locale: row.locale, ids: [] };
+      groups.set(key, group);
+    }
+    group.ids.push(row.content_id);
+  }
+
+  const batches = [...groups.values()].flatMap(({ contentType, locale, ids }) => {
+    const chunks: TranslationFilter[] = [];
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      chunks.push({ contentType, locales: [locale], contentIds: ids.slice(i, i + DELETE_BATCH_SIZE) });
+    }
+    return chunks;
+  });
+
+  let deleted = 0;
+  for (const [index, filter] of batches.entries()) {
+    deleted += await database.deleteTranslations!(filter);
+    console.log(
+      `  🗑️  Batch ${index + 1}/${batches.length}: ${filter.contentType} (${filter.locales![0]}), ` +
+      `${filter.contentIds!.length} rows`
+    );
+  }
+
+  return deleted;
+}
+
+function printReport(candidates: PruneCandidate[], result: PruneResult): void {
+  console.log(`\nScanned ${result.scanned} stored translations`);
+  console.log(`Found ${candidates.length} to prune:`);
+  console.log(`  - orphaned (source content deleted): ${result.candidates.orphaned}`);
+  console.log(`  - stale (source text changed): ${result.candidates.stale}`);
+  console.log(`  - removed locale: ${result.candidates.removed_locale}`);
+
+  const byContentType = candidates.reduce((acc, { row }) => {
+    acc[row.content_type] = (acc[row.content_type] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  if (candidates.length > 0) {
+    console.log(`\nBy content type:`);
+    for (const [type, count] of Object.entries(byContentType)) {
+      console.log(`  - ${type}: ${count}`);
+    }
+  }
+}
+
+/**
+ * Find and delete orphaned, stale and removed-locale translations
+ *
+ * Rows are classified during a full scan and deleted afterwards, by
+ * (contentType, contentId, locale) - a row re-translated by lazy mode between
+ * the scan and the deletion is deleted too, and simply re-translated again.
+ */
+export async function runPrune(
+  config: AudarCLIConfig,
+  database: DatabaseAdapter,
+  options: CLIOptions = {}
+): Promise<PruneResult> {
+  console.log('🧹 Audar Prune\n');
+
+  if (!database.listTranslations || (!options.dryRun && !database.deleteTranslations)) {
+    throw new Error(
+      'DatabaseAdapter does not support pruning. ' +
+      'Please implement listTranslations() and deleteTranslations() methods.'
+    );
+  }
+
+  const result: PruneResult = {
+    scanned: 0,
+    candidates: { orphaned: 0, stale: 0, removed_locale: 0 },
+    deleted: 0,
+    skippedTypes: [],
+    dryRun: options.dryRun ?? false,
+  };
+
+  const contentTypes = managedContentTypes(config, options.types);
+  if (contentTypes.length === 0) {
+    console.log('\n✅ No content types to prune.');
+    return result;
+  }
+
+  const content = await discoverContent(config, database, options.types);
+  const discoveredTypes = new Set(content.map((item) => item.contentType));
+
+  const sourceTexts = new Map(content.map((item) => [`${item.contentType}:${item.contentId}`, item.text]));
+  const locales = new Set(config.locales);
+  const candidates: PruneCandidate[] = [];
+
+  console.log('\n🔍 Scanning stored translations...');
+
+  for (const contentType of contentTypes) {
+    const filter: TranslationFilter = options.locale
+      ? { contentType, locales: [options.locale] }
+      : { contentType };
+
+    // Zero content of a type usually means a broken source config, not deleted content
+    if (!discoveredTypes.has(contentType) && !options.force) {
+      const [stored] = await database.listTranslations(filter, { limit: 1 });
+      if (stored) {
+        console.warn(
+          `  ⚠️  Skipping ${contentType}: no content discovered, but translations are stored. ` +
+          `Check contentSources, or pass --force to prune them.`
+        );
+        result.skippedTypes.push(contentType);
+      }
+      continue;
+    }
+
+    for await (const row of listAll(database, filter)) {
+      result.scanned++;
+
+      const text = sourceTexts.get(`${row.content_type}:${row.content_id}`);
+      let reason: PruneReason | null = null;
+
+      if (!locales.has(row.locale)) {
+        reason = 'removed_locale';
+      } else if (text === undefined) {
+        reason = 'orphaned';
+      } else if (!sourceHashMatches(row.source_hash, text)) {
+        reason = 'stale';
+      }
+
+      if (reason) {
+        candidates.push({ row, reason });
+        result.candidates[reason]++;
+      }
+    }
+  }
+
+  printReport(candidates, result);
+
+  if (candidates.length === 0) {
+    console.log('\n✅ Nothing to prune.');
+    return result;
+  }
+
+  if (options.dryRun) {
+    console.log('\n🔍 DRY RUN - No translations will be deleted');
+    console.log(`\nExamples:`);
+    for (const { row, reason } of candidates.slice(0, DRY_RUN_EXAMPLES)) {
+      console.log(`  - ${row.content_type}:${row.content_id} (${row.locale}): ${reason}`);
+    }
+    if (candidates.length > DRY_RUN_EXAMPLES) {
+      console.log(`  ... and ${candidates.length - DRY_RUN_EXAMPLES} more`);
+    }
+    return result;
+  }
+
+  console.log('\n🗑️  Deleting...');
+  result.deleted = await deleteCandidates(database, candidates);
+  console.log(`\n✅ Pruned ${result.deleted} translations.`);
+
+  return result;
+}
@@ -0,0 +1,236 @@
+/**
+ * Audar CLI - Status Command
+ *
+ * Reports how much of the discovered content is translated into each locale,
+ * as a coverage matrix (content type × locale) of up-to-date, stale and
+ * missing translations.
+ *
+ * Usage:
+ *   npx audarma status
+ *   npx audarma status --locale ja
+ *   npx audarma status --format markdown
+ *   npx audarma status --format json --fail-under 95
+ *
+ * JSON, CSV and Markdown reports are written to stdout and progress to
+ * stderr, so the report can be redirected to a file or parsed in CI.
+ */
+
+import type { DatabaseAdapter } from '../src/types';
+import type {
+  AudarCLIConfig,
+  CoverageCell,
+  CoverageReport,
+  DiscoveredContent,
+  StatusFormat,
+} from '../src/types/content-sources';
+import { sourceHashMatches } from '../src/core/source-hash';
+import { discoverContent, fetchCoverage, type CLIOptions } from './translate';
+
+export const STATUS_FORMATS: StatusFormat[] = ['table', 'json', 'csv', 'markdown'];
+
+function emptyCell(): CoverageCell {
+  return { total: 0, upToDate: 0, stale: 0, missing: 0, percent: 100 };
+}
+
+function finishCell(cell: CoverageCell): CoverageCell {
+  cell.percent = cell.total === 0 ? 100 : Math.round((cell.upToDate / cell.total) * 1000) / 10;
+  return cell;
+}
+
+/**
+ * Whether coverage is below `failUnder` percent, compared unrounded
+ * (99.96% is below 100 even though it displays as 100.0%)
+ */
+function isBelow(cell: CoverageCell, failUnder: number): boolean {
+  return cell.total > 0 && cell.upToDate * 100 < failUnder * cell.total;
+}
+
+/**
+ * Classify every discovered item in every locale as up to date, stale or missing
+ */
+export async function buildCoverageReport(
+  content: DiscoveredContent[],
+  locales: string[],
+  database: DatabaseAdapter,
+  failUnder?: number
+): Promise<CoverageReport> {
+  const contentTypes = [...new Set(content.map((item) => item.contentType))];
+  const coverage = await fetchCoverage(
+    content.map((item) => ({ contentType: item.contentType, contentId: item.contentId, text: item.text })),
+    locales,
+    database
+  );
+
+  const matrix: CoverageReport['matrix'] = {};
+  const byLocale: CoverageReport['byLocale'] = {};
+  const overall = emptyCell();
+
+  for (const contentType of contentTypes) {
+    matrix[contentType] = Object.fromEntries(locales.map((locale) => [locale, emptyCell()]));
+  }
+  for (const locale of locales) {
+    byLocale[locale] = emptyCell();
+  }
+
+  for (const item of content) {
+    const key = `${item.contentType}:${item.contentId}`;
+
+    for (const locale of locales) {
+      const sourceHash = coverage.get(locale)?.get(key);
+      const field: keyof CoverageCell = !sourceHash
+        ? 'missing'
+        : sourceHashMatches(sourceHash, item.text) ? 'upToDate' : 'stale';
+
+      for (const cell of [matrix[item.contentType][locale], byLocale[locale], overall]) {
+        cell.total++;
+        cell[field]++;
+      }
+    }
+  }
+
+  Object.values(matrix).forEach((row) => Object.values(row).forEach(finishCell));
+  Object.values(byLocale).forEach(finishCell);
+  finishCell(overall);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    locales,
+    contentTypes,
+    matrix,
+    byLocale,
+    overall,
+    belowThreshold: failUnder === undefined
+      ? []
+      : locales.filter((locale) => isBelow(byLocale[locale], failUnder)),
+  };
+}
+
+function formatCell(cell: CoverageCell): string {
+  return `${cell.upToDate}/${cell.total} (${cell.percent.toFixed(1)}%)`;
+}
+
+function formatDetails(cell: CoverageCell): string {
+  const details = [
+    cell.stale > 0 && `${cell.stale} stale`,
+    cell.missing > 0 && `${cell.missing} missing`,
+  ].filter(Boolean);
+  return details.length > 0 ? `, ${details.join(', ')}` : '';
+}
+
+function renderTable(report: CoverageReport): string {
+  const lines: string[] = [];
+
+  for (const contentType of report.contentTypes) {
+    lines.push(`\n${contentType}:`);
+    for (const locale of report.locales) {
+      const cell = report.matrix[contentType][locale];
+      lines.push(`  - ${locale}: ${formatCell(cell)}${formatDetails(cell)}`);
+    }
+  }
+
+  lines.push('\nTotal:');
+  for (const locale of report.locales) {
+    const cell = report.byLocale[locale];
+    lines.push(`  - ${locale}: ${formatCell(cell)}${formatDetails(cell)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function renderMarkdown(report: CoverageReport): string {
+  const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const cellText = (cell: CoverageCell) =>
+    `${cell.percent.toFixed(1)}% (${cell.upToDate}/${cell.total}${formatDetails(cell)})`;
+
+  return [
+    row(['Content type', ...report.locales]),
+    row(['---', ...report.locales.map(() => '---:')]),
+    ...report.contentTypes.map((contentType) =>
+      row([`\`${contentType}\``, ...report.locales.map((locale) => cellText(report.matrix[contentType][locale]))])
+    ),
+    row(['**Total**', ...report.locales.map((locale) => `**${cellText(report.byLocale[locale])}**`)]),
+  ].join('\n');
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One line per (content type, locale); per-locale totals use content type "*"
+ */
+function renderCSV(report: CoverageReport): string {
+  const line = (contentType: string, locale: string, cell: CoverageCell) =>
+    [contentType, locale, cell.total, cell.upToDate, cell.stale, cell.missing, cell.percent]
+      .map(csvField)
+      .join(',');
+
+  return [
+    'content_type,locale,total,up_to_date,stale,missing,percent',
+    ...report.contentTypes.flatMap((contentType) =>
+      report.locales.map((locale) => line(contentType, locale, report.matrix[contentType][locale]))
+    ),
+    ...report.locales.map((locale) => line('*', locale, report.byLocale[locale])),
+  ].join('\n');
+}
+
+/**
+ * Render a coverage report in the given format
+ */
+export function renderCoverageReport(report: CoverageReport, format: StatusFormat = 'table'): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'csv':
+      return renderCSV(report);
+    case 'markdown':
+      return renderMarkdown(report);
+    default:
+      return renderTable(report);
+  }
+}
+
+/**
+ * Print translation coverage per content type and locale
+ *
+ * @returns The report; `belowThreshold` lists locales under `options.failUnder`
+ */
+export async function runStatus(
+  config: AudarCLIConfig,
+  database: DatabaseAdapter,
+  options: CLIOptions = {}
+): Promise<CoverageReport> {
+  const format = options.format ?? 'table';
+  // Keep stdout clean for machine-readable reports
+  const log = format === 'table' ? console.log : console.error;
+
+  log('📊 Audar Translation Status\n');
+
+  const content = await discoverContent(config, database, options.types, log);
+  const locales = options.locale ? [options.locale] : config.locales;
+  const report = await buildCoverageReport(content, locales, database, options.failUnder);
+
+  if (content.length === 0) {
+    log('\n✅ No content found.');
+  }
+
+  if (format === 'table') {
+    console.log(`\nCoverage (up to date / total):${renderTable(report)}`);
+  } else {
+    console.log(renderCoverageReport(report, format));
+  }
+
+  if (options.failUnder !== undefined) {
+    if (report.belowThreshold.length > 0) {
+      console.error(
+        `\n❌ Coverage below ${options.failUnder}%: ` +
+        report.belowThreshold.map((locale) => `${locale} (${formatCell(report.byLocale[locale])})`).join(', ')
+      );
+    } else {
+      log(`\n✅ All locales at or above ${options.failUnder}% coverage`);
+    }
+  }
+
+  return report;
+}
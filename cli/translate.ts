@@ -1,4 +1,3 @@
-#!/usr/bin/env node
 /**
  * Audar CLI - Batch Translation Command
  *
@@ -6,39 +5,78 @@
  * and filling translation gaps.
  *
  * Usage:
- *   npx audar translate
- *   npx audar translate --locale ja
- *   npx audar translate --dry-run
+ *   npx audarma translate
+ *   npx audarma translate --locale ja
+ *   npx audarma translate --types product_title,product_description
+ *   npx audarma translate --dry-run
+ *   npx audarma translate --resume
  */
 
-import crypto from 'crypto';
 import type {
   DatabaseAdapter,
   LLMProvider,
+  PricingTable,
+  RetryOptions,
   TranslationItem,
 } from '../src/types';
 import type {
   AudarCLIConfig,
   DiscoveredContent,
+  FailedBatch,
+  StatusFormat,
   TranslationGap,
+  TranslationProgress,
+  TranslationResult as CLITranslationResult,
 } from '../src/types/content-sources';
-
-interface CLIOptions {
+import { hashSourceText, sourceHashMatches } from '../src/core/source-hash';
+import {
+  calculateCost,
+  createCostTracker,
+  estimateBatchUsage,
+  formatCost,
+  getModelPricing,
+  type CostTracker,
+} from '../src/core/cost';
+import { createBudgetGuard, type BudgetGuard } from '../src/core/budget';
+import { translateWithRecovery } from '../src/core/response-validation';
+import { CircuitOpenError, isTransientError, retryWithBackoff, withResilience } from '../src/core/resilience';
+import { createJournal, type Journal } from './journal';
+
+export interface CLIOptions {
   dryRun?: boolean;
   locale?: string;
   types?: string[];
   force?: boolean;
+  maxItems?: number;
   config?: string;
+  resume?: boolean;
+  journal?: string;
+  /**
+   * Output format of `status` (default: 'table')
+   */
+  format?: StatusFormat;
+  /**
+   * `status` exits with code 1 when a locale's coverage is below this percent
+   */
+  failUnder?: number;
+  /**
+   * Called after each saved batch with running progress and cost
+   */
+  onProgress?: (progress: TranslationProgress) => void;
 }
 
 /**
  * Discover all translatable content from configured sources
+ *
+ * @param log - Progress output (default: stdout)
  */
-async function discoverContent(
+export async function discoverContent(
   config: AudarCLIConfig,
-  database: DatabaseAdapter
+  database: DatabaseAdapter,
+  types?: string[],
+  log: (message: string) => void = console.log
 ): Promise<DiscoveredContent[]> {
-  console.log('🔍 Discovering content...');
+  log('🔍 Discovering content...');
 
   const allContent: DiscoveredContent[] = [];
 
@@ -60,12 +98,13 @@ async function discoverContent(
       continue;
     }
 
-    // Calculate source hash
-    const sourceHash = crypto
-      .createHash('sha256')
-      .update(item.text)
-      .digest('hex')
-      .substring(0, 16);
+    // Skip types not requested with --types
+    if (types && types.length > 0 && !types.includes(item.contentType)) {
+      continue;
+    }
+
+    // Calculate source hash (same format as lazy mode)
+    const sourceHash = hashSourceText(item.text);
 
     allContent.push({
       contentType: item.contentType,
@@ -75,7 +114,7 @@ async function discoverContent(
     });
   }
 
-  console.log(`Found ${allContent.length} items`);
+  log(`Found ${allContent.length} items`);
 
   // Show breakdown by content type
   const breakdown = allContent.reduce((acc, item) => {
@@ -84,16 +123,51 @@ async function discoverContent(
   }, {} as Record<string, number>);
 
   for (const [type, count] of Object.entries(breakdown)) {
-    console.log(`  - ${type}: ${count}`);
+    log(`  - ${type}: ${count}`);
   }
 
   return allContent;
 }
 
+/**
+ * Fetch existing translations for every target locale
+ *
+ * @returns Map of locale -> ("contentType:contentId" -> source_hash)
+ */
+export async function fetchCoverage(
+  items: TranslationItem[],
+  locales: string[],
+  database: DatabaseAdapter
+): Promise<Map<string, Map<string, string>>> {
+  const coverage = new Map<string, Map<string, string>>(
+    locales.map((locale) => [locale, new Map()])
+  );
+
+  if (database.getTranslationCoverage) {
+    // Bulk lookup: one query for all locales
+    const rows = await database.getTranslationCoverage(items, locales);
+    for (const row of rows) {
+      coverage.get(row.locale)?.set(`${row.content_type}:${row.content_id}`, row.source_hash);
+    }
+    return coverage;
+  }
+
+  // Fallback: one lookup per locale
+  for (const locale of locales) {
+    const rows = await database.getCachedTranslations(items, locale);
+    const localeCoverage = coverage.get(locale)!;
+    for (const row of rows) {
+      localeCoverage.set(`${row.content_type}:${row.content_id}`, row.source_hash);
+    }
+  }
+
+  return coverage;
+}
+
 /**
  * Find translation gaps (content missing translations for locales)
  */
-async function findTranslationGaps(
+export async function findTranslationGaps(
   content: DiscoveredContent[],
   locales: string[],
   database: DatabaseAdapter,
@@ -104,40 +178,26 @@ async function findTranslationGaps(
   const gaps: TranslationGap[] = [];
   const targetLocales = targetLocale ? [targetLocale] : locales;
 
-  // Get existing translations from cache
-  const cachedTranslations = await database.getCachedTranslations(
+  // Get existing translations for every target locale
+  const coverage = await fetchCoverage(
     content.map(c => ({
       contentType: c.contentType,
       contentId: c.contentId,
       text: c.text,
     })),
-    targetLocales[0] // Just check first locale for now (optimize later)
+    targetLocales,
+    database
   );
 
-  // Build cache map for quick lookup
-  const cacheMap = new Map<string, Set<string>>();
-  for (const cached of cachedTranslations) {
-    const key = `${cached.content_type}:${cached.content_id}`;
-    if (!cacheMap.has(key)) {
-      cacheMap.set(key, new Set());
-    }
-    // We'd need to query each locale separately in real implementation
-    // For now, assume we need to check all locales
-  }
-
   // Find gaps for each content item
   for (const item of content) {
+    const key = `${item.contentType}:${item.contentId}`;
     const missingLocales: string[] = [];
 
     for (const locale of targetLocales) {
-      const key = `${item.contentType}:${item.contentId}`;
-      const cached = cachedTranslations.find(
-        (c: { content_type: string; content_id: string; translated_text: string; source_hash: string }) =>
-          c.content_type === item.contentType &&
-          c.content_id === item.contentId
-      );
+      const sourceHash = coverage.get(locale)?.get(key);
 
-      if (!cached || cached.source_hash !== item.sourceHash) {
+      if (!sourceHash || !sourceHashMatches(sourceHash, item.text)) {
         missingLocales.push(locale);
       }
     }
@@ -167,21 +227,49 @@ async function findTranslationGaps(
   return gaps;
 }
 
+/**
+ * Sleep helper for budget waits
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Shared state for translating the batches of one run
+ */
+interface BatchRunContext {
+  sourceLocale: string;
+  llm: LLMProvider;
+  database: DatabaseAdapter;
+  batchSize: number;
+  journal: Journal;
+  retry: RetryOptions;
+  costs: CostTracker;
+  budget: BudgetGuard | null;
+  acceptIdentical?: (item: TranslationItem) => boolean;
+  onProgress?: (progress: TranslationProgress) => void;
+}
+
+const MAX_BUDGET_WAIT_MS = 60 * 1000;
+
 /**
  * Batch translate items for a specific locale
+ *
+ * Batches already recorded as completed in the journal are skipped, and so
+ * are items it records as saved. Batches that keep failing after retries are
+ * recorded and reported instead of aborting the run.
  */
 async function translateBatch(
   gaps: TranslationGap[],
   locale: string,
-  sourceLocale: string,
-  llm: LLMProvider,
-  database: DatabaseAdapter,
-  batchSize: number
-): Promise<number> {
+  context: BatchRunContext
+): Promise<{ translated: number; failed: FailedBatch[]; budgetExhausted?: string }> {
+  const { sourceLocale, llm, database, batchSize, journal, retry, costs, budget, acceptIdentical } = context;
   const itemsForLocale = gaps.filter(g => g.missingLocales.includes(locale));
+  const failed: FailedBatch[] = [];
 
   if (itemsForLocale.length === 0) {
-    return 0;
+    return { translated: 0, failed };
   }
 
   console.log(`\n📝 Translating to ${locale}...`);
@@ -193,154 +281,376 @@ async function translateBatch(
     const batch = itemsForLocale.slice(i, i + batchSize);
     const batchNumber = Math.floor(i / batchSize) + 1;
 
-    console.log(`  ✨ Batch ${batchNumber}/${batches}: ${batch.length} items...`);
+    if (journal.isCompleted(locale, batchNumber)) {
+      console.log(`  ⏭️  Batch ${batchNumber}/${batches}: already completed`);
+      continue;
+    }
+
+    // Items of a partly saved batch (e.g. an interrupted run) are not paid for twice
+    const pending = batch.filter((item) => !journal.isSaved(locale, item));
+    if (pending.length === 0) {
+      journal.markCompleted(locale, batchNumber);
+      console.log(`  ⏭️  Batch ${batchNumber}/${batches}: already saved`);
+      continue;
+    }
+
+    const alreadySaved = batch.length - pending.length;
+    console.log(
+      `  ✨ Batch ${batchNumber}/${batches}: ${pending.length} items` +
+      `${alreadySaved > 0 ? ` (${alreadySaved} already saved)` : ''}...`
+    );
 
     // Prepare items for translation
-    const translationItems: TranslationItem[] = batch.map(item => ({
+    const translationItems: TranslationItem[] = pending.map(item => ({
       contentType: item.contentType,
       contentId: item.contentId,
       text: item.text,
     }));
 
+    // Spend caps: wait out a per-minute window once, otherwise stop this locale
+    let decision = budget ? await budget.reserve(translationItems, locale) : null;
+    if (decision && !decision.allowed && decision.retryAfterMs !== undefined && decision.retryAfterMs <= MAX_BUDGET_WAIT_MS) {
+      console.log(`  ⏳ Budget limit ${decision.exceeded} reached, waiting ${(decision.retryAfterMs / 1000).toFixed(0)}s...`);
+      await sleep(decision.retryAfterMs);
+      decision = await budget!.reserve(translationItems, locale);
+    }
+    if (decision && !decision.allowed) {
+      console.log(`  💸 Budget exhausted (${decision.exceeded}) - stopping ${locale} at batch ${batchNumber}/${batches}`);
+      return { translated: totalTranslated, failed, budgetExhausted: decision.exceeded };
+    }
+
+    const gapByItem = new Map(translationItems.map((item, idx) => [item, pending[idx]]));
+    // Usage of every request for this batch, settled against the reservation once
+    const used = { inputTokens: 0, outputTokens: 0 };
+    let reported = false;
+    let batchFailed = false;
+
     try {
-      // Translate batch
-      const translations = await llm.translateBatch(
-        translationItems,
-        sourceLocale,
-        locale
+      const retryLog = (action: string) => (attempt: number, delayMs: number, error: unknown) => {
+        console.warn(
+          `  ⚠️  Batch ${batchNumber}/${batches} ${action} failed (${error instanceof Error ? error.message : error}), ` +
+          `retry ${attempt} in ${(delayMs / 1000).toFixed(1)}s...`
+        );
+      };
+
+      // Translate batch, re-requesting items that come back missing or invalid
+      const { translations, rejected } = await retryWithBackoff(
+        () => translateWithRecovery(llm, translationItems, sourceLocale, locale, {
+          stream: false,
+          acceptIdentical,
+          onUsage: (usage, requested) => {
+            costs.record(usage, requested, locale);
+            reported = true;
+            used.inputTokens += usage.inputTokens;
+            used.outputTokens += usage.outputTokens;
+          },
+        }),
+        {
+          ...retry,
+          // An open circuit is waited out (its retryAfterMs sets the delay)
+          isRetryable: (error) => error instanceof CircuitOpenError || isTransientError(error),
+          onRetry: retryLog('translation'),
+        }
       );
 
-      // Save to database
-      const translationsToSave = batch.map((item, idx) => ({
+      // Save to database - only validated translations. Retried on its own,
+      // so a failed save never pays for the translations again.
+      const translationsToSave = translations.map(({ item, text }) => ({
         content_type: item.contentType,
         content_id: item.contentId,
         locale,
         original_text: item.text,
-        translated_text: translations[idx],
-        source_hash: item.sourceHash,
+        translated_text: text,
+        source_hash: gapByItem.get(item)!.sourceHash,
       }));
 
-      await database.saveTranslations(translationsToSave);
+      if (translationsToSave.length > 0) {
+        await retryWithBackoff(() => database.saveTranslations(translationsToSave), {
+          ...retry,
+          onRetry: retryLog('save'),
+        });
+        journal.markSaved(locale, translations.map(({ item }) => item));
+      }
+      const saved = translationsToSave.length;
+
+      totalTranslated += saved;
+
+      if (rejected.length > 0) {
+        // Saved items are no longer gaps; a later run picks up the rest
+        const reasons = Array.from(new Set(rejected.map((r) => r.reason))).join(', ');
+        const error = `${rejected.length} of ${pending.length} items without a valid translation (${reasons})`;
+        console.warn(`  ⚠️  Batch ${batchNumber}/${batches}: ${saved} translations saved, ${error}`);
+        journal.markFailed(locale, batchNumber, error);
+        failed.push({ locale, batchNumber, itemCount: rejected.length, error });
+      } else {
+        journal.markCompleted(locale, batchNumber);
+        console.log(`  ✅ Batch ${batchNumber}/${batches}: ${saved} translations saved`);
+      }
 
-      totalTranslated += translations.length;
-      console.log(`  ✅ Batch ${batchNumber}/${batches}: ${translations.length} translations saved`);
+      context.onProgress?.({
+        locale,
+        itemsTotal: itemsForLocale.length,
+        itemsCompleted: Math.min(i + batchSize, itemsForLocale.length),
+        batchNumber,
+        totalBatches: batches,
+        estimatedCost: costs.totals().byLocale[locale]?.cost ?? 0,
+      });
     } catch (error) {
+      batchFailed = true;
       console.error(`  ❌ Batch ${batchNumber}/${batches} failed:`, error);
-      throw error;
+      journal.markFailed(locale, batchNumber, error);
+      failed.push({
+        locale,
+        batchNumber,
+        itemCount: pending.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      // Without reported usage the estimate stands, unless the batch failed (refund it)
+      if (batchFailed || reported) {
+        await decision?.settle(used);
+      }
     }
   }
 
-  return totalTranslated;
+  return { translated: totalTranslated, failed };
 }
 
 /**
  * Main CLI translation function
+ *
+ * With `options.resume`, continues the run recorded in the journal instead of
+ * discovering content again.
+ *
+ * @param llm - Provider to translate with; may be omitted for `options.dryRun`
+ *   (the estimate then uses the `'*'` pricing entry)
  */
 export async function runTranslation(
   config: AudarCLIConfig,
   database: DatabaseAdapter,
-  llm: LLMProvider,
+  llm: LLMProvider | undefined,
   options: CLIOptions = {}
-): Promise<void> {
+): Promise<CLITranslationResult> {
   const startTime = Date.now();
+  const journal = createJournal(options.journal ?? config.journalPath);
+
+  const result: CLITranslationResult = {
+    totalItems: 0,
+    translatedItems: 0,
+    cachedItems: 0,
+    totalCost: 0,
+    duration: 0,
+    locales: [],
+    summary: {},
+    byContentType: {},
+    inputTokens: 0,
+    outputTokens: 0,
+    failedBatches: [],
+  };
 
   console.log('🚀 Audar Batch Translation\n');
 
-  // Step 1: Discover content
-  const content = await discoverContent(config, database);
+  let gaps: TranslationGap[];
+  let targetLocales: string[];
+  let sourceLocale: string;
+  let batchSize: number;
 
-  if (content.length === 0) {
-    console.log('\n✅ No content found. Nothing to translate.');
-    return;
-  }
+  if (options.resume) {
+    const state = journal.load();
+    if (!state) {
+      throw new Error(`Nothing to resume: no journal found at ${journal.filePath}`);
+    }
 
-  // Step 2: Find gaps
-  const gaps = await findTranslationGaps(
-    content,
-    config.locales,
-    database,
-    options.locale
-  );
+    ({ gaps, locales: targetLocales, sourceLocale, batchSize } = state);
+    console.log(
+      `⏯️  Resuming run from ${new Date(state.createdAt).toLocaleString()} ` +
+      `(${state.completed.length} batches completed, ${Object.keys(state.failed).length} failed, ` +
+      `${Object.values(state.saved).reduce((sum, keys) => sum + keys.length, 0)} translations saved)`
+    );
+  } else {
+    // Step 1: Discover content
+    const content = await discoverContent(config, database, options.types);
+    result.totalItems = content.length;
+
+    if (content.length === 0) {
+      console.log('\n✅ No content found. Nothing to translate.');
+      return finish(result, startTime);
+    }
 
-  if (gaps.length === 0) {
-    console.log('\n✅ No translation gaps found. All content is up to date!');
-    return;
-  }
+    // Step 2: Find gaps (--force re-translates everything)
+    gaps = options.force
+      ? content.map((item) => ({
+          ...item,
+          missingLocales: options.locale ? [options.locale] : config.locales,
+        }))
+      : await findTranslationGaps(content, config.locales, database, options.locale);
+
+    const maxItems = options.maxItems ?? config.maxItems;
+    if (maxItems && gaps.length > maxItems) {
+      console.log(`\nLimiting run to ${maxItems} of ${gaps.length} items (max items)`);
+      gaps = gaps.slice(0, maxItems);
+    }
+
+    if (gaps.length === 0) {
+      console.log('\n✅ No translation gaps found. All content is up to date!');
+      return finish(result, startTime);
+    }
+
+    sourceLocale = config.sourceLocale || 'en';
+    batchSize = config.batchSize || 20;
+    targetLocales = options.locale ? [options.locale] : config.locales;
 
-  // Dry run check
-  if (options.dryRun) {
-    console.log('\n🔍 DRY RUN - No translations will be performed');
-    console.log(`\nWould translate ${gaps.length} items to:`);
-    const locales = options.locale ? [options.locale] : config.locales;
-    for (const locale of locales) {
-      const count = gaps.filter(g => g.missingLocales.includes(locale)).length;
-      console.log(`  - ${locale}: ${count} items`);
+    // Dry run check
+    if (options.dryRun) {
+      printDryRunEstimate(gaps, targetLocales, batchSize, config.pricing, llm?.model);
+      return finish(result, startTime);
     }
-    return;
+
+    journal.start({ sourceLocale, batchSize, locales: targetLocales, gaps });
   }
 
-  // Step 3: Translate by locale
-  const sourceLocale = config.sourceLocale || 'en';
-  const batchSize = config.batchSize || 20;
-  const targetLocales = options.locale ? [options.locale] : config.locales;
+  if (!llm) {
+    throw new Error('An LLM provider is required to translate (only --dry-run runs without one, and not with --resume)');
+  }
 
-  let totalTranslated = 0;
+  // Step 3: Translate by locale
+  result.locales = targetLocales;
+  result.totalItems = result.totalItems || gaps.length;
+
+  const costs = createCostTracker(config.pricing, llm.model);
+  const context: BatchRunContext = {
+    sourceLocale,
+    // LLM calls are retried per batch below; the wrapper adds timeouts and the
+    // circuit breaker, whose CircuitOpenError carries the wait before the next try
+    llm: withResilience(llm, {
+      timeoutMs: config.timeoutMs,
+      retry: false,
+      circuitBreaker: config.circuitBreaker === false ? false : { ...config.circuitBreaker, whenOpen: 'throw' },
+    }),
+    database,
+    batchSize,
+    journal,
+    retry: config.retry ?? {},
+    costs,
+    budget: config.budget ? createBudgetGuard(config.budget) : null,
+    acceptIdentical: config.acceptIdentical,
+    onProgress: options.onProgress,
+  };
 
   for (const locale of targetLocales) {
-    const translated = await translateBatch(
-      gaps,
-      locale,
-      sourceLocale,
-      llm,
-      database,
-      batchSize
-    );
-    totalTranslated += translated;
+    const { translated, failed, budgetExhausted } = await translateBatch(gaps, locale, context);
+    result.translatedItems += translated;
+    result.failedBatches.push(...failed);
+    result.budgetExhausted = result.budgetExhausted ?? budgetExhausted;
+    result.summary[locale] = { items: translated, cost: costs.totals().byLocale[locale]?.cost ?? 0 };
+  }
+
+  const totals = costs.totals();
+  result.totalCost = totals.cost;
+  result.inputTokens = totals.inputTokens;
+  result.outputTokens = totals.outputTokens;
+  for (const [contentType, breakdown] of Object.entries(totals.byContentType)) {
+    result.byContentType[contentType] = { items: breakdown.items, cost: breakdown.cost };
   }
 
+  finish(result, startTime);
+
   // Summary
-  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-  console.log(`\n✅ Translation complete!\n`);
+  const duration = (result.duration / 1000).toFixed(1);
+
+  if (result.failedBatches.length > 0) {
+    const failedItems = result.failedBatches.reduce((sum, b) => sum + b.itemCount, 0);
+    console.log(`\n⚠️  Translation finished with ${result.failedBatches.length} failed batches\n`);
+    for (const batch of result.failedBatches) {
+      console.log(`  - ${batch.locale} batch ${batch.batchNumber} (${batch.itemCount} items): ${batch.error}`);
+    }
+    console.log(`\n  ${failedItems} items not translated. Re-run with --resume to retry them.\n`);
+  } else if (result.budgetExhausted) {
+    console.log(`\n💸 Translation stopped early: budget exhausted (${result.budgetExhausted}).`);
+    console.log(`  Re-run with --resume once the budget resets.\n`);
+  } else {
+    journal.clear();
+    console.log(`\n✅ Translation complete!\n`);
+  }
+
   console.log(`Summary:`);
-  console.log(`  Total items translated: ${totalTranslated}`);
+  console.log(`  Total items translated: ${result.translatedItems}`);
+  if (result.inputTokens > 0) {
+    console.log(`  Tokens: ${result.inputTokens} in / ${result.outputTokens} out`);
+    console.log(`  Total cost: ${config.pricing ? formatCost(result.totalCost) : 'unknown (no pricing configured)'}`);
+    if (config.pricing) {
+      console.log(`  By locale:`);
+      for (const [locale, { items, cost }] of Object.entries(result.summary)) {
+        console.log(`    - ${locale}: ${items} items, ${formatCost(cost)}`);
+      }
+      console.log(`  By content type:`);
+      for (const [contentType, { items, cost }] of Object.entries(result.byContentType)) {
+        console.log(`    - ${contentType}: ${items} items, ${formatCost(cost)}`);
+      }
+    }
+  }
   console.log(`  Duration: ${duration}s`);
   console.log(`  Locales: ${targetLocales.join(', ')}`);
-  console.log(`\nNext steps:`);
-  console.log(`  - Deploy with complete translations`);
-  console.log(`  - Lazy mode will handle new content automatically`);
+
+  if (result.failedBatches.length === 0 && !result.budgetExhausted) {
+    console.log(`\nNext steps:`);
+    console.log(`  - Deploy with complete translations`);
+    console.log(`  - Lazy mode will handle new content automatically`);
+  }
+
+  return result;
 }
 
 /**
- * CLI entry point
+ * Print a pre-flight estimate of what a run would translate and cost
+ *
+ * Token counts are estimated from source characters, batch by batch, so the
+ * per-call prompt overhead is included.
  */
-export async function main() {
-  // Parse command line arguments
-  const args = process.argv.slice(2);
-  const options: CLIOptions = {
-    dryRun: args.includes('--dry-run'),
-    locale: args.find(a => a.startsWith('--locale='))?.split('=')[1],
-    config: args.find(a => a.startsWith('--config='))?.split('=')[1] || './audar.config.ts',
-  };
+function printDryRunEstimate(
+  gaps: TranslationGap[],
+  locales: string[],
+  batchSize: number,
+  pricing: PricingTable | undefined,
+  model: string | undefined
+): void {
+  console.log('\n🔍 DRY RUN - No translations will be performed');
+  console.log(`\nWould translate ${gaps.length} items to:`);
+
+  const priced = Boolean(getModelPricing(pricing, model));
+  let totalInput = 0;
+  let totalOutput = 0;
+  let totalCost = 0;
+
+  for (const locale of locales) {
+    const items = gaps.filter(g => g.missingLocales.includes(locale));
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for (let i = 0; i < items.length; i += batchSize) {
+      const usage = estimateBatchUsage(items.slice(i, i + batchSize));
+      inputTokens += usage.inputTokens;
+      outputTokens += usage.outputTokens;
+    }
 
-  try {
-    // Load config file
-    const configPath = options.config || './audar.config.ts';
-    console.log(`📋 Loading config from ${configPath}...`);
+    const cost = calculateCost({ inputTokens, outputTokens }, pricing, model);
+    totalInput += inputTokens;
+    totalOutput += outputTokens;
+    totalCost += cost;
 
-    // In a real implementation, we'd dynamically import the config
-    // For now, throw an error with instructions
-    throw new Error(
-      'CLI not yet wired up to config file.\n' +
-      'Please use runTranslation() function directly from your code.\n' +
-      'See packages/audar/docs/dual-mode-translation.md for examples.'
-    );
-  } catch (error) {
-    console.error('❌ Error:', error instanceof Error ? error.message : error);
-    process.exit(1);
+    const costLabel = priced ? `, ~${formatCost(cost)}` : '';
+    console.log(`  - ${locale}: ${items.length} items (~${inputTokens} in / ~${outputTokens} out tokens${costLabel})`);
+  }
+
+  console.log(`\nEstimated total: ~${totalInput} input / ~${totalOutput} output tokens`);
+  if (priced) {
+    console.log(`Estimated cost: ~${formatCost(totalCost)}${model ? ` (${model})` : ''}`);
+  } else {
+    console.log(`Estimated cost: unknown - add \`pricing\` for ${model ? `"${model}"` : 'your model'} to the config`);
   }
 }
 
-// Run CLI if executed directly
-if (require.main === module) {
-  main();
+function finish(result: CLITranslationResult, startTime: number): CLITranslationResult {
+  result.duration = Date.now() - startTime;
+  return result;
 }
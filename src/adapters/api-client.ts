@@ -0,0 +1,109 @@
+/**
+ * Audarma API Client
+ *
+ * Browser-side DatabaseAdapter and LLMProvider that forward to a server route
+ * created with createAudarmaRouteHandler(). No API keys or database
+ * credentials are needed on the client.
+ *
+ * @example
+ * ```tsx
+ * 'use client';
+ * import { AudarProvider, createAudarmaClient } from 'audarma';
+ *
+ * const { database, llm } = createAudarmaClient({ endpoint: '/api/audarma' });
+ *
+ * <AudarProvider config={{ database, llm, i18n }}>
+ *   <App />
+ * </AudarProvider>
+ * ```
+ */
+
+import type { DatabaseAdapter, LLMProvider, TranslateBatchOptions, TranslationItem } from '../types';
+import type {
+  AudarmaApiRequest,
+  AudarmaLookupResponse,
+  AudarmaTranslateResponse,
+} from '../types/api';
+
+export interface AudarmaClientOptions {
+  /**
+   * Route handler URL (default: '/api/audarma')
+   */
+  endpoint?: string;
+
+  /**
+   * Extra request headers (e.g. CSRF token)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Custom fetch implementation (default: global fetch)
+   */
+  fetch?: typeof fetch;
+}
+
+export function createAudarmaClient(options: AudarmaClientOptions = {}): {
+  database: DatabaseAdapter;
+  llm: LLMProvider;
+} {
+  const { endpoint = '/api/audarma', headers = {} } = options;
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  async function post<T>(body: AudarmaApiRequest, signal?: AbortSignal): Promise<T> {
+    const response = await fetchImpl(endpoint, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Audarma API error: ${response.status} ${error}`);
+    }
+
+    return response.json();
+  }
+
+  const database: DatabaseAdapter = {
+    async getCachedTranslations(items: TranslationItem[], targetLocale: string) {
+      if (items.length === 0) {
+        return [];
+      }
+
+      const data = await post<AudarmaLookupResponse>({ action: 'lookup', locale: targetLocale, items });
+      return data.translations;
+    },
+
+    async saveTranslations() {
+      // The route handler saves translations on the server - nothing to do here
+    },
+  };
+
+  const llm: LLMProvider = {
+    async translateBatch(
+      items: TranslationItem[],
+      _sourceLocale: string,
+      targetLocale: string,
+      translateOptions?: TranslateBatchOptions
+    ) {
+      if (items.length === 0) {
+        return [];
+      }
+
+      const data = await post<AudarmaTranslateResponse>(
+        { action: 'translate', locale: targetLocale, items },
+        translateOptions?.signal
+      );
+
+      const byKey = new Map(
+        data.translations.map((t) => [`${t.contentType}:${t.contentId}`, t.translatedText])
+      );
+
+      // Items the server could not translate are absent - left undefined
+      return items.map((item) => byKey.get(`${item.contentType}:${item.contentId}`));
+    },
+  };
+
+  return { database, llm };
+}
@@ -12,9 +12,15 @@
  *   model: 'claude-sonnet-4.5-20250929', // or 'claude-haiku-4.5', 'claude-opus-4.1'
  * });
  * ```
+ *
+ * Also implements translateBatchStream, so views show each translation as
+ * the model writes it.
  */
 
-import type { LLMProvider, TranslationItem } from '../../types';
+import type { LLMProvider, StreamedTranslation, TranslateBatchOptions, TranslationItem } from '../../types';
+import { createJsonObjectStreamParser, parseTranslationStream, readEventStream } from '../../core/streaming';
+import { keyedBatch, parseKeyedTranslations } from '../../core/response-validation';
+import { LLMRequestError } from '../../core/resilience';
 
 interface AnthropicConfig {
   apiKey: string;
@@ -33,6 +39,28 @@ interface AnthropicResponse {
     type: string;
     text: string;
   }>;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// Subset of streaming events used here (message_start, content_block_delta, message_delta)
+interface AnthropicStreamEvent {
+  type: string;
+  message?: {
+    usage?: {
+      input_tokens: number;
+      output_tokens: number;
+    };
+  };
+  delta?: {
+    type?: string;
+    text?: string;
+  };
+  usage?: {
+    output_tokens: number;
+  };
 }
 
 export function createAnthropicProvider(config: AnthropicConfig): LLMProvider {
@@ -43,62 +71,117 @@ export function createAnthropicProvider(config: AnthropicConfig): LLMProvider {
     temperature = 0.3,
   } = config;
 
+  const buildMessages = (
+    items: TranslationItem[],
+    sourceLocale: string,
+    targetLocale: string
+  ): AnthropicMessage[] => {
+    const prompt = `Translate the following texts from ${sourceLocale} to ${targetLocale}.
+
+Input texts (JSON object mapping ids to texts):
+${JSON.stringify(keyedBatch(items.map((item) => item.text)))}
+
+Return ONLY a JSON object with the same ids mapping to the translated texts - one entry per input id, never merged or split. Do not include any explanations or markdown formatting.`;
+
+    return [
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ];
+  };
+
+  const createMessage = async (messages: AnthropicMessage[], stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        messages,
+        ...(stream && { stream: true }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await LLMRequestError.fromResponse('Anthropic', response);
+    }
+
+    return response;
+  };
+
   return {
+    model,
+
     async translateBatch(
       items: TranslationItem[],
       sourceLocale: string,
-      targetLocale: string
-    ): Promise<string[]> {
-      const prompt = `Translate the following texts from ${sourceLocale} to ${targetLocale}.
-
-Input texts (JSON array):
-${JSON.stringify(items.map((item) => item.text))}
-
-Return ONLY a JSON array of translated strings, in the same order as the input. Do not include any explanations or markdown formatting.`;
-
-      const messages: AnthropicMessage[] = [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ];
-
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model,
-          max_tokens: maxTokens,
-          temperature,
-          messages,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Anthropic API error: ${response.status} ${error}`);
-      }
+      targetLocale: string,
+      options?: TranslateBatchOptions
+    ): Promise<Array<string | undefined>> {
+      if (items.length === 0) return [];
+
+      const response = await createMessage(buildMessages(items, sourceLocale, targetLocale), false, options?.signal);
 
       const data: AnthropicResponse = await response.json();
       const content = data.content[0]?.text;
 
+      if (data.usage) {
+        options?.onUsage?.({
+          inputTokens: data.usage.input_tokens,
+          outputTokens: data.usage.output_tokens,
+          model,
+        });
+      }
+
       if (!content) {
         throw new Error('No response from Anthropic');
       }
 
-      try {
-        const translations = JSON.parse(content);
-        if (!Array.isArray(translations)) {
-          throw new Error('Response is not an array');
+      // Answers are keyed by id, so a skipped item leaves a gap instead of
+      // shifting the rest
+      return parseKeyedTranslations(content, items.length);
+    },
+
+    async *translateBatchStream(
+      items: TranslationItem[],
+      sourceLocale: string,
+      targetLocale: string,
+      options?: TranslateBatchOptions
+    ): AsyncGenerator<StreamedTranslation> {
+      if (items.length === 0) return;
+
+      const response = await createMessage(buildMessages(items, sourceLocale, targetLocale), true, options?.signal);
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      async function* textDeltas() {
+        for await (const data of readEventStream(response)) {
+          const event: AnthropicStreamEvent = JSON.parse(data);
+
+          if (event.type === 'message_start' && event.message?.usage) {
+            inputTokens = event.message.usage.input_tokens;
+            outputTokens = event.message.usage.output_tokens;
+          } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+            yield event.delta.text;
+          } else if (event.type === 'message_delta' && event.usage) {
+            // Cumulative output token count
+            outputTokens = event.usage.output_tokens;
+          } else if (event.type === 'error') {
+            throw new Error(`Anthropic stream error: ${data}`);
+          }
         }
-        return translations;
-      } catch (err) {
-        throw new Error(`Failed to parse Anthropic response: ${err}`);
+
+        options?.onUsage?.({ inputTokens, outputTokens, model });
       }
+
+      yield* parseTranslationStream(textDeltas(), createJsonObjectStreamParser());
     },
   };
 }
@@ -15,9 +15,15 @@
  *   model: 'qwen3-235b', // or 'qwen3-32b', 'deepseek-r1-70b'
  * });
  * ```
+ *
+ * Also implements translateBatchStream, so views show each translation as
+ * the model writes it.
  */
 
-import type { LLMProvider, TranslationItem } from '../../types';
+import type { LLMProvider, StreamedTranslation, TranslateBatchOptions, TranslationItem } from '../../types';
+import { createJsonObjectStreamParser, parseTranslationStream, readEventStream } from '../../core/streaming';
+import { keyedBatch, parseKeyedTranslations } from '../../core/response-validation';
+import { LLMRequestError } from '../../core/resilience';
 
 interface CerebrasConfig {
   apiKey: string;
@@ -36,6 +42,22 @@ interface CerebrasChatCompletion {
       content: string;
     };
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+interface CerebrasChatCompletionChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  } | null;
 }
 
 export function createCerebrasProvider(config: CerebrasConfig): LLMProvider {
@@ -45,60 +67,109 @@ export function createCerebrasProvider(config: CerebrasConfig): LLMProvider {
     temperature = 0.3,
   } = config;
 
+  const buildMessages = (
+    items: TranslationItem[],
+    sourceLocale: string,
+    targetLocale: string
+  ): CerebrasMessage[] => [
+    {
+      role: 'system',
+      content: `You are a professional translator. Translate the following texts from ${sourceLocale} to ${targetLocale}. The input is a JSON object mapping ids to texts. Return ONLY a JSON object with the same ids mapping to the translated texts - one entry per input id, never merged or split. Do not include any explanations, markdown formatting, or code blocks.`,
+    },
+    {
+      role: 'user',
+      content: JSON.stringify(keyedBatch(items.map((item) => item.text))),
+    },
+  ];
+
+  const createCompletion = async (messages: CerebrasMessage[], stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch('https://api.cerebras.ai/v1/chat/completions', {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        stream,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await LLMRequestError.fromResponse('Cerebras', response);
+    }
+
+    return response;
+  };
+
   return {
+    model,
+
     async translateBatch(
       items: TranslationItem[],
       sourceLocale: string,
-      targetLocale: string
-    ): Promise<string[]> {
-      const messages: CerebrasMessage[] = [
-        {
-          role: 'system',
-          content: `You are a professional translator. Translate the following texts from ${sourceLocale} to ${targetLocale}. Return ONLY a JSON array of translated strings, in the same order as the input. Do not include any explanations, markdown formatting, or code blocks.`,
-        },
-        {
-          role: 'user',
-          content: JSON.stringify(items.map((item) => item.text)),
-        },
-      ];
-
-      const response = await fetch('https://api.cerebras.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages,
-          temperature,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Cerebras API error: ${response.status} ${error}`);
-      }
+      targetLocale: string,
+      options?: TranslateBatchOptions
+    ): Promise<Array<string | undefined>> {
+      if (items.length === 0) return [];
+
+      const response = await createCompletion(buildMessages(items, sourceLocale, targetLocale), false, options?.signal);
 
       const data: CerebrasChatCompletion = await response.json();
       const content = data.choices[0]?.message?.content;
 
+      if (data.usage) {
+        options?.onUsage?.({
+          inputTokens: data.usage.prompt_tokens,
+          outputTokens: data.usage.completion_tokens,
+          model,
+        });
+      }
+
       if (!content) {
         throw new Error('No response from Cerebras');
       }
 
-      try {
-        // Cerebras sometimes wraps response in markdown code blocks, handle that
-        const cleaned = content.replace(/```json\n?|\n?```/g, '').trim();
-        const translations = JSON.parse(cleaned);
-        if (!Array.isArray(translations)) {
-          throw new Error('Response is not an array');
+      // Answers are keyed by id, so a skipped item leaves a gap instead of
+      // shifting the rest. The parser skips markdown code fences Cerebras
+      // sometimes adds.
+      return parseKeyedTranslations(content, items.length);
+    },
+
+    async *translateBatchStream(
+      items: TranslationItem[],
+      sourceLocale: string,
+      targetLocale: string,
+      options?: TranslateBatchOptions
+    ): AsyncGenerator<StreamedTranslation> {
+      if (items.length === 0) return;
+
+      const response = await createCompletion(buildMessages(items, sourceLocale, targetLocale), true, options?.signal);
+
+      async function* contentDeltas() {
+        for await (const data of readEventStream(response)) {
+          if (data === '[DONE]') break;
+
+          const chunk: CerebrasChatCompletionChunk = JSON.parse(data);
+          const content = chunk.choices[0]?.delta?.content;
+          if (content) yield content;
+
+          // Usage arrives with the final chunk
+          if (chunk.usage) {
+            options?.onUsage?.({
+              inputTokens: chunk.usage.prompt_tokens,
+              outputTokens: chunk.usage.completion_tokens,
+              model,
+            });
+          }
         }
-        return translations;
-      } catch (err) {
-        throw new Error(`Failed to parse Cerebras response: ${err}`);
       }
+
+      // The parser skips markdown code fences Cerebras sometimes adds
+      yield* parseTranslationStream(contentDeltas(), createJsonObjectStreamParser());
     },
   };
 }
@@ -0,0 +1,420 @@
+/**
+ * Example Drizzle Database Adapter
+ *
+ * Reference implementation for Drizzle ORM with PostgreSQL or SQLite.
+ * Implements every DatabaseAdapter method, including
+ * getAllTranslatableContent for CLI mode.
+ *
+ * Drizzle's query operators are passed in (`import * as orm from
+ * 'drizzle-orm'`), so this example compiles without drizzle-orm installed.
+ *
+ * Schema (PostgreSQL - use `sqliteTable` and `real`/`integer` for SQLite):
+ *
+ * ```ts
+ * import { doublePrecision, index, pgTable, primaryKey, text, timestamp } from 'drizzle-orm/pg-core';
+ *
+ * export const contentTranslations = pgTable('content_translations', {
+ *   contentType: text('content_type').notNull(),
+ *   contentId: text('content_id').notNull(),
+ *   locale: text('locale').notNull(),
+ *   originalText: text('original_text').notNull(),
+ *   translatedText: text('translated_text').notNull(),
+ *   sourceHash: text('source_hash').notNull(),
+ *   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+ *   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+ * }, (t) => [
+ *   primaryKey({ columns: [t.contentType, t.contentId, t.locale] }),
+ *   index('idx_content_translations_locale').on(t.locale),
+ * ]);
+ *
+ * // Optional: shared budget counters for createDatabaseBudgetCounter()
+ * export const audarmaBudgetCounters = pgTable('audarma_budget_counters', {
+ *   key: text('key').primaryKey(),
+ *   value: doublePrecision('value').notNull(),
+ *   expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+ * });
+ * ```
+ *
+ * @example
+ * ```ts
+ * import * as orm from 'drizzle-orm';
+ * import { drizzle } from 'drizzle-orm/node-postgres';
+ * import { createDrizzleAdapter } from 'audarma/adapters/drizzle';
+ * import { contentTranslations, audarmaBudgetCounters, products } from './schema';
+ *
+ * const adapter = createDrizzleAdapter(drizzle(process.env.DATABASE_URL!), {
+ *   orm,
+ *   translations: contentTranslations,
+ *   budgetCounters: audarmaBudgetCounters,
+ *   sources: { products },
+ * });
+ * ```
+ *
+ * For getAllTranslatableContent, `table` names a key of `sources`, and
+ * `idColumn`, `textColumn` and `where` keys are the table object's column
+ * properties (e.g. `createdAt`, not `created_at`).
+ */
+
+import type {
+  CachedTranslation,
+  DatabaseAdapter,
+  StoredTranslation,
+  TranslationCoverage,
+  TranslationFilter,
+  TranslationItem,
+} from '../../types';
+
+// Drizzle's SQL and column types are deeply generic - kept opaque here
+type SQLExpression = unknown;
+type Column = unknown;
+
+type Row = Record<string, unknown>;
+
+/**
+ * The `content_translations` table object
+ */
+interface TranslationsTable {
+  contentType: Column;
+  contentId: Column;
+  locale: Column;
+  originalText: Column;
+  translatedText: Column;
+  sourceHash: Column;
+}
+
+/**
+ * The `audarma_budget_counters` table object
+ */
+interface BudgetCountersTable {
+  key: Column;
+  value: Column;
+  expiresAt: Column;
+}
+
+/**
+ * Query operators from `drizzle-orm`
+ */
+export interface DrizzleOperators {
+  eq(column: Column, value: unknown): SQLExpression;
+  lte(column: Column, value: unknown): SQLExpression;
+  ne(column: Column, value: unknown): SQLExpression;
+  and(...conditions: Array<SQLExpression | undefined>): SQLExpression | undefined;
+  or(...conditions: Array<SQLExpression | undefined>): SQLExpression | undefined;
+  inArray(column: Column, values: unknown[]): SQLExpression;
+  isNull(column: Column): SQLExpression;
+  isNotNull(column: Column): SQLExpression;
+  asc(column: Column): SQLExpression;
+  count(): SQLExpression;
+  sql: {
+    (strings: TemplateStringsArray, ...values: unknown[]): SQLExpression;
+    raw(query: string): SQLExpression;
+  };
+}
+
+/*
+ * The query builder chains the adapter uses. Drizzle removes a clause from
+ * the builder once it is applied, so each step only lists what may follow it.
+ */
+
+interface DrizzleSelectLimited extends PromiseLike<Row[]> {
+  offset(offset: number): PromiseLike<Row[]>;
+}
+
+interface DrizzleSelectOrdered {
+  limit(limit: number): DrizzleSelectLimited;
+}
+
+interface DrizzleSelectWhere extends PromiseLike<Row[]> {
+  groupBy(...columns: Column[]): PromiseLike<Row[]>;
+  orderBy(...columns: SQLExpression[]): DrizzleSelectOrdered;
+}
+
+interface DrizzleSelectFrom {
+  where(condition: SQLExpression): DrizzleSelectWhere;
+}
+
+interface DrizzleReturning extends PromiseLike<unknown> {
+  returning(fields: Record<string, Column>): PromiseLike<Row[]>;
+}
+
+interface DrizzleInsert {
+  values(rows: Row | Row[]): {
+    onConflictDoUpdate(config: { target: Column | Column[]; set: Row }): DrizzleReturning;
+  };
+}
+
+/**
+ * Drizzle database (node-postgres, postgres-js, better-sqlite3, libsql, ...)
+ */
+export interface DrizzleDatabase {
+  select(fields: Record<string, Column>): { from(table: object): DrizzleSelectFrom };
+  insert(table: object): DrizzleInsert;
+  delete(table: object): { where(condition: SQLExpression): DrizzleReturning };
+}
+
+interface DrizzleAdapterOptions {
+  /**
+   * `import * as orm from 'drizzle-orm'`
+   */
+  orm: DrizzleOperators;
+
+  /**
+   * The `content_translations` table
+   */
+  translations: TranslationsTable;
+
+  /**
+   * The `audarma_budget_counters` table (required for incrementBudgetCounter)
+   */
+  budgetCounters?: BudgetCountersTable;
+
+  /**
+   * Source tables for getAllTranslatableContent, by ContentSource.table
+   */
+  sources?: Record<string, object>;
+
+  /**
+   * Rows per lookup and upsert statement (default: 500)
+   */
+  chunkSize?: number;
+
+  /**
+   * Rows per page when reading source tables (default: 1000)
+   */
+  pageSize?: number;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Drizzle types rows by the selected columns; the opaque columns here cannot,
+ * so selections are typed at the call site
+ */
+function selected<T>(rows: Row[]): T[] {
+  return rows as unknown as T[];
+}
+
+/**
+ * Column of a source table by property name
+ */
+function columnOf(table: object, key: string): Column | undefined {
+  return (table as Record<string, Column | undefined>)[key];
+}
+
+export function createDrizzleAdapter(db: DrizzleDatabase, options: DrizzleAdapterOptions): DatabaseAdapter {
+  const { orm, translations: t, budgetCounters, sources = {}, chunkSize = 500, pageSize = 1000 } = options;
+
+  const pairCondition = (items: TranslationItem[]) =>
+    orm.or(...items.map((item) => orm.and(orm.eq(t.contentType, item.contentType), orm.eq(t.contentId, item.contentId))));
+
+  const filterCondition = (filter: TranslationFilter) =>
+    orm.and(
+      filter.contentType !== undefined ? orm.eq(t.contentType, filter.contentType) : undefined,
+      filter.contentIds ? orm.inArray(t.contentId, filter.contentIds) : undefined,
+      filter.locales ? orm.inArray(t.locale, filter.locales) : undefined
+    );
+
+  /**
+   * Translate a `where` object into a condition on a source table
+   *
+   * - `null` matches NULL
+   * - arrays match any of their values
+   * - other values match equal values
+   */
+  const whereCondition = (table: object, where: Record<string, unknown> | undefined) =>
+    orm.and(
+      ...Object.entries(where ?? {}).map(([key, value]) => {
+        const column = columnOf(table, key);
+        if (!column) {
+          throw new Error(`[Drizzle Adapter] Unknown column "${key}"`);
+        }
+        if (value === null) return orm.isNull(column);
+        if (Array.isArray(value)) return orm.inArray(column, value);
+        return orm.eq(column, value);
+      })
+    );
+
+  return {
+    async getCachedTranslations(items, targetLocale) {
+      const results: CachedTranslation[] = [];
+
+      // Composite-key lookup: OR of (contentType, contentId) pairs within the locale
+      for (const batch of chunk(items, chunkSize)) {
+        const rows = await db
+          .select({
+            content_type: t.contentType,
+            content_id: t.contentId,
+            translated_text: t.translatedText,
+            source_hash: t.sourceHash,
+          })
+          .from(t)
+          .where(orm.and(orm.eq(t.locale, targetLocale), pairCondition(batch)));
+        results.push(...selected<CachedTranslation>(rows));
+      }
+
+      return results;
+    },
+
+    async saveTranslations(rows) {
+      // Deduplicate by (content_type, content_id, locale) - an upsert may not
+      // touch the same row twice
+      const uniqueRows = Array.from(
+        new Map(rows.map((row) => [`${row.content_type}:${row.content_id}:${row.locale}`, row])).values()
+      );
+
+      for (const batch of chunk(uniqueRows, chunkSize)) {
+        await db
+          .insert(t)
+          .values(batch.map((row) => ({
+            contentType: row.content_type,
+            contentId: row.content_id,
+            locale: row.locale,
+            originalText: row.original_text,
+            translatedText: row.translated_text,
+            sourceHash: row.source_hash,
+          })))
+          .onConflictDoUpdate({
+            target: [t.contentType, t.contentId, t.locale],
+            set: {
+              originalText: orm.sql.raw('excluded.original_text'),
+              translatedText: orm.sql.raw('excluded.translated_text'),
+              sourceHash: orm.sql.raw('excluded.source_hash'),
+              updatedAt: new Date(),
+            },
+          });
+      }
+    },
+
+    async getTranslationCoverage(items, locales) {
+      const results: TranslationCoverage[] = [];
+
+      for (const batch of chunk(items, chunkSize)) {
+        const rows = await db
+          .select({
+            content_type: t.contentType,
+            content_id: t.contentId,
+            locale: t.locale,
+            source_hash: t.sourceHash,
+          })
+          .from(t)
+          .where(orm.and(orm.inArray(t.locale, locales), pairCondition(batch)));
+        results.push(...selected<TranslationCoverage>(rows));
+      }
+
+      return results;
+    },
+
+    async incrementBudgetCounter(key, amount, expiresAt) {
+      if (!budgetCounters) {
+        throw new Error('[Drizzle Adapter] Pass the budgetCounters table to use shared budgets');
+      }
+      const b = budgetCounters;
+
+      // An expired counter restarts from this increment with the new expiry
+      await db.delete(b).where(orm.and(orm.eq(b.key, key), orm.lte(b.expiresAt, new Date())));
+      const [counter] = await db
+        .insert(b)
+        .values({ key, value: amount, expiresAt })
+        .onConflictDoUpdate({ target: b.key, set: { value: orm.sql`${b.value} + ${amount}` } })
+        .returning({ value: b.value });
+      return Number(counter.value);
+    },
+
+    async deleteTranslations(filter) {
+      const deleted = await db
+        .delete(t)
+        .where(filterCondition(filter))
+        .returning({ contentId: t.contentId });
+      return deleted.length;
+    },
+
+    async listTranslations(filter, page) {
+      const rows = await db
+        .select({
+          content_type: t.contentType,
+          content_id: t.contentId,
+          locale: t.locale,
+          original_text: t.originalText,
+          translated_text: t.translatedText,
+          source_hash: t.sourceHash,
+        })
+        .from(t)
+        .where(filterCondition(filter))
+        .orderBy(orm.asc(t.contentType), orm.asc(t.contentId), orm.asc(t.locale))
+        .limit(page.limit)
+        .offset(page.offset ?? 0);
+      return selected<StoredTranslation>(rows);
+    },
+
+    async countTranslations(groupBy, filter = {}) {
+      const columns = { content_type: t.contentType, locale: t.locale };
+      const grouped = groupBy.map((column) => columns[column]);
+      const fields = Object.fromEntries(groupBy.map((column) => [column, columns[column]]));
+
+      const query = db
+        .select({ ...fields, count: orm.count() })
+        .from(t)
+        .where(filterCondition(filter));
+
+      const rows = selected<{ content_type?: string; locale?: string; count: number | string }>(
+        await (grouped.length > 0 ? query.groupBy(...grouped) : query)
+      );
+      return rows.map((row) => ({ ...row, count: Number(row.count) }));
+    },
+
+    async getAllTranslatableContent(contentSources) {
+      const results: Array<{ contentType: string; contentId: string; text: string }> = [];
+
+      for (const source of contentSources) {
+        const table = sources[source.table];
+        if (!table) {
+          throw new Error(`[Drizzle Adapter] Unknown table "${source.table}" - add it to \`sources\``);
+        }
+
+        const idColumn = columnOf(table, source.idColumn);
+        if (!idColumn) {
+          throw new Error(`[Drizzle Adapter] Unknown column "${source.idColumn}"`);
+        }
+
+        for (const item of source.items) {
+          const textColumn = columnOf(table, item.textColumn);
+          if (!textColumn) {
+            throw new Error(`[Drizzle Adapter] Unknown column "${item.textColumn}"`);
+          }
+
+          const condition = orm.and(
+            whereCondition(table, source.where),
+            whereCondition(table, item.where),
+            orm.isNotNull(textColumn),
+            orm.ne(textColumn, '')
+          );
+
+          // Page through the table ordered by id, so large tables are not loaded at once
+          for (let offset = 0; ; offset += pageSize) {
+            const rows = await db
+              .select({ id: idColumn, text: textColumn })
+              .from(table)
+              .where(condition)
+              .orderBy(orm.asc(idColumn))
+              .limit(pageSize)
+              .offset(offset);
+
+            for (const row of rows) {
+              results.push({ contentType: item.contentType, contentId: String(row.id), text: String(row.text) });
+            }
+
+            if (rows.length < pageSize) break;
+          }
+        }
+      }
+
+      return results;
+    },
+  };
+}
@@ -14,9 +14,15 @@
  *   baseUrl: 'https://api.studio.nebius.com/v1/'
  * });
  * ```
+ *
+ * Also implements translateBatchStream, which parses the numbered list as it
+ * streams in, so views show each translation as the model writes it.
  */
 
-import type { LLMProvider, TranslationItem } from '../../types';
+import type { LLMProvider, StreamedTranslation, TranslateBatchOptions, TranslationItem } from '../../types';
+import { createNumberedListStreamParser, parseTranslationStream, readEventStream } from '../../core/streaming';
+import { alignTranslations } from '../../core/response-validation';
+import { LLMRequestError } from '../../core/resilience';
 
 interface NebiusConfig {
   apiKey: string;
@@ -25,6 +31,18 @@ interface NebiusConfig {
   temperature?: number;
 }
 
+interface NebiusChatCompletionChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  } | null;
+}
+
 export function createNebiusProvider(config: NebiusConfig): LLMProvider {
   const {
     apiKey,
@@ -33,14 +51,13 @@ export function createNebiusProvider(config: NebiusConfig): LLMProvider {
     temperature = 0.3,
   } = config;
 
-  return {
-    async translateBatch(items: TranslationItem[], sourceLocale: string, targetLocale: string) {
-      // Build prompt with all items
-      const itemsList = items
-        .map((item, idx) => `${idx + 1}. [${item.contentType}] ${item.text}`)
-        .join('\n');
+  const buildPrompt = (items: TranslationItem[], sourceLocale: string, targetLocale: string) => {
+    // Build prompt with all items
+    const itemsList = items
+      .map((item, idx) => `${idx + 1}. [${item.contentType}] ${item.text}`)
+      .join('\n');
 
-      const prompt = `Translate the following content from ${sourceLocale} to ${targetLocale}.
+    return `Translate the following content from ${sourceLocale} to ${targetLocale}.
 
 Rules:
 - Return ONLY the translated text for each item
@@ -53,61 +70,102 @@ Content to translate:
 ${itemsList}
 
 Translations:`;
+  };
 
-      // Call Nebius API (OpenAI-compatible)
-      const response = await fetch(`${baseUrl}chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          temperature,
-          max_tokens: 4000,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Nebius API error: ${response.status} ${error}`);
-      }
+  // Call Nebius API (OpenAI-compatible)
+  const createCompletion = async (prompt: string, stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        temperature,
+        max_tokens: 4000,
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await LLMRequestError.fromResponse('Nebius', response);
+    }
+
+    return response;
+  };
+
+  return {
+    model,
+
+    async translateBatch(
+      items: TranslationItem[],
+      sourceLocale: string,
+      targetLocale: string,
+      options?: TranslateBatchOptions
+    ) {
+      if (items.length === 0) return [];
+
+      const response = await createCompletion(buildPrompt(items, sourceLocale, targetLocale), false, options?.signal);
 
       const data = await response.json();
       const result = data.choices[0]?.message?.content?.trim();
 
+      if (data.usage) {
+        options?.onUsage?.({
+          inputTokens: data.usage.prompt_tokens,
+          outputTokens: data.usage.completion_tokens,
+          model,
+        });
+      }
+
       if (!result) {
         throw new Error('Empty response from Nebius API');
       }
 
-      // Parse numbered list back into array
-      const lines = result.split('\n').filter((line: string) => line.trim());
-      const translations: string[] = [];
+      // Item numbers are ids: a skipped or extra item leaves a gap (or is
+      // dropped) instead of shifting the rest. Same parser as streaming, so
+      // multi-line items are handled identically.
+      const parser = createNumberedListStreamParser();
+      return alignTranslations([...parser.push(result), ...parser.end()], items.length);
+    },
 
-      for (const line of lines) {
-        // Match "1. Text here" or "1) Text here"
-        const match = line.match(/^\d+[\.\)]\s*(.+)$/);
-        if (match) {
-          translations.push(match[1].trim());
+    async *translateBatchStream(
+      items: TranslationItem[],
+      sourceLocale: string,
+      targetLocale: string,
+      options?: TranslateBatchOptions
+    ): AsyncGenerator<StreamedTranslation> {
+      if (items.length === 0) return;
+
+      const response = await createCompletion(buildPrompt(items, sourceLocale, targetLocale), true, options?.signal);
+
+      async function* contentDeltas() {
+        for await (const data of readEventStream(response)) {
+          if (data === '[DONE]') break;
+
+          const chunk: NebiusChatCompletionChunk = JSON.parse(data);
+          const content = chunk.choices[0]?.delta?.content;
+          if (content) yield content;
+
+          if (chunk.usage) {
+            options?.onUsage?.({
+              inputTokens: chunk.usage.prompt_tokens,
+              outputTokens: chunk.usage.completion_tokens,
+              model,
+            });
+          }
         }
       }
 
-      // Ensure we got all translations
-      if (translations.length !== items.length) {
-        console.warn(
-          `[Nebius Provider] Expected ${items.length} translations, got ${translations.length}. Using fallback.`
-        );
-        // Fallback: return original texts
-        return items.map((item) => item.text);
-      }
-
-      return translations;
+      yield* parseTranslationStream(contentDeltas(), createNumberedListStreamParser());
     },
   };
 }
@@ -12,9 +12,15 @@
  *   model: 'gpt-4.1', // or 'gpt-5', 'gpt-4.1-mini', 'o4-mini'
  * });
  * ```
+ *
+ * Also implements translateBatchStream, so views show each translation as
+ * the model writes it.
  */
 
-import type { LLMProvider, TranslationItem } from '../../types';
+import type { LLMProvider, StreamedTranslation, TranslateBatchOptions, TranslationItem } from '../../types';
+import { createJsonObjectStreamParser, parseTranslationStream, readEventStream } from '../../core/streaming';
+import { keyedBatch, parseKeyedTranslations } from '../../core/response-validation';
+import { LLMRequestError } from '../../core/resilience';
 
 interface OpenAIConfig {
   apiKey: string;
@@ -34,6 +40,22 @@ interface OpenAIChatCompletion {
       content: string;
     };
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+interface OpenAIChatCompletionChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  } | null;
 }
 
 export function createOpenAIProvider(config: OpenAIConfig): LLMProvider {
@@ -44,58 +66,108 @@ export function createOpenAIProvider(config: OpenAIConfig): LLMProvider {
     baseURL = 'https://api.openai.com/v1',
   } = config;
 
+  const buildMessages = (
+    items: TranslationItem[],
+    sourceLocale: string,
+    targetLocale: string
+  ): OpenAIMessage[] => [
+    {
+      role: 'system',
+      content: `You are a professional translator. Translate the following texts from ${sourceLocale} to ${targetLocale}. The input is a JSON object mapping ids to texts. Return ONLY a JSON object with the same ids mapping to the translated texts - one entry per input id, never merged or split. Do not include any explanations, markdown formatting, or code blocks.`,
+    },
+    {
+      role: 'user',
+      content: JSON.stringify(keyedBatch(items.map((item) => item.text))),
+    },
+  ];
+
+  const createCompletion = async (messages: OpenAIMessage[], stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(`${baseURL}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        response_format: { type: 'json_object' },
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await LLMRequestError.fromResponse('OpenAI', response);
+    }
+
+    return response;
+  };
+
   return {
+    model,
+
     async translateBatch(
       items: TranslationItem[],
       sourceLocale: string,
-      targetLocale: string
-    ): Promise<string[]> {
-      const messages: OpenAIMessage[] = [
-        {
-          role: 'system',
-          content: `You are a professional translator. Translate the following texts from ${sourceLocale} to ${targetLocale}. Return ONLY a JSON array of translated strings, in the same order as the input. Do not include any explanations, markdown formatting, or code blocks.`,
-        },
-        {
-          role: 'user',
-          content: JSON.stringify(items.map((item) => item.text)),
-        },
-      ];
-
-      const response = await fetch(`${baseURL}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages,
-          temperature,
-          response_format: { type: 'json_object' },
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} ${error}`);
-      }
+      targetLocale: string,
+      options?: TranslateBatchOptions
+    ): Promise<Array<string | undefined>> {
+      if (items.length === 0) return [];
+
+      const response = await createCompletion(buildMessages(items, sourceLocale, targetLocale), false, options?.signal);
 
       const data: OpenAIChatCompletion = await response.json();
       const content = data.choices[0]?.message?.content;
 
+      if (data.usage) {
+        options?.onUsage?.({
+          inputTokens: data.usage.prompt_tokens,
+          outputTokens: data.usage.completion_tokens,
+          model,
+        });
+      }
+
       if (!content) {
         throw new Error('No response from OpenAI');
       }
 
-      try {
-        const translations = JSON.parse(content);
-        if (!Array.isArray(translations)) {
-          throw new Error('Response is not an array');
+      // Answers are keyed by id, so a skipped item leaves a gap instead of
+      // shifting the rest (a bare or wrapped array is still read positionally)
+      return parseKeyedTranslations(content, items.length);
+    },
+
+    async *translateBatchStream(
+      items: TranslationItem[],
+      sourceLocale: string,
+      targetLocale: string,
+      options?: TranslateBatchOptions
+    ): AsyncGenerator<StreamedTranslation> {
+      if (items.length === 0) return;
+
+      const response = await createCompletion(buildMessages(items, sourceLocale, targetLocale), true, options?.signal);
+
+      async function* contentDeltas() {
+        for await (const data of readEventStream(response)) {
+          if (data === '[DONE]') break;
+
+          const chunk: OpenAIChatCompletionChunk = JSON.parse(data);
+          const content = chunk.choices[0]?.delta?.content;
+          if (content) yield content;
+
+          // Sent in the last chunk (stream_options.include_usage)
+          if (chunk.usage) {
+            options?.onUsage?.({
+              inputTokens: chunk.usage.prompt_tokens,
+              outputTokens: chunk.usage.completion_tokens,
+              model,
+            });
+          }
         }
-        return translations;
-      } catch (err) {
-        throw new Error(`Failed to parse OpenAI response: ${err}`);
       }
+
+      yield* parseTranslationStream(contentDeltas(), createJsonObjectStreamParser());
     },
   };
 }
@@ -0,0 +1,301 @@
+/**
+ * Example PostgreSQL Database Adapter
+ *
+ * Reference implementation for plain Postgres through any client with a
+ * node-postgres style `query(text, values)` method (`pg.Pool`, `pg.Client`,
+ * or a wrapper). Implements every DatabaseAdapter method, including
+ * getAllTranslatableContent for CLI mode.
+ *
+ * Create the tables with `postgres-migration.sql` (next to this file in the
+ * repository) first.
+ *
+ * @example
+ * ```ts
+ * import { Pool } from 'pg';
+ * import { createPostgresAdapter } from 'audarma/adapters/postgres';
+ *
+ * const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+ * const adapter = createPostgresAdapter(pool);
+ * ```
+ *
+ * All values are sent as query parameters. Table and column names from
+ * `contentSources` are quoted as identifiers, so they are never interpreted
+ * as SQL.
+ */
+
+import type {
+  CachedTranslation,
+  DatabaseAdapter,
+  StoredTranslation,
+  TranslationCount,
+  TranslationCoverage,
+  TranslationFilter,
+  TranslationItem,
+} from '../../types';
+
+/**
+ * Subset of the node-postgres client interface used by the adapter
+ */
+export interface PostgresClient {
+  query<R = Record<string, unknown>>(text: string, values?: unknown[]): Promise<{ rows: R[]; rowCount: number | null }>;
+}
+
+interface PostgresAdapterOptions {
+  /**
+   * Translations table (default: 'content_translations'); may be schema-qualified
+   */
+  table?: string;
+
+  /**
+   * Budget counters table used by incrementBudgetCounter (default: 'audarma_budget_counters')
+   */
+  budgetTable?: string;
+
+  /**
+   * Rows per lookup and upsert statement (default: 500)
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Quote a (possibly schema-qualified) identifier
+ */
+function quoteIdentifier(name: string): string {
+  if (!name) {
+    throw new Error('[Postgres Adapter] Empty identifier');
+  }
+  return name
+    .split('.')
+    .map((part) => `"${part.replace(/"/g, '""')}"`)
+    .join('.');
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Collects query parameters, returning their `$n` placeholders
+ */
+function createParams() {
+  const values: unknown[] = [];
+  return {
+    values,
+    add(value: unknown): string {
+      values.push(value);
+      return `$${values.length}`;
+    },
+  };
+}
+
+/**
+ * Translate a `where` object into parameterized conditions
+ *
+ * - `null` matches NULL
+ * - arrays match any of their values (an empty array matches nothing)
+ * - strings, numbers, booleans, bigints and Dates match equal values
+ */
+function whereConditions(
+  where: Record<string, unknown> | undefined,
+  params: ReturnType<typeof createParams>
+): string[] {
+  return Object.entries(where ?? {}).map(([column, value]) => {
+    const col = quoteIdentifier(column);
+
+    if (value === null) {
+      return `${col} IS NULL`;
+    }
+    if (Array.isArray(value)) {
+      return value.length === 0 ? 'FALSE' : `${col} = ANY(${params.add(value)})`;
+    }
+    if (['string', 'number', 'boolean', 'bigint'].includes(typeof value) || value instanceof Date) {
+      return `${col} = ${params.add(value)}`;
+    }
+
+    throw new Error(`[Postgres Adapter] Unsupported where value for "${column}": ${JSON.stringify(value)}`);
+  });
+}
+
+/**
+ * Translate a TranslationFilter into parameterized conditions
+ */
+function filterConditions(filter: TranslationFilter, params: ReturnType<typeof createParams>): string[] {
+  const conditions: string[] = [];
+  if (filter.contentType !== undefined) conditions.push(`content_type = ${params.add(filter.contentType)}`);
+  if (filter.contentIds) conditions.push(`content_id = ANY(${params.add(filter.contentIds)}::text[])`);
+  if (filter.locales) conditions.push(`locale = ANY(${params.add(filter.locales)}::text[])`);
+  return conditions;
+}
+
+function whereClause(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+export function createPostgresAdapter(
+  client: PostgresClient,
+  options: PostgresAdapterOptions = {}
+): DatabaseAdapter {
+  const table = quoteIdentifier(options.table ?? 'content_translations');
+  const budgetTable = quoteIdentifier(options.budgetTable ?? 'audarma_budget_counters');
+  const chunkSize = options.chunkSize ?? 500;
+
+  return {
+    async getCachedTranslations(items: TranslationItem[], targetLocale: string) {
+      const results: CachedTranslation[] = [];
+
+      // Composite-key lookup: join against the (content_type, content_id) pairs
+      for (const batch of chunk(items, chunkSize)) {
+        const { rows } = await client.query<CachedTranslation>(
+          `SELECT t.content_type, t.content_id, t.translated_text, t.source_hash
+           FROM ${table} t
+           JOIN unnest($2::text[], $3::text[]) AS k(content_type, content_id)
+             ON t.content_type = k.content_type AND t.content_id = k.content_id
+           WHERE t.locale = $1`,
+          [targetLocale, batch.map((item) => item.contentType), batch.map((item) => item.contentId)]
+        );
+        results.push(...rows);
+      }
+
+      return results;
+    },
+
+    async saveTranslations(translations) {
+      // Deduplicate by (content_type, content_id, locale) - Postgres rejects an
+      // upsert that touches the same row twice
+      const uniqueTranslations = Array.from(
+        new Map(
+          translations.map((t) => [`${t.content_type}:${t.content_id}:${t.locale}`, t])
+        ).values()
+      );
+
+      for (const batch of chunk(uniqueTranslations, chunkSize)) {
+        await client.query(
+          `INSERT INTO ${table} (content_type, content_id, locale, original_text, translated_text, source_hash)
+           SELECT * FROM unnest($1::text[], $2::text[], $3::text[], $4::text[], $5::text[], $6::text[])
+           ON CONFLICT (content_type, content_id, locale) DO UPDATE SET
+             original_text = EXCLUDED.original_text,
+             translated_text = EXCLUDED.translated_text,
+             source_hash = EXCLUDED.source_hash,
+             updated_at = NOW()`,
+          [
+            batch.map((t) => t.content_type),
+            batch.map((t) => t.content_id),
+            batch.map((t) => t.locale),
+            batch.map((t) => t.original_text),
+            batch.map((t) => t.translated_text),
+            batch.map((t) => t.source_hash),
+          ]
+        );
+      }
+    },
+
+    async getTranslationCoverage(items, locales) {
+      const results: TranslationCoverage[] = [];
+
+      for (const batch of chunk(items, chunkSize)) {
+        const { rows } = await client.query<TranslationCoverage>(
+          `SELECT t.content_type, t.content_id, t.locale, t.source_hash
+           FROM ${table} t
+           JOIN unnest($2::text[], $3::text[]) AS k(content_type, content_id)
+             ON t.content_type = k.content_type AND t.content_id = k.content_id
+           WHERE t.locale = ANY($1::text[])`,
+          [locales, batch.map((item) => item.contentType), batch.map((item) => item.contentId)]
+        );
+        results.push(...rows);
+      }
+
+      return results;
+    },
+
+    async incrementBudgetCounter(key, amount, expiresAt) {
+      // An expired counter restarts from this increment with the new expiry
+      const { rows } = await client.query<{ value: string | number }>(
+        `INSERT INTO ${budgetTable} AS c (key, value, expires_at)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (key) DO UPDATE SET
+           value = CASE WHEN c.expires_at <= NOW() THEN EXCLUDED.value ELSE c.value + EXCLUDED.value END,
+           expires_at = CASE WHEN c.expires_at <= NOW() THEN EXCLUDED.expires_at ELSE c.expires_at END
+         RETURNING value`,
+        [key, amount, expiresAt]
+      );
+      return Number(rows[0].value);
+    },
+
+    async deleteTranslations(filter) {
+      const params = createParams();
+      const { rowCount } = await client.query(
+        `DELETE FROM ${table} ${whereClause(filterConditions(filter, params))}`,
+        params.values
+      );
+      return rowCount ?? 0;
+    },
+
+    async listTranslations(filter, page) {
+      const params = createParams();
+      const conditions = filterConditions(filter, params);
+      const limit = params.add(page.limit);
+      const offset = params.add(page.offset ?? 0);
+
+      const { rows } = await client.query<StoredTranslation>(
+        `SELECT content_type, content_id, locale, original_text, translated_text, source_hash
+         FROM ${table}
+         ${whereClause(conditions)}
+         ORDER BY content_type, content_id, locale
+         LIMIT ${limit} OFFSET ${offset}`,
+        params.values
+      );
+      return rows;
+    },
+
+    async countTranslations(groupBy, filter = {}) {
+      const params = createParams();
+      // Only the two known column names are interpolated
+      const columns = groupBy.filter((column) => column === 'content_type' || column === 'locale');
+      const group = columns.length > 0 ? `GROUP BY ${columns.join(', ')}` : '';
+
+      const { rows } = await client.query<Omit<TranslationCount, 'count'> & { count: string }>(
+        `SELECT ${[...columns, 'COUNT(*) AS count'].join(', ')}
+         FROM ${table}
+         ${whereClause(filterConditions(filter, params))}
+         ${group}`,
+        params.values
+      );
+      // COUNT(*) is a bigint, which node-postgres returns as a string
+      return rows.map((row) => ({ ...row, count: Number(row.count) }));
+    },
+
+    async getAllTranslatableContent(contentSources) {
+      const results: Array<{ contentType: string; contentId: string; text: string }> = [];
+
+      for (const source of contentSources) {
+        for (const item of source.items) {
+          const params = createParams();
+          const textColumn = quoteIdentifier(item.textColumn);
+          const conditions = [
+            ...whereConditions(source.where, params),
+            ...whereConditions(item.where, params),
+            `${textColumn} IS NOT NULL`,
+            `${textColumn}::text <> ''`,
+          ];
+
+          const { rows } = await client.query<{ content_id: string; text: string }>(
+            `SELECT ${quoteIdentifier(source.idColumn)}::text AS content_id, ${textColumn}::text AS text
+             FROM ${quoteIdentifier(source.table)}
+             ${whereClause(conditions)}`,
+            params.values
+          );
+
+          for (const row of rows) {
+            results.push({ contentType: item.contentType, contentId: row.content_id, text: row.text });
+          }
+        }
+      }
+
+      return results;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+-- Audarma schema for PostgreSQL (used by postgres-adapter.ts)
+--
+-- Idempotent: safe to run on every deploy, or copy into your migration tool.
+
+CREATE TABLE IF NOT EXISTS content_translations (
+  content_type TEXT NOT NULL,      -- 'product_title', 'message', etc.
+  content_id TEXT NOT NULL,        -- Product ID, message ID, etc.
+  locale TEXT NOT NULL,            -- 'es', 'fr', 'ru', etc.
+  original_text TEXT NOT NULL,
+  translated_text TEXT NOT NULL,
+  source_hash TEXT NOT NULL,       -- hashSourceText() of original text
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (content_type, content_id, locale)
+);
+
+-- The primary key serves (content_type, content_id, locale) lookups;
+-- this index serves per-locale counts and deletes
+CREATE INDEX IF NOT EXISTS idx_content_translations_locale ON content_translations(locale);
+
+-- Optional: shared budget counters for createDatabaseBudgetCounter()
+CREATE TABLE IF NOT EXISTS audarma_budget_counters (
+  key TEXT PRIMARY KEY,
+  value DOUBLE PRECISION NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
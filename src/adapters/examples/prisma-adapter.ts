@@ -0,0 +1,317 @@
+/**
+ * Example Prisma Database Adapter
+ *
+ * Reference implementation for Prisma Client. Add the models from
+ * `prisma-schema.prisma` (next to this file in the repository) to your
+ * schema first.
+ * Implements every DatabaseAdapter method, including
+ * getAllTranslatableContent for CLI mode.
+ *
+ * @example
+ * ```ts
+ * import { PrismaClient } from '@prisma/client';
+ * import { createPrismaAdapter } from 'audarma/adapters/prisma';
+ *
+ * const prisma = new PrismaClient();
+ * const adapter = createPrismaAdapter(prisma);
+ * ```
+ *
+ * For getAllTranslatableContent, content sources use Prisma names:
+ * `table` is the model's client property (e.g. 'product' for `model Product`)
+ * and `idColumn`, `textColumn` and `where` keys are model field names.
+ */
+
+import type {
+  CachedTranslation,
+  DatabaseAdapter,
+  StoredTranslation,
+  TranslationCoverage,
+  TranslationFilter,
+  TranslationItem,
+} from '../../types';
+
+interface ContentTranslationRecord {
+  contentType: string;
+  contentId: string;
+  locale: string;
+  originalText: string;
+  translatedText: string;
+  sourceHash: string;
+}
+
+/**
+ * Subset of a Prisma model delegate used by the adapter
+ */
+interface PrismaDelegate<T = Record<string, unknown>> {
+  findMany(args: Record<string, unknown>): Promise<T[]>;
+  upsert(args: Record<string, unknown>): Promise<T>;
+  deleteMany(args: Record<string, unknown>): Promise<{ count: number }>;
+  count(args: Record<string, unknown>): Promise<number>;
+  groupBy(args: Record<string, unknown>): Promise<PrismaGroup[]>;
+}
+
+/**
+ * A `groupBy` result row with `_count: { _all: true }`
+ */
+interface PrismaGroup {
+  contentType?: string;
+  locale?: string;
+  _count: { _all: number };
+}
+
+/**
+ * Subset of PrismaClient used by the adapter (structural, so `@prisma/client`
+ * is not a dependency). The model delegates are only checked for presence:
+ * generated argument types are per model, so no plain type accepts them
+ */
+export interface PrismaClientLike {
+  contentTranslation: object;
+  audarmaBudgetCounter: object;
+  $transaction<P extends Promise<unknown>[]>(operations: [...P]): Promise<{ [K in keyof P]: Awaited<P[K]> }>;
+}
+
+/**
+ * PrismaClientLike with the delegate calls the adapter makes
+ */
+interface PrismaModels extends PrismaClientLike {
+  contentTranslation: PrismaDelegate<ContentTranslationRecord>;
+  audarmaBudgetCounter: PrismaDelegate<{ key: string; value: number; expiresAt: Date }>;
+}
+
+interface PrismaAdapterOptions {
+  /**
+   * Rows per lookup query and upsert transaction (default: 400). A lookup
+   * binds two parameters per row, and Prisma caps SQLite queries at 999
+   */
+  chunkSize?: number;
+
+  /**
+   * Rows per page when reading source models (default: 1000)
+   */
+  pageSize?: number;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Translate a `where` object into a Prisma where input
+ *
+ * - `null` matches null
+ * - arrays match any of their values
+ * - other values match equal values
+ */
+function toPrismaWhere(where: Record<string, unknown> | undefined): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(where ?? {}).map(([field, value]) => [
+      field,
+      Array.isArray(value) ? { in: value } : value,
+    ])
+  );
+}
+
+/**
+ * Translate a TranslationFilter into a Prisma where input
+ */
+function filterWhere(filter: TranslationFilter): Record<string, unknown> {
+  return {
+    ...(filter.contentType !== undefined && { contentType: filter.contentType }),
+    ...(filter.contentIds && { contentId: { in: filter.contentIds } }),
+    ...(filter.locales && { locale: { in: filter.locales } }),
+  };
+}
+
+function toStoredTranslation(record: ContentTranslationRecord): StoredTranslation {
+  return {
+    content_type: record.contentType,
+    content_id: record.contentId,
+    locale: record.locale,
+    original_text: record.originalText,
+    translated_text: record.translatedText,
+    source_hash: record.sourceHash,
+  };
+}
+
+const pairWhere = (items: TranslationItem[]) =>
+  items.map((item) => ({ contentType: item.contentType, contentId: item.contentId }));
+
+export function createPrismaAdapter(
+  client: PrismaClientLike,
+  options: PrismaAdapterOptions = {}
+): DatabaseAdapter {
+  const { chunkSize = 400, pageSize = 1000 } = options;
+  const prisma = client as PrismaModels;
+  const translations = prisma.contentTranslation;
+
+  return {
+    async getCachedTranslations(items: TranslationItem[], targetLocale: string) {
+      const results: CachedTranslation[] = [];
+
+      // Composite-key lookup: OR of (contentType, contentId) pairs within the locale
+      for (const batch of chunk(items, chunkSize)) {
+        const records = await translations.findMany({
+          where: { locale: targetLocale, OR: pairWhere(batch) },
+          select: { contentType: true, contentId: true, translatedText: true, sourceHash: true },
+        });
+        results.push(...records.map((record) => ({
+          content_type: record.contentType,
+          content_id: record.contentId,
+          translated_text: record.translatedText,
+          source_hash: record.sourceHash,
+        })));
+      }
+
+      return results;
+    },
+
+    async saveTranslations(rows) {
+      // Deduplicate by (content_type, content_id, locale) to avoid conflicts
+      const uniqueRows = Array.from(
+        new Map(rows.map((t) => [`${t.content_type}:${t.content_id}:${t.locale}`, t])).values()
+      );
+
+      for (const batch of chunk(uniqueRows, chunkSize)) {
+        await prisma.$transaction(
+          batch.map((t) => {
+            const values = {
+              originalText: t.original_text,
+              translatedText: t.translated_text,
+              sourceHash: t.source_hash,
+            };
+            return translations.upsert({
+              where: {
+                contentType_contentId_locale: {
+                  contentType: t.content_type,
+                  contentId: t.content_id,
+                  locale: t.locale,
+                },
+              },
+              create: { contentType: t.content_type, contentId: t.content_id, locale: t.locale, ...values },
+              update: values,
+            });
+          })
+        );
+      }
+    },
+
+    async getTranslationCoverage(items, locales) {
+      const results: TranslationCoverage[] = [];
+
+      for (const batch of chunk(items, chunkSize)) {
+        const records = await translations.findMany({
+          where: { locale: { in: locales }, OR: pairWhere(batch) },
+          select: { contentType: true, contentId: true, locale: true, sourceHash: true },
+        });
+        results.push(...records.map((record) => ({
+          content_type: record.contentType,
+          content_id: record.contentId,
+          locale: record.locale,
+          source_hash: record.sourceHash,
+        })));
+      }
+
+      return results;
+    },
+
+    async incrementBudgetCounter(key, amount, expiresAt) {
+      // An expired counter restarts from this increment with the new expiry.
+      // One transaction, so a concurrent increment cannot land between the two
+      const [, counter] = await prisma.$transaction([
+        prisma.audarmaBudgetCounter.deleteMany({ where: { key, expiresAt: { lte: new Date() } } }),
+        prisma.audarmaBudgetCounter.upsert({
+          where: { key },
+          create: { key, value: amount, expiresAt },
+          update: { value: { increment: amount } },
+        }),
+      ]);
+      return counter.value;
+    },
+
+    async deleteTranslations(filter) {
+      const { count } = await translations.deleteMany({ where: filterWhere(filter) });
+      return count;
+    },
+
+    async listTranslations(filter, page) {
+      const records = await translations.findMany({
+        where: filterWhere(filter),
+        orderBy: [{ contentType: 'asc' }, { contentId: 'asc' }, { locale: 'asc' }],
+        skip: page.offset ?? 0,
+        take: page.limit,
+      });
+      return records.map(toStoredTranslation);
+    },
+
+    async countTranslations(groupBy, filter = {}) {
+      const where = filterWhere(filter);
+
+      if (groupBy.length === 0) {
+        return [{ count: await translations.count({ where }) }];
+      }
+
+      const fields = { content_type: 'contentType', locale: 'locale' } as const;
+      const groups = await translations.groupBy({
+        by: groupBy.map((column) => fields[column]),
+        where,
+        _count: { _all: true },
+      });
+
+      return groups.map((group) => ({
+        ...(groupBy.includes('content_type') && { content_type: group.contentType }),
+        ...(groupBy.includes('locale') && { locale: group.locale }),
+        count: group._count._all,
+      }));
+    },
+
+    async getAllTranslatableContent(contentSources) {
+      const results: Array<{ contentType: string; contentId: string; text: string }> = [];
+      const models = prisma as unknown as Record<string, PrismaDelegate | undefined>;
+
+      for (const source of contentSources) {
+        const model = models[source.table];
+        if (!model?.findMany) {
+          throw new Error(`[Prisma Adapter] Unknown model "${source.table}" - use the client property name, e.g. "product"`);
+        }
+
+        for (const item of source.items) {
+          const where = {
+            AND: [
+              toPrismaWhere(source.where),
+              toPrismaWhere(item.where),
+              // `not` never matches NULL, so this also skips missing text
+              { [item.textColumn]: { not: '' } },
+            ],
+          };
+
+          // Page through the model ordered by id, so large tables are not loaded at once
+          for (let skip = 0; ; skip += pageSize) {
+            const records = await model.findMany({
+              where,
+              select: { [source.idColumn]: true, [item.textColumn]: true },
+              orderBy: { [source.idColumn]: 'asc' },
+              skip,
+              take: pageSize,
+            });
+
+            for (const record of records) {
+              results.push({
+                contentType: item.contentType,
+                contentId: String(record[source.idColumn]),
+                text: String(record[item.textColumn]),
+              });
+            }
+
+            if (records.length < pageSize) break;
+          }
+        }
+      }
+
+      return results;
+    },
+  };
+}
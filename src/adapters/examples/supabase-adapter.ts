@@ -24,11 +24,14 @@ interface TranslationRow {
   source_hash: string;
 }
 
+interface SupabaseQuery extends PromiseLike<{ data: TranslationRow[] | null; error: Error | null }> {
+  eq(column: string, value: unknown): SupabaseQuery;
+  in(column: string, values: unknown[]): SupabaseQuery;
+}
+
 interface SupabaseClient {
   from(table: string): {
-    select(columns: string): {
-      in(column: string, values: unknown[]): Promise<{ data: TranslationRow[] | null; error: Error | null }>;
-    };
+    select(columns: string): SupabaseQuery;
     upsert(data: unknown[], options?: { onConflict?: string }): Promise<{ data: unknown; error: Error | null }>;
   };
 }
@@ -36,29 +39,25 @@ interface SupabaseClient {
 export function createSupabaseAdapter(supabase: SupabaseClient): DatabaseAdapter {
   return {
     async getCachedTranslations(items: TranslationItem[], targetLocale: string) {
-      // Build list of (content_type, content_id) pairs to query
-      const pairs = items.map((item) => `(${item.contentType},${item.contentId})`);
-
-      if (pairs.length === 0) {
+      if (items.length === 0) {
         return [];
       }
 
-      // Query Supabase for cached translations
+      // PostgREST has no composite-key IN - filter by locale and content_id
+      // in the query, then match (content_type, content_id) pairs below
       const { data, error } = await supabase
         .from('content_translations')
-        .select('content_type, content_id, translated_text, source_hash')
-        .in(
-          '(content_type,content_id)',
-          items.map((item) => [item.contentType, item.contentId])
-        );
+        .select('content_type, content_id, locale, translated_text, source_hash')
+        .eq('locale', targetLocale)
+        .in('content_id', [...new Set(items.map((item) => item.contentId))]);
 
       if (error) {
         console.error('[Supabase Adapter] Error fetching translations:', error);
         return [];
       }
 
-      // Filter by locale (Supabase doesn't support composite key queries easily)
-      return (data || []).filter((row) => row.locale === targetLocale);
+      const pairs = new Set(items.map((item) => `${item.contentType}:${item.contentId}`));
+      return (data || []).filter((row) => pairs.has(`${row.content_type}:${row.content_id}`));
     },
 
     async saveTranslations(translations) {
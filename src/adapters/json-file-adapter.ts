@@ -0,0 +1,301 @@
+/**
+ * JSON File Database Adapter
+ *
+ * Zero-dependency DatabaseAdapter for local development and tests. Keeps
+ * `content_translations` rows (same columns as the README schema) in memory
+ * and, when given a `filePath`, persists them to a JSON file after every
+ * write. Source content for getAllTranslatableContent comes from `tables`,
+ * either in the file or passed as an option.
+ *
+ * Not meant for production: the whole file is rewritten on every save, and
+ * only one process should use a file at a time.
+ *
+ * @example
+ * ```ts
+ * import { createJsonFileAdapter } from 'audarma/server';
+ *
+ * // Persisted across runs (CLI, local dev server)
+ * const database = createJsonFileAdapter({ filePath: '.audarma/translations.json' });
+ *
+ * // In-memory, with source tables for CLI discovery (tests)
+ * const testDatabase = createJsonFileAdapter({
+ *   tables: { products: [{ id: 1, title: 'Red shoes', status: 'published' }] },
+ * });
+ * ```
+ */
+
+import type {
+  DatabaseAdapter,
+  StoredTranslation,
+  TranslationCount,
+  TranslationFilter,
+} from '../types';
+
+/**
+ * Source table rows, by table name
+ */
+export type JsonTables = Record<string, Array<Record<string, unknown>>>;
+
+/**
+ * Translation row as written to the file
+ */
+export interface JsonTranslationRow extends StoredTranslation {
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Shape of the JSON file
+ */
+export interface JsonFileData {
+  content_translations: JsonTranslationRow[];
+  budget_counters?: Record<string, { value: number; expires_at: number }>;
+  tables?: JsonTables;
+}
+
+export interface JsonFileAdapterOptions {
+  /**
+   * File to persist to (default: none - data lives in memory only).
+   * Created on first write if missing.
+   */
+  filePath?: string;
+
+  /**
+   * Source tables for getAllTranslatableContent, taking precedence over
+   * tables stored in the file
+   */
+  tables?: JsonTables;
+}
+
+function rowKey(contentType: string, contentId: string, locale: string): string {
+  return `${contentType}\u0000${contentId}\u0000${locale}`;
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Match a source row against a `where` object: `null` matches null or a
+ * missing column, arrays match any of their values, other values match equal values
+ */
+function matchesWhere(row: Record<string, unknown>, where: Record<string, unknown> | undefined): boolean {
+  return Object.entries(where ?? {}).every(([column, expected]) => {
+    const actual = comparable(row[column]);
+    if (expected === null) return actual === null || actual === undefined;
+    if (Array.isArray(expected)) return expected.map(comparable).includes(actual);
+    return actual === comparable(expected);
+  });
+}
+
+function matchesFilter(row: StoredTranslation, filter: TranslationFilter): boolean {
+  return (
+    (filter.contentType === undefined || row.content_type === filter.contentType) &&
+    (!filter.contentIds || filter.contentIds.includes(row.content_id)) &&
+    (!filter.locales || filter.locales.includes(row.locale))
+  );
+}
+
+// Code unit order, like SQL ORDER BY without a collation
+const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+function compareRows(a: StoredTranslation, b: StoredTranslation): number {
+  return compare(a.content_type, b.content_type) || compare(a.content_id, b.content_id) || compare(a.locale, b.locale);
+}
+
+export function createJsonFileAdapter(options: JsonFileAdapterOptions = {}): DatabaseAdapter {
+  const { filePath } = options;
+
+  let loaded: Promise<JsonFileData> | null = null;
+  // Rows by (content_type, content_id, locale), kept in sync with data.content_translations
+  const rows = new Map<string, JsonTranslationRow>();
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  function load(): Promise<JsonFileData> {
+    if (!loaded) {
+      loaded = (async () => {
+        let data: JsonFileData = { content_translations: [] };
+
+        if (filePath) {
+          // Imported lazily, so bundling this module for the browser is harmless
+          const fs = await import('fs/promises');
+          const raw = await fs.readFile(filePath, 'utf8').catch((error: NodeJS.ErrnoException) => {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+          });
+          if (raw) {
+            data = JSON.parse(raw);
+            data.content_translations ??= [];
+          }
+        }
+
+        data.content_translations.forEach((row) => {
+          rows.set(rowKey(row.content_type, row.content_id, row.locale), row);
+        });
+        return data;
+      })();
+    }
+    return loaded;
+  }
+
+  /**
+   * Write the current state, one write at a time (temp file + rename, so a
+   * crash never leaves a truncated file)
+   */
+  function persist(data: JsonFileData): Promise<void> {
+    if (!filePath) return Promise.resolve();
+
+    data.content_translations = Array.from(rows.values());
+    const contents = JSON.stringify(data, null, 2);
+
+    writeQueue = writeQueue.catch(() => undefined).then(async () => {
+      const fs = await import('fs/promises');
+      const path = await import('path');
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(`${filePath}.tmp`, contents);
+      await fs.rename(`${filePath}.tmp`, filePath);
+    });
+    return writeQueue;
+  }
+
+  function select(filter: TranslationFilter): JsonTranslationRow[] {
+    return Array.from(rows.values()).filter((row) => matchesFilter(row, filter));
+  }
+
+  return {
+    async getCachedTranslations(items, targetLocale) {
+      await load();
+      return items.flatMap((item) => {
+        const row = rows.get(rowKey(item.contentType, item.contentId, targetLocale));
+        return row
+          ? [{
+              content_type: row.content_type,
+              content_id: row.content_id,
+              translated_text: row.translated_text,
+              source_hash: row.source_hash,
+            }]
+          : [];
+      });
+    },
+
+    async saveTranslations(translations) {
+      const data = await load();
+      const now = new Date().toISOString();
+
+      for (const t of translations) {
+        const key = rowKey(t.content_type, t.content_id, t.locale);
+        const existing = rows.get(key);
+        rows.set(key, {
+          content_type: t.content_type,
+          content_id: t.content_id,
+          locale: t.locale,
+          original_text: t.original_text,
+          translated_text: t.translated_text,
+          source_hash: t.source_hash,
+          created_at: existing?.created_at ?? now,
+          updated_at: now,
+        });
+      }
+
+      await persist(data);
+    },
+
+    async getTranslationCoverage(items, locales) {
+      await load();
+      return items.flatMap((item) =>
+        locales.flatMap((locale) => {
+          const row = rows.get(rowKey(item.contentType, item.contentId, locale));
+          return row
+            ? [{ content_type: row.content_type, content_id: row.content_id, locale, source_hash: row.source_hash }]
+            : [];
+        })
+      );
+    },
+
+    async incrementBudgetCounter(key, amount, expiresAt) {
+      const data = await load();
+      const counters = (data.budget_counters ??= {});
+      const counter = counters[key];
+
+      // An expired counter restarts from this increment with the new expiry
+      if (!counter || counter.expires_at <= Date.now()) {
+        counters[key] = { value: amount, expires_at: expiresAt.getTime() };
+      } else {
+        counter.value += amount;
+      }
+
+      await persist(data);
+      return counters[key].value;
+    },
+
+    async deleteTranslations(filter) {
+      const data = await load();
+      const matches = select(filter);
+      matches.forEach((row) => rows.delete(rowKey(row.content_type, row.content_id, row.locale)));
+
+      if (matches.length > 0) {
+        await persist(data);
+      }
+      return matches.length;
+    },
+
+    async listTranslations(filter, page) {
+      await load();
+      const offset = page.offset ?? 0;
+      return select(filter)
+        .sort(compareRows)
+        .slice(offset, offset + page.limit)
+        .map(({ created_at: _createdAt, updated_at: _updatedAt, ...row }) => row);
+    },
+
+    async countTranslations(groupBy, filter = {}) {
+      await load();
+      const counts = new Map<string, TranslationCount>();
+
+      for (const row of select(filter)) {
+        const group: TranslationCount = { count: 0 };
+        if (groupBy.includes('content_type')) group.content_type = row.content_type;
+        if (groupBy.includes('locale')) group.locale = row.locale;
+
+        const key = `${group.content_type ?? ''}\u0000${group.locale ?? ''}`;
+        const existing = counts.get(key) ?? group;
+        existing.count++;
+        counts.set(key, existing);
+      }
+
+      // Like SQL COUNT(*) without GROUP BY, an empty total is one row
+      if (groupBy.length === 0 && counts.size === 0) return [{ count: 0 }];
+      return Array.from(counts.values());
+    },
+
+    async getAllTranslatableContent(contentSources) {
+      const data = await load();
+      const tables = { ...data.tables, ...options.tables };
+      const results: Array<{ contentType: string; contentId: string; text: string }> = [];
+
+      for (const source of contentSources) {
+        const tableRows = tables[source.table];
+        if (!tableRows) {
+          throw new Error(`[JSON File Adapter] Unknown table "${source.table}" - add it to \`tables\``);
+        }
+
+        for (const row of tableRows) {
+          if (!matchesWhere(row, source.where)) continue;
+
+          for (const item of source.items) {
+            const text = row[item.textColumn];
+            if (text === null || text === undefined || text === '' || !matchesWhere(row, item.where)) continue;
+
+            results.push({
+              contentType: item.contentType,
+              contentId: String(row[source.idColumn]),
+              text: String(text),
+            });
+          }
+        }
+      }
+
+      return results;
+    },
+  };
+}
@@ -0,0 +1,310 @@
+/**
+ * SQLite Database Adapter
+ *
+ * Local DatabaseAdapter for development, tests and offline use. Works with any
+ * synchronous SQLite driver exposing `exec()` and `prepare()` - better-sqlite3
+ * or Node's built-in `node:sqlite` (`DatabaseSync`) - so Audarma itself adds
+ * no native dependency.
+ *
+ * Creates the `content_translations` table from the README schema on first
+ * use (disable with `migrate: false`). Implements every DatabaseAdapter
+ * method; getAllTranslatableContent reads the tables of the same database.
+ *
+ * @example
+ * ```ts
+ * import Database from 'better-sqlite3';
+ * import { createSQLiteAdapter } from 'audarma/server';
+ *
+ * const database = createSQLiteAdapter(new Database('audarma.db'));
+ * // or, for tests: createSQLiteAdapter(new Database(':memory:'))
+ * ```
+ */
+
+import type {
+  CachedTranslation,
+  DatabaseAdapter,
+  StoredTranslation,
+  TranslationCount,
+  TranslationCoverage,
+  TranslationFilter,
+} from '../types';
+
+/**
+ * Subset of the better-sqlite3 / node:sqlite interface used by the adapter
+ */
+export interface SQLiteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    all(...params: unknown[]): unknown[];
+    get(...params: unknown[]): unknown;
+    run(...params: unknown[]): { changes: number | bigint };
+  };
+}
+
+export interface SQLiteAdapterOptions {
+  /**
+   * Translations table (default: 'content_translations')
+   */
+  table?: string;
+
+  /**
+   * Budget counters table used by incrementBudgetCounter (default: 'audarma_budget_counters')
+   */
+  budgetTable?: string;
+
+  /**
+   * Create missing tables on first use (default: true)
+   */
+  migrate?: boolean;
+}
+
+function quoteIdentifier(name: string): string {
+  if (!name) {
+    throw new Error('[SQLite Adapter] Empty identifier');
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * SQLite cannot bind booleans or Dates - store them the way SQLite does
+ */
+function toSQLiteValue(value: unknown): unknown {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+/**
+ * Translate a `where` object into conditions with `?` parameters
+ *
+ * - `null` matches NULL
+ * - arrays match any of their values (an empty array matches nothing)
+ * - strings, numbers, booleans, bigints and Dates match equal values
+ */
+function whereConditions(where: Record<string, unknown> | undefined, params: unknown[]): string[] {
+  return Object.entries(where ?? {}).map(([column, value]) => {
+    const col = quoteIdentifier(column);
+
+    if (value === null) {
+      return `${col} IS NULL`;
+    }
+    if (Array.isArray(value)) {
+      // One parameter per value: bigints cannot go through JSON
+      if (value.length === 0) return '0';
+      params.push(...value.map(toSQLiteValue));
+      return `${col} IN (${value.map(() => '?').join(', ')})`;
+    }
+    if (['string', 'number', 'boolean', 'bigint'].includes(typeof value) || value instanceof Date) {
+      params.push(toSQLiteValue(value));
+      return `${col} = ?`;
+    }
+
+    throw new Error(`[SQLite Adapter] Unsupported where value for "${column}": ${JSON.stringify(value)}`);
+  });
+}
+
+/**
+ * Translate a TranslationFilter into conditions with `?` parameters
+ */
+function filterConditions(filter: TranslationFilter, params: unknown[]): string[] {
+  const conditions: string[] = [];
+  if (filter.contentType !== undefined) {
+    conditions.push('content_type = ?');
+    params.push(filter.contentType);
+  }
+  if (filter.contentIds) {
+    conditions.push('content_id IN (SELECT value FROM json_each(?))');
+    params.push(JSON.stringify(filter.contentIds));
+  }
+  if (filter.locales) {
+    conditions.push('locale IN (SELECT value FROM json_each(?))');
+    params.push(JSON.stringify(filter.locales));
+  }
+  return conditions;
+}
+
+function whereClause(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+export function createSQLiteAdapter(
+  db: SQLiteDatabase,
+  options: SQLiteAdapterOptions = {}
+): DatabaseAdapter {
+  const table = quoteIdentifier(options.table ?? 'content_translations');
+  const budgetTable = quoteIdentifier(options.budgetTable ?? 'audarma_budget_counters');
+  let migrated = options.migrate === false;
+
+  function ready(): SQLiteDatabase {
+    if (!migrated) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          content_type TEXT NOT NULL,
+          content_id TEXT NOT NULL,
+          locale TEXT NOT NULL,
+          original_text TEXT NOT NULL,
+          translated_text TEXT NOT NULL,
+          source_hash TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (content_type, content_id, locale)
+        );
+        CREATE TABLE IF NOT EXISTS ${budgetTable} (
+          key TEXT PRIMARY KEY,
+          value REAL NOT NULL,
+          expires_at INTEGER NOT NULL
+        );
+      `);
+      migrated = true;
+    }
+    return db;
+  }
+
+  // Composite keys go in as one JSON parameter - no bound-variable limit
+  const pairs = (items: Array<{ contentType: string; contentId: string }>) =>
+    JSON.stringify(items.map((item) => [item.contentType, item.contentId]));
+
+  const pairJoin = `
+    JOIN json_each(?) AS k
+      ON t.content_type = json_extract(k.value, '$[0]') AND t.content_id = json_extract(k.value, '$[1]')`;
+
+  return {
+    async getCachedTranslations(items, targetLocale) {
+      if (items.length === 0) return [];
+
+      return ready()
+        .prepare(
+          `SELECT t.content_type, t.content_id, t.translated_text, t.source_hash
+           FROM ${table} t ${pairJoin}
+           WHERE t.locale = ?`
+        )
+        .all(pairs(items), targetLocale) as CachedTranslation[];
+    },
+
+    async saveTranslations(translations) {
+      const database = ready();
+      const upsert = database.prepare(
+        `INSERT INTO ${table} (content_type, content_id, locale, original_text, translated_text, source_hash)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (content_type, content_id, locale) DO UPDATE SET
+           original_text = excluded.original_text,
+           translated_text = excluded.translated_text,
+           source_hash = excluded.source_hash,
+           updated_at = CURRENT_TIMESTAMP`
+      );
+
+      // One transaction: all rows are saved, or none
+      database.exec('BEGIN');
+      try {
+        for (const t of translations) {
+          upsert.run(t.content_type, t.content_id, t.locale, t.original_text, t.translated_text, t.source_hash);
+        }
+        database.exec('COMMIT');
+      } catch (error) {
+        database.exec('ROLLBACK');
+        throw error;
+      }
+    },
+
+    async getTranslationCoverage(items, locales) {
+      if (items.length === 0 || locales.length === 0) return [];
+
+      return ready()
+        .prepare(
+          `SELECT t.content_type, t.content_id, t.locale, t.source_hash
+           FROM ${table} t ${pairJoin}
+           WHERE t.locale IN (SELECT value FROM json_each(?))`
+        )
+        .all(pairs(items), JSON.stringify(locales)) as TranslationCoverage[];
+    },
+
+    async incrementBudgetCounter(key, amount, expiresAt) {
+      // An expired counter restarts from this increment with the new expiry
+      const row = ready()
+        .prepare(
+          `INSERT INTO ${budgetTable} AS c (key, value, expires_at)
+           VALUES (?, ?, ?)
+           ON CONFLICT (key) DO UPDATE SET
+             value = CASE WHEN c.expires_at <= ? THEN excluded.value ELSE c.value + excluded.value END,
+             expires_at = CASE WHEN c.expires_at <= ? THEN excluded.expires_at ELSE c.expires_at END
+           RETURNING value`
+        )
+        .get(key, amount, expiresAt.getTime(), Date.now(), Date.now()) as { value: number };
+      return Number(row.value);
+    },
+
+    async deleteTranslations(filter) {
+      const params: unknown[] = [];
+      const { changes } = ready()
+        .prepare(`DELETE FROM ${table} ${whereClause(filterConditions(filter, params))}`)
+        .run(...params);
+      return Number(changes);
+    },
+
+    async listTranslations(filter, page) {
+      const params: unknown[] = [];
+      const conditions = filterConditions(filter, params);
+
+      return ready()
+        .prepare(
+          `SELECT content_type, content_id, locale, original_text, translated_text, source_hash
+           FROM ${table}
+           ${whereClause(conditions)}
+           ORDER BY content_type, content_id, locale
+           LIMIT ? OFFSET ?`
+        )
+        .all(...params, page.limit, page.offset ?? 0) as StoredTranslation[];
+    },
+
+    async countTranslations(groupBy, filter = {}) {
+      const params: unknown[] = [];
+      // Only the two known column names are interpolated
+      const columns = groupBy.filter((column) => column === 'content_type' || column === 'locale');
+      const group = columns.length > 0 ? `GROUP BY ${columns.join(', ')}` : '';
+
+      const rows = ready()
+        .prepare(
+          `SELECT ${[...columns, 'COUNT(*) AS count'].join(', ')}
+           FROM ${table}
+           ${whereClause(filterConditions(filter, params))}
+           ${group}`
+        )
+        .all(...params) as TranslationCount[];
+      // node:sqlite may return bigints
+      return rows.map((row) => ({ ...row, count: Number(row.count) }));
+    },
+
+    async getAllTranslatableContent(contentSources) {
+      const database = ready();
+      const results: Array<{ contentType: string; contentId: string; text: string }> = [];
+
+      for (const source of contentSources) {
+        for (const item of source.items) {
+          const params: unknown[] = [];
+          const textColumn = quoteIdentifier(item.textColumn);
+          const conditions = [
+            ...whereConditions(source.where, params),
+            ...whereConditions(item.where, params),
+            `${textColumn} IS NOT NULL`,
+            `CAST(${textColumn} AS TEXT) <> ''`,
+          ];
+
+          const rows = database
+            .prepare(
+              `SELECT CAST(${quoteIdentifier(source.idColumn)} AS TEXT) AS content_id,
+                      CAST(${textColumn} AS TEXT) AS text
+               FROM ${quoteIdentifier(source.table)}
+               ${whereClause(conditions)}`
+            )
+            .all(...params) as Array<{ content_id: string; text: string }>;
+
+          for (const row of rows) {
+            results.push({ contentType: item.contentType, contentId: row.content_id, text: row.text });
+          }
+        }
+      }
+
+      return results;
+    },
+  };
+}
@@ -1,13 +1,17 @@
 'use client';
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import crypto from 'crypto-js';
+import { createContext, useContext, useState, useEffect, useMemo, useRef, useCallback, ReactNode } from 'react';
 import type {
   AudarConfig,
+  InitialViewTranslations,
   TranslationItem,
   ViewTranslationMetadata,
   UseViewTranslationResult,
 } from '../types';
+import { sourceHashMatches } from './source-hash';
+import { hashViewContent } from './pipeline';
+import { resolveMetadataStore } from './metadata-store';
+import { createTranslationScheduler, DEFAULT_CHUNK_SIZE, type TranslationScheduler } from './scheduler';
 
 interface ViewTranslationCache {
   [key: string]: string; // "contentType:contentId" -> translated text
@@ -18,6 +22,10 @@ interface ViewTranslationContextValue {
   isTranslating: boolean;
   getTranslation: (contentType: string, contentId: string, fallback: string) => string;
   isItemTranslating: (contentType: string, contentId: string) => boolean;
+  // Mark an item as rendered so it is translated first; returns unregister
+  registerItem: (contentType: string, contentId: string) => () => void;
+  // Watch an item's element so it is translated first while on screen; returns unobserve
+  observeItem: (contentType: string, contentId: string, element: Element) => () => void;
 }
 
 const ViewTranslationContext = createContext<ViewTranslationContextValue>({
@@ -25,20 +33,38 @@ const ViewTranslationContext = createContext<ViewTranslationContextValue>({
   isTranslating: false,
   getTranslation: () => '',
   isItemTranslating: () => false,
+  registerItem: () => () => {},
+  observeItem: () => () => {},
 });
 
+const DEFAULT_CHUNK_CONCURRENCY = 2;
+
 // Global config context (set by AudarProvider)
 const AudarConfigContext = createContext<AudarConfig | null>(null);
 
+// Scheduler shared by all views under one AudarProvider
+const AudarSchedulerContext = createContext<TranslationScheduler | null>(null);
+
 interface AudarProviderProps {
   config: AudarConfig;
   children: ReactNode;
 }
 
+/**
+ * Item elements of one view and which of them are on screen
+ */
+interface ViewportTracker {
+  observer: IntersectionObserver;
+  keys: Map<Element, string>;
+  visible: Set<Element>;
+}
+
 /**
  * AudarProvider - Global configuration provider
  *
- * Wrap your app root with this provider to configure adapters
+ * Wrap your app root with this provider to configure adapters. Views under
+ * one provider share a scheduler, so the same item requested by several views
+ * is looked up and translated once.
  *
  * @example
  * ```tsx
@@ -52,9 +78,16 @@ interface AudarProviderProps {
  * ```
  */
 export function AudarProvider({ config, children }: AudarProviderProps) {
+  // Keep one scheduler for the provider's lifetime, even if config is re-created on render
+  const configRef = useRef(config);
+  configRef.current = config;
+  const [scheduler] = useState(() => createTranslationScheduler(() => configRef.current));
+
   return (
     <AudarConfigContext.Provider value={config}>
-      {children}
+      <AudarSchedulerContext.Provider value={scheduler}>
+        {children}
+      </AudarSchedulerContext.Provider>
     </AudarConfigContext.Provider>
   );
 }
@@ -62,6 +95,10 @@ export function AudarProvider({ config, children }: AudarProviderProps) {
 interface ViewTranslationProviderProps {
   viewName: string; // 'feed', 'dashboard', 'shop:handle', 'product:id'
   items: TranslationItem[];
+  /**
+   * Translations resolved during server rendering (see getViewTranslations)
+   */
+  initialTranslations?: InitialViewTranslations;
   children: ReactNode;
 }
 
@@ -71,17 +108,31 @@ interface ViewTranslationProviderProps {
  * Tracks translation state per view, calculates content hash, and only
  * translates when needed (never translated OR English content changed)
  *
+ * Missing items are translated in chunks of `chunkSize`, and each chunk is
+ * shown as soon as it arrives. Items whose element (the `ref` returned by
+ * useViewTranslation) is on screen go first, then other items with a mounted
+ * useViewTranslation, then the rest in `items` order.
+ *
  * @example
  * ```tsx
  * <ViewTranslationProvider viewName="feed" items={productItems}>
  *   <ProductCard product={product} />
  * </ViewTranslationProvider>
  * ```
+ *
+ * Pass `initialTranslations` from getViewTranslations() to render translated
+ * text on first paint (server components / SSR).
  */
-export function ViewTranslationProvider({ viewName, items, children }: ViewTranslationProviderProps) {
+export function ViewTranslationProvider({
+  viewName,
+  items,
+  initialTranslations,
+  children,
+}: ViewTranslationProviderProps) {
   const config = useContext(AudarConfigContext);
+  const scheduler = useContext(AudarSchedulerContext);
 
-  if (!config) {
+  if (!config || !scheduler) {
     throw new Error('ViewTranslationProvider must be used within AudarProvider');
   }
 
@@ -90,9 +141,81 @@ export function ViewTranslationProvider({ viewName, items, children }: ViewTrans
   const [currentLocale, setCurrentLocale] = useState(() => config.i18n.getCurrentLocale());
   const defaultLocale = config.defaultLocale || config.i18n.getDefaultLocale();
 
-  const [cache, setCache] = useState<ViewTranslationCache>({});
+  // Server-resolved translations only apply to the view and locale they were resolved for
+  const initialFor = (locale: string) =>
+    initialTranslations && initialTranslations.viewName === viewName && initialTranslations.locale === locale
+      ? initialTranslations
+      : null;
+
+  const [cache, setCache] = useState<ViewTranslationCache>(
+    () => initialFor(currentLocale)?.translations ?? {}
+  );
+  const [staleKeys, setStaleKeys] = useState<Set<string>>(() => new Set());
   const [isTranslating, setIsTranslating] = useState(false);
 
+  // Source text of items already resolved in the current locale, by key.
+  // Only items missing here (new or edited) are sent to the database and LLM.
+  const resolvedRef = useRef<{ locale: string | null; texts: Map<string, string> }>({
+    locale: null,
+    texts: new Map(),
+  });
+
+  // Items with a mounted useViewTranslation consumer (key -> consumer count).
+  // Mounted is not the same as visible: a long list renders every item,
+  // including those below the fold, so these only outrank items of the view
+  // that no component renders (e.g. items of a collapsed tab or later page).
+  const renderedRef = useRef<Map<string, number>>(new Map());
+
+  // Elements passed to useViewTranslation's ref, observed for visibility.
+  // Created on first use - not during server rendering or without IntersectionObserver.
+  const viewportRef = useRef<ViewportTracker | null>(null);
+
+  const registerItem = useCallback((contentType: string, contentId: string) => {
+    const key = `${contentType}:${contentId}`;
+    const rendered = renderedRef.current;
+    rendered.set(key, (rendered.get(key) ?? 0) + 1);
+
+    return () => {
+      const count = (rendered.get(key) ?? 1) - 1;
+      if (count > 0) rendered.set(key, count);
+      else rendered.delete(key);
+    };
+  }, []);
+
+  const observeItem = useCallback((contentType: string, contentId: string, element: Element) => {
+    if (typeof IntersectionObserver === 'undefined') return () => {};
+
+    if (!viewportRef.current) {
+      const visible = new Set<Element>();
+      const observer = new IntersectionObserver((entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) visible.add(entry.target);
+          else visible.delete(entry.target);
+        });
+      });
+      viewportRef.current = { observer, keys: new Map(), visible };
+    }
+
+    const tracker = viewportRef.current;
+    tracker.keys.set(element, `${contentType}:${contentId}`);
+    tracker.observer.observe(element);
+
+    return () => {
+      tracker.observer.unobserve(element);
+      tracker.keys.delete(element);
+      tracker.visible.delete(element);
+    };
+  }, []);
+
+  useEffect(() => () => {
+    viewportRef.current?.observer.disconnect();
+    viewportRef.current = null;
+  }, []);
+
+  // Change detection is driven by content, not array identity or length:
+  // swapping 20 products for 20 others changes the hash
+  const contentHash = useMemo(() => hashViewContent(items), [items]);
+
   // Detect locale changes and clear cache when locale switches
   useEffect(() => {
     const newLocale = config.i18n.getCurrentLocale();
@@ -102,36 +225,102 @@ export function ViewTranslationProvider({ viewName, items, children }: ViewTrans
       }
       setCurrentLocale(newLocale);
       setCache({}); // Clear stale translations
+      setStaleKeys(new Set());
       setIsTranslating(false);
     }
   });
 
   useEffect(() => {
-    // Skip if default locale or no items
-    if (currentLocale === defaultLocale || items.length === 0) {
+    // Skip if default locale
+    if (currentLocale === defaultLocale) {
+      resolvedRef.current = { locale: currentLocale, texts: new Map() };
       setCache({});
+      setStaleKeys(new Set());
       setIsTranslating(false);
       return;
     }
 
+    // Results of a run superseded by a newer one (items or locale changed) are dropped
+    let cancelled = false;
+
+    // Resolved items belong to one locale - start over when it changes
+    if (resolvedRef.current.locale !== currentLocale) {
+      resolvedRef.current = { locale: currentLocale, texts: new Map() };
+
+      // Server already resolved these exact items - trust its translations
+      const initial = initialFor(currentLocale);
+      if (initial && initial.contentHash === contentHash) {
+        items.forEach((item) => {
+          const key = `${item.contentType}:${item.contentId}`;
+          if (key in initial.translations) {
+            resolvedRef.current.texts.set(key, item.text);
+          }
+        });
+        setCache(initial.translations);
+
+        if (config.debug) {
+          console.log(
+            `[Audar] ✓ Using ${Object.keys(initial.translations).length} server-rendered translations ` +
+            `for ${viewName} (${currentLocale})`
+          );
+        }
+      }
+    }
+
+    const resolved = resolvedRef.current.texts;
+    const metadataStore = resolveMetadataStore(config);
+
+    const saveMetadata = () => {
+      const metadata: ViewTranslationMetadata = {
+        contentHash,
+        lastTranslated: new Date().toISOString(),
+        locale: currentLocale,
+        itemCount: items.length,
+      };
+      metadataStore.set(viewName, currentLocale, metadata).catch(() => undefined);
+    };
+
+    // Merge results for pendingItems into the cache, keeping entries of other items.
+    // Outdated translations of edited items are dropped unless staleWhileRevalidate is on.
+    const commit = (
+      pendingItems: TranslationItem[],
+      entries: ViewTranslationCache,
+      stale: ViewTranslationCache = {}
+    ) => {
+      setCache((prev) => {
+        const next = { ...prev };
+        if (!config.staleWhileRevalidate) {
+          pendingItems.forEach((item) => delete next[`${item.contentType}:${item.contentId}`]);
+        }
+        return { ...next, ...(config.staleWhileRevalidate ? stale : {}), ...entries };
+      });
+
+      pendingItems.forEach((item) => {
+        const key = `${item.contentType}:${item.contentId}`;
+        if (key in entries) resolved.set(key, item.text);
+      });
+    };
+
     const translateView = async () => {
-      // 1. Calculate content hash (hash of all content IDs + texts)
-      const contentString = items
-        .map((item) => `${item.contentType}:${item.contentId}:${item.text}`)
-        .sort()
-        .join('|');
-      const contentHash = crypto.SHA256(contentString).toString().substring(0, 16);
-
-      // 2. Check localStorage for cached metadata
-      const metadataKey = `translation_metadata_${viewName}_${currentLocale}`;
-      const cachedMetadata = localStorage.getItem(metadataKey);
-
-      if (cachedMetadata) {
-        try {
-          const metadata: ViewTranslationMetadata = JSON.parse(cachedMetadata);
+      // 1. Only new or edited items need work
+      const changedItems = items.filter(
+        (item) => resolved.get(`${item.contentType}:${item.contentId}`) !== item.text
+      );
+
+      if (changedItems.length === 0) {
+        setIsTranslating(false);
+        if (items.length > 0) saveMetadata();
+        return;
+      }
+
+      // 2. Check stored metadata
+      const metadata = await metadataStore.get(viewName, currentLocale).catch(() => null);
+      if (cancelled) return;
 
-          // Content hash matches AND same number of items - use cache
-          if (metadata.contentHash === contentHash && metadata.itemCount === items.length) {
+      if (metadata) {
+        try {
+          // Content hash matches - every item was translated before, load from cache
+          if (metadata.contentHash === contentHash) {
             if (config.debug) {
               console.log(
                 `[Audar] ✓ Using cached translations for ${viewName} (${currentLocale}). ` +
@@ -140,19 +329,19 @@ export function ViewTranslationProvider({ viewName, items, children }: ViewTrans
             }
 
             // Load from database cache
-            await loadFromDatabaseCache();
+            await loadFromDatabaseCache(changedItems);
             return;
           } else {
             if (config.debug) {
               console.log(
-                `[Audar] Content changed for ${viewName} (${currentLocale}). ` +
+                `[Audar] Content changed for ${viewName} (${currentLocale}): ${changedItems.length} new or edited items. ` +
                 `Old hash: ${metadata.contentHash.substring(0, 8)}..., New hash: ${contentHash.substring(0, 8)}...`
               );
             }
           }
         } catch (e) {
           if (config.debug) {
-            console.warn('[Audar] Failed to parse cached metadata:', e);
+            console.warn('[Audar] Invalid stored metadata:', e);
           }
         }
       } else {
@@ -162,94 +351,171 @@ export function ViewTranslationProvider({ viewName, items, children }: ViewTrans
       }
 
       // 3. Need to translate - fetch from database first, then translate missing
+      await translateItems(changedItems);
+    };
+
+    // Fetch cached translations, then translate missing and stale items
+    async function translateItems(pendingItems: TranslationItem[]) {
+      if (!config || !scheduler) return; // TypeScript guard (should never happen due to earlier check)
+
       setIsTranslating(true);
 
       try {
-        // Fetch cached translations from database
-        const cachedResults = await config.database.getCachedTranslations(items, currentLocale);
+        // Fetch cached translations from database (batched with other views)
+        const cachedResults = await scheduler.lookup(pendingItems, currentLocale);
+        if (cancelled) return;
 
         // Build cache map from database results
         const newCache: ViewTranslationCache = {};
         const cachedMap = new Map(
-          cachedResults.map((r) => [`${r.content_type}:${r.content_id}`, r.translated_text])
+          cachedResults.map((r) => [`${r.content_type}:${r.content_id}`, r])
         );
 
-        // Identify items that need translation
+        // Identify items that need translation: never translated, or translated
+        // from a different version of the source text (source_hash mismatch)
         const uncachedItems: TranslationItem[] = [];
-        items.forEach((item) => {
+        const staleCache: ViewTranslationCache = {};
+        pendingItems.forEach((item) => {
           const key = `${item.contentType}:${item.contentId}`;
           const cached = cachedMap.get(key);
 
-          if (cached) {
-            newCache[key] = cached;
+          if (cached && sourceHashMatches(cached.source_hash, item.text)) {
+            newCache[key] = cached.translated_text;
           } else {
             uncachedItems.push(item);
+            if (cached) {
+              staleCache[key] = cached.translated_text;
+            }
           }
         });
 
+        const staleCount = Object.keys(staleCache).length;
+
         if (config.debug) {
           console.log(
-            `[Audar] Found ${cachedResults.length} cached, need to translate ${uncachedItems.length} items`
+            `[Audar] Found ${Object.keys(newCache).length} cached, ${staleCount} stale, ` +
+            `need to translate ${uncachedItems.length} items`
           );
         }
 
-        // Translate uncached items
-        if (uncachedItems.length > 0) {
-          const translatedTexts = await config.llm.translateBatch(
-            uncachedItems,
-            defaultLocale,
-            currentLocale
-          );
+        // Show cached translations right away (and outdated ones, if staleWhileRevalidate)
+        commit(pendingItems, newCache, staleCache);
+        if (config.staleWhileRevalidate && staleCount > 0) {
+          setStaleKeys(new Set(Object.keys(staleCache)));
+        }
 
-          // Save to database
-          const translationsToSave = uncachedItems.map((item, idx) => ({
-            content_type: item.contentType,
-            content_id: item.contentId,
-            locale: currentLocale,
-            original_text: item.text,
-            translated_text: translatedTexts[idx],
-            source_hash: crypto.SHA256(item.text).toString(),
-          }));
+        // Translate uncached items chunk by chunk (translated and saved once across views),
+        // showing each chunk as soon as it arrives
+        if (uncachedItems.length > 0) {
+          const chunkSize = Math.max(1, config.chunkSize ?? DEFAULT_CHUNK_SIZE);
+          const remaining = [...uncachedItems];
+          let translatedCount = 0;
+          let budgetExceeded: string | undefined;
+
+          const nextChunk = () => {
+            // Visible items first, then mounted ones, otherwise keep items order.
+            // Re-ranked per chunk, so scrolling reprioritizes what is left.
+            const rendered = renderedRef.current;
+            const tracker = viewportRef.current;
+            const visible = new Set(Array.from(tracker?.visible ?? [], (element) => tracker?.keys.get(element)));
+            const rank = (item: TranslationItem) => {
+              const key = `${item.contentType}:${item.contentId}`;
+              return visible.has(key) ? 2 : rendered.has(key) ? 1 : 0;
+            };
+            remaining.sort((a, b) => rank(b) - rank(a));
+            return remaining.splice(0, chunkSize);
+          };
+
+          const worker = async () => {
+            while (remaining.length > 0 && !budgetExceeded && !cancelled) {
+              const chunk = nextChunk();
+              const scheduled = await scheduler.translate(chunk, currentLocale, (item, text) => {
+                // Streaming providers deliver items one by one - show each right away
+                if (cancelled) return;
+                const key = `${item.contentType}:${item.contentId}`;
+                commit([item], { [key]: text });
+                setStaleKeys((prev) => {
+                  if (!prev.has(key)) return prev;
+                  const next = new Set(prev);
+                  next.delete(key);
+                  return next;
+                });
+              });
+              if (cancelled) return;
+
+              const chunkKeys = Object.keys(scheduled.translations);
+              translatedCount += chunkKeys.length;
+              commit(chunk, scheduled.translations);
+              setStaleKeys((prev) => {
+                const next = new Set(prev);
+                chunkKeys.forEach((key) => next.delete(key));
+                return next;
+              });
+
+              if (scheduled.budgetExceeded) {
+                budgetExceeded = scheduled.budgetExceeded;
+              }
+            }
+          };
 
-          await config.database.saveTranslations(translationsToSave);
+          const concurrency = Math.max(1, config.chunkConcurrency ?? DEFAULT_CHUNK_CONCURRENCY);
+          await Promise.all(Array.from({ length: Math.min(concurrency, remaining.length) }, worker));
+          if (cancelled) return;
 
-          // Add to cache
-          uncachedItems.forEach((item, idx) => {
-            const key = `${item.contentType}:${item.contentId}`;
-            newCache[key] = translatedTexts[idx];
-          });
+          // Respect spend caps - when exhausted, keep showing source text
+          if (budgetExceeded) {
+            if (config.debug) {
+              console.log(
+                `[Audar] Budget exhausted (${budgetExceeded}) - ` +
+                `showing source text for ${uncachedItems.length - translatedCount} ` +
+                `items in ${viewName} (${currentLocale})`
+              );
+            }
+            return; // No metadata saved, so the view is retried on next visit
+          }
 
           if (config.debug) {
-            console.log(`[Audar] ✓ Translated ${uncachedItems.length} new items for ${viewName} (${currentLocale})`);
+            console.log(`[Audar] ✓ Translated ${translatedCount} new items for ${viewName} (${currentLocale})`);
           }
         }
 
-        setCache(newCache);
-
-        // Save metadata to localStorage
-        const metadata: ViewTranslationMetadata = {
-          contentHash,
-          lastTranslated: new Date().toISOString(),
-          locale: currentLocale,
-          itemCount: items.length,
-        };
-        localStorage.setItem(metadataKey, JSON.stringify(metadata));
+        // Remember this version of the view
+        saveMetadata();
 
       } catch (error) {
         if (config.debug) {
           console.error(`[Audar] Error translating ${viewName}:`, error);
         }
       } finally {
-        setIsTranslating(false);
+        if (!cancelled) setIsTranslating(false);
       }
-    };
+    }
 
     // Load cached translations from database
-    async function loadFromDatabaseCache() {
-      if (!config) return; // TypeScript guard (should never happen due to earlier check)
+    async function loadFromDatabaseCache(pendingItems: TranslationItem[]) {
+      if (!config || !scheduler) return; // TypeScript guard (should never happen due to earlier check)
 
       try {
-        const cachedResults = await config.database.getCachedTranslations(items, currentLocale);
+        const cachedResults = await scheduler.lookup(pendingItems, currentLocale);
+        if (cancelled) return;
+
+        // Rows may have been deleted (invalidate(), prune) or written for an
+        // older source text since the metadata was saved - translate if so
+        const cachedMap = new Map(cachedResults.map((r) => [`${r.content_type}:${r.content_id}`, r]));
+        const outdated = pendingItems.filter((item) => {
+          const row = cachedMap.get(`${item.contentType}:${item.contentId}`);
+          return !row || !sourceHashMatches(row.source_hash, item.text);
+        });
+
+        if (outdated.length > 0) {
+          if (config.debug) {
+            console.log(
+              `[Audar] ${outdated.length} missing or stale translations detected for ${viewName} (${currentLocale})`
+            );
+          }
+          await translateItems(pendingItems);
+          return;
+        }
 
         const newCache: ViewTranslationCache = {};
         cachedResults.forEach((r) => {
@@ -257,7 +523,9 @@ export function ViewTranslationProvider({ viewName, items, children }: ViewTrans
           newCache[key] = r.translated_text;
         });
 
-        setCache(newCache);
+        commit(pendingItems, newCache);
+        setStaleKeys(new Set());
+        setIsTranslating(false); // A superseded run may have left it set
 
         if (config.debug && Object.keys(newCache).length > 0) {
           console.log(
@@ -268,13 +536,17 @@ export function ViewTranslationProvider({ viewName, items, children }: ViewTrans
         if (config.debug) {
           console.error(`[Audar] Error loading cache for ${viewName}:`, error);
         }
-        // Fallback: translate fresh
-        translateView();
+        // Fallback: translate fresh (translateItems logs its own errors)
+        await translateItems(pendingItems);
       }
     }
 
     translateView();
-  }, [viewName, currentLocale, items.length]); // Re-run when locale or items change
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewName, currentLocale, contentHash]); // Re-run when locale or item content changes
 
   const getTranslation = (contentType: string, contentId: string, fallback: string): string => {
     if (currentLocale === defaultLocale) return fallback;
@@ -285,7 +557,7 @@ export function ViewTranslationProvider({ viewName, items, children }: ViewTrans
   const isItemTranslating = (contentType: string, contentId: string): boolean => {
     if (currentLocale === defaultLocale) return false;
     const key = `${contentType}:${contentId}`;
-    return isTranslating && !cache[key];
+    return isTranslating && (!cache[key] || staleKeys.has(key));
   };
 
   return (
@@ -295,6 +567,8 @@ export function ViewTranslationProvider({ viewName, items, children }: ViewTrans
         isTranslating,
         getTranslation,
         isItemTranslating,
+        registerItem,
+        observeItem,
       }}
     >
       {children}
@@ -307,9 +581,13 @@ export function ViewTranslationProvider({ viewName, items, children }: ViewTrans
  *
  * Must be used within ViewTranslationProvider
  *
+ * Attach the returned `ref` to the item's element so it is translated first
+ * while on screen.
+ *
  * @example
  * ```tsx
- * const { text, isTranslating } = useViewTranslation('product_title', product.id, product.title);
+ * const { text, isTranslating, ref } = useViewTranslation('product_title', product.id, product.title);
+ * return <h2 ref={ref}>{text}</h2>;
  * ```
  */
 export function useViewTranslation(
@@ -317,11 +595,22 @@ export function useViewTranslation(
   contentId: string,
   originalText: string
 ): UseViewTranslationResult {
-  const { getTranslation, isItemTranslating } = useContext(ViewTranslationContext);
+  const { getTranslation, isItemTranslating, registerItem, observeItem } = useContext(ViewTranslationContext);
+  const [element, setElement] = useState<Element | null>(null);
+
+  // Mounted items are translated before items of the view no component renders
+  useEffect(() => registerItem(contentType, contentId), [registerItem, contentType, contentId]);
+
+  // Visible items are translated before all others
+  useEffect(
+    () => (element ? observeItem(contentType, contentId, element) : undefined),
+    [observeItem, contentType, contentId, element]
+  );
 
   return {
     text: getTranslation(contentType, contentId, originalText),
     isTranslating: isItemTranslating(contentType, contentId),
+    ref: setElement,
   };
 }
 
@@ -0,0 +1,221 @@
+/**
+ * Budget Guards
+ *
+ * Caps how much lazy and batch translation may spend, in items and tokens per
+ * minute / per day, globally and per locale. Usage is tracked in pluggable
+ * counters: in memory by default, or through the DatabaseAdapter when limits
+ * must be shared across server instances.
+ *
+ * When a budget is exhausted the guard denies the request; callers show source
+ * text instead of translating. Guards never throw.
+ *
+ * @example
+ * ```ts
+ * const config: AudarConfig = {
+ *   ...adapters,
+ *   budget: {
+ *     perMinute: { items: 200 },
+ *     perDay: { tokens: 2_000_000 },
+ *     perLocale: { perDay: { items: 5_000 } },
+ *     counter: createDatabaseBudgetCounter(databaseAdapter),
+ *   },
+ * };
+ * ```
+ */
+
+import type {
+  BudgetConfig,
+  BudgetCounter,
+  BudgetLimits,
+  BudgetWindows,
+  DatabaseAdapter,
+  TokenUsage,
+  TranslationItem,
+} from '../types';
+import { estimateBatchUsage } from './cost';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * In-memory counter (per process / per browser tab)
+ */
+export function createMemoryBudgetCounter(): BudgetCounter {
+  const counters = new Map<string, { value: number; expiresAt: number }>();
+
+  return {
+    async increment(key, amount, ttlMs) {
+      const now = Date.now();
+
+      // Drop expired windows so the map does not grow forever
+      for (const [existingKey, entry] of counters) {
+        if (entry.expiresAt <= now) counters.delete(existingKey);
+      }
+
+      const entry = counters.get(key) || { value: 0, expiresAt: now + ttlMs };
+      entry.value += amount;
+      counters.set(key, entry);
+      return entry.value;
+    },
+  };
+}
+
+/**
+ * Counter stored through DatabaseAdapter.incrementBudgetCounter, so every
+ * server instance shares the same limits
+ */
+export function createDatabaseBudgetCounter(database: DatabaseAdapter): BudgetCounter {
+  const { incrementBudgetCounter } = database;
+
+  if (!incrementBudgetCounter) {
+    throw new Error(
+      'DatabaseAdapter does not support shared budgets. ' +
+      'Please implement incrementBudgetCounter() method.'
+    );
+  }
+
+  return {
+    increment(key, amount, ttlMs) {
+      return incrementBudgetCounter.call(database, key, amount, new Date(Date.now() + ttlMs));
+    },
+  };
+}
+
+// Shared by every guard without an explicit counter, so limits hold across
+// views and config objects re-created on render
+const defaultCounter = createMemoryBudgetCounter();
+
+/**
+ * Outcome of a budget check
+ */
+export interface BudgetDecision {
+  allowed: boolean;
+  /**
+   * Limit that was hit, e.g. "perDay.tokens (ru)"
+   */
+  exceeded?: string;
+  /**
+   * When the exhausted window resets, in ms from now
+   */
+  retryAfterMs?: number;
+  /**
+   * Replace the estimated token count with actual usage reported by the provider
+   */
+  settle(usage: TokenUsage): Promise<void>;
+}
+
+export interface BudgetGuard {
+  /**
+   * Reserve budget for translating items into locale
+   *
+   * Reservations are counted immediately; a denied reservation is rolled back.
+   */
+  reserve(items: TranslationItem[], locale: string): Promise<BudgetDecision>;
+}
+
+interface WindowSpec {
+  name: 'perMinute' | 'perDay';
+  ms: number;
+}
+
+const WINDOWS: WindowSpec[] = [
+  { name: 'perMinute', ms: MINUTE_MS },
+  { name: 'perDay', ms: DAY_MS },
+];
+
+interface Charge {
+  key: string;
+  amount: number;
+  ttlMs: number;
+}
+
+const noopSettle = async () => {};
+
+/**
+ * Create a guard enforcing the configured budget
+ *
+ * @param debug - Log denied reservations and counter errors
+ */
+export function createBudgetGuard(budget: BudgetConfig, debug = false): BudgetGuard {
+  const counter = budget.counter || defaultCounter;
+
+  async function rollback(charges: Charge[]) {
+    await Promise.all(
+      charges.map((c) => counter.increment(c.key, -c.amount, c.ttlMs).catch(() => undefined))
+    );
+  }
+
+  return {
+    async reserve(items, locale) {
+      const now = Date.now();
+      const estimate = estimateBatchUsage(items);
+      const estimatedTokens = items.length > 0 ? estimate.inputTokens + estimate.outputTokens : 0;
+
+      const scopes: Array<{ label: string; prefix: string; limits?: BudgetWindows }> = [
+        { label: 'global', prefix: 'global', limits: budget },
+        { label: locale, prefix: `locale:${locale}`, limits: budget.perLocale },
+      ];
+
+      const charged: Charge[] = [];
+      const tokenKeys: Charge[] = [];
+
+      try {
+        for (const scope of scopes) {
+          for (const window of WINDOWS) {
+            const limits: BudgetLimits | undefined = scope.limits?.[window.name];
+            if (!limits) continue;
+
+            const windowStart = Math.floor(now / window.ms) * window.ms;
+            const ttlMs = windowStart + window.ms - now;
+
+            const metrics: Array<['items' | 'tokens', number]> = [
+              ['items', items.length],
+              ['tokens', estimatedTokens],
+            ];
+
+            for (const [metric, amount] of metrics) {
+              const limit = limits[metric];
+              if (limit === undefined) continue;
+
+              const charge = {
+                key: `audarma:budget:${scope.prefix}:${metric}:${window.name}:${windowStart}`,
+                amount,
+                ttlMs,
+              };
+              const total = await counter.increment(charge.key, amount, ttlMs);
+              charged.push(charge);
+              if (metric === 'tokens') tokenKeys.push(charge);
+
+              if (total > limit) {
+                await rollback(charged);
+                const exceeded = `${window.name}.${metric} (${scope.label})`;
+                if (debug) {
+                  console.warn(`[Audar] Budget exhausted: ${exceeded} - ${total}/${limit}`);
+                }
+                return { allowed: false, exceeded, retryAfterMs: ttlMs, settle: noopSettle };
+              }
+            }
+          }
+        }
+      } catch (error) {
+        // A broken counter must not let spend through unchecked, nor crash the view
+        await rollback(charged);
+        if (debug) {
+          console.error('[Audar] Budget counter failed, denying translation:', error);
+        }
+        return { allowed: false, exceeded: 'counter-error', settle: noopSettle };
+      }
+
+      return {
+        allowed: true,
+        async settle(usage) {
+          const delta = usage.inputTokens + usage.outputTokens - estimatedTokens;
+          if (delta === 0) return;
+          await Promise.all(
+            tokenKeys.map((c) => counter.increment(c.key, delta, c.ttlMs).catch(() => undefined))
+          );
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Client Translation Cache
+ *
+ * Persistent browser cache in front of the DatabaseAdapter. Translations are
+ * keyed by (contentType, contentId, locale, sourceHash), so an edited source
+ * text never hits an outdated entry. Repeat visits render from this cache
+ * instantly (and offline); the database is only consulted for misses.
+ *
+ * IndexedDB is used when available, with an in-memory fallback (server
+ * rendering, private browsing, old browsers). Both evict least recently used
+ * entries beyond `maxEntries`, and treat entries stored longer ago than
+ * `maxAgeMs` as misses - the only way translations deleted with invalidate()
+ * in another browser or on the server stop being served here.
+ *
+ * @example
+ * ```ts
+ * const config: AudarConfig = {
+ *   ...adapters,
+ *   clientCache: createIndexedDBTranslationCache({ maxEntries: 20_000 }),
+ *   // or clientCache: false to always ask the database
+ * };
+ * ```
+ */
+
+import type { AudarConfig, ClientTranslationCache } from '../types';
+
+const DEFAULT_MAX_ENTRIES = 5000;
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * Key of a cached translation
+ */
+export function clientCacheKey(
+  contentType: string,
+  contentId: string,
+  locale: string,
+  sourceHash: string
+): string {
+  return `${contentType}:${contentId}:${locale}:${sourceHash}`;
+}
+
+export interface MemoryTranslationCacheOptions {
+  /**
+   * Maximum entries kept (default: 5000)
+   */
+  maxEntries?: number;
+
+  /**
+   * Entries stored longer ago than this are misses, so the database is asked
+   * again (default: 1 day)
+   */
+  maxAgeMs?: number;
+}
+
+/**
+ * In-memory cache (per browser tab), LRU-bounded
+ */
+export function createMemoryTranslationCache(
+  options: MemoryTranslationCacheOptions = {}
+): ClientTranslationCache {
+  const { maxEntries = DEFAULT_MAX_ENTRIES, maxAgeMs = DEFAULT_MAX_AGE_MS } = options;
+  // Map keeps insertion order - re-inserting on access makes the first key the least recently used
+  const entries = new Map<string, { text: string; storedAt: number }>();
+
+  return {
+    async get(keys) {
+      const found = new Map<string, string>();
+      const now = Date.now();
+      for (const key of keys) {
+        const entry = entries.get(key);
+        if (!entry) continue;
+
+        entries.delete(key);
+        if (now - entry.storedAt > maxAgeMs) continue;
+        entries.set(key, entry);
+        found.set(key, entry.text);
+      }
+      return found;
+    },
+
+    async set(newEntries) {
+      const storedAt = Date.now();
+      for (const [key, text] of Object.entries(newEntries)) {
+        entries.delete(key);
+        entries.set(key, { text, storedAt });
+      }
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+
+    async delete(keys) {
+      keys.forEach((key) => entries.delete(key));
+    },
+
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+export interface IndexedDBTranslationCacheOptions {
+  /**
+   * Database name (default: 'audarma')
+   */
+  dbName?: string;
+
+  /**
+   * Maximum entries kept (default: 5000)
+   */
+  maxEntries?: number;
+
+  /**
+   * Entries stored longer ago than this are misses, so the database is asked
+   * again (default: 1 day)
+   */
+  maxAgeMs?: number;
+}
+
+interface CacheRecord {
+  key: string;
+  text: string;
+  accessedAt: number;
+  /**
+   * Missing in records written before maxAgeMs existed - those count as expired
+   */
+  storedAt?: number;
+}
+
+const STORE = 'translations';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Attach before awaiting anything else - a transaction without pending requests completes right away
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(dbName, 1);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+    store.createIndex('accessedAt', 'accessedAt');
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * IndexedDB cache (persists across visits), LRU-bounded
+ *
+ * Falls back to an in-memory cache when IndexedDB is unavailable or fails to open.
+ */
+export function createIndexedDBTranslationCache(
+  options: IndexedDBTranslationCacheOptions = {}
+): ClientTranslationCache {
+  const { dbName = 'audarma', maxEntries = DEFAULT_MAX_ENTRIES, maxAgeMs = DEFAULT_MAX_AGE_MS } = options;
+  const fallback = createMemoryTranslationCache({ maxEntries, maxAgeMs });
+
+  // Opened lazily, so creating the cache during server rendering is harmless
+  let db: Promise<IDBDatabase | null> | null = null;
+  const getDatabase = () => {
+    if (!db) {
+      db = typeof indexedDB === 'undefined'
+        ? Promise.resolve(null)
+        : openDatabase(dbName).catch(() => null);
+    }
+    return db;
+  };
+
+  async function evict(database: IDBDatabase) {
+    const tx = database.transaction(STORE, 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore(STORE);
+    let excess = (await requestToPromise(store.count())) - maxEntries;
+
+    if (excess > 0) {
+      // Oldest access first
+      const cursorRequest = store.index('accessedAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor && excess > 0) {
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        }
+      };
+    }
+
+    await done;
+  }
+
+  return {
+    async get(keys) {
+      const database = await getDatabase();
+      if (!database) return fallback.get(keys);
+
+      const tx = database.transaction(STORE, 'readwrite');
+      const done = transactionDone(tx);
+      const store = tx.objectStore(STORE);
+      const now = Date.now();
+
+      const records = await Promise.all(
+        keys.map((key) => requestToPromise<CacheRecord | undefined>(store.get(key)))
+      );
+
+      const found = new Map<string, string>();
+      records.forEach((record) => {
+        if (!record) return;
+        if (now - (record.storedAt ?? 0) > maxAgeMs) {
+          store.delete(record.key);
+          return;
+        }
+        found.set(record.key, record.text);
+        store.put({ ...record, accessedAt: now });
+      });
+
+      await done;
+      return found;
+    },
+
+    async set(entries) {
+      const database = await getDatabase();
+      if (!database) return fallback.set(entries);
+
+      const tx = database.transaction(STORE, 'readwrite');
+      const done = transactionDone(tx);
+      const store = tx.objectStore(STORE);
+      const now = Date.now();
+
+      Object.entries(entries).forEach(([key, text]) => {
+        store.put({ key, text, accessedAt: now, storedAt: now } satisfies CacheRecord);
+      });
+
+      await done;
+      await evict(database);
+    },
+
+    async delete(keys) {
+      const database = await getDatabase();
+      if (!database) return fallback.delete(keys);
+
+      const tx = database.transaction(STORE, 'readwrite');
+      const done = transactionDone(tx);
+      const store = tx.objectStore(STORE);
+      keys.forEach((key) => store.delete(key));
+      await done;
+    },
+
+    async clear() {
+      const database = await getDatabase();
+      if (!database) return fallback.clear();
+
+      const tx = database.transaction(STORE, 'readwrite');
+      const done = transactionDone(tx);
+      tx.objectStore(STORE).clear();
+      await done;
+    },
+  };
+}
+
+// Shared by every config without a clientCache
+let defaultCache: ClientTranslationCache | null = null;
+
+/**
+ * Client cache of a config (IndexedDB unless configured, null when disabled)
+ */
+export function resolveClientCache(config: Pick<AudarConfig, 'clientCache'>): ClientTranslationCache | null {
+  if (config.clientCache === false) return null;
+  if (config.clientCache) return config.clientCache;
+  if (!defaultCache) defaultCache = createIndexedDBTranslationCache();
+  return defaultCache;
+}
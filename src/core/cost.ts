@@ -0,0 +1,183 @@
+/**
+ * Cost Accounting
+ *
+ * Turns token usage reported by LLM providers into money, using a per-model
+ * pricing table supplied in config. Also provides rough character-based token
+ * estimates for pre-flight (dry run) cost estimates.
+ *
+ * @example
+ * ```ts
+ * const pricing = {
+ *   'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+ * };
+ *
+ * const tracker = createCostTracker(pricing);
+ * await llm.translateBatch(items, 'en', 'ru', {
+ *   onUsage: (usage) => tracker.record(usage, items, 'ru'),
+ * });
+ * console.log(tracker.totals().cost);
+ * ```
+ */
+
+import type { ModelPricing, PricingTable, TokenUsage, TranslationItem } from '../types';
+
+/**
+ * Look up pricing for a model, falling back to the `'*'` entry
+ */
+export function getModelPricing(pricing: PricingTable | undefined, model?: string): ModelPricing | undefined {
+  if (!pricing) return undefined;
+  return (model && pricing[model]) || pricing['*'];
+}
+
+/**
+ * Cost of a single call in the pricing table's currency (0 if the model has no pricing)
+ */
+export function calculateCost(usage: TokenUsage, pricing: PricingTable | undefined, model?: string): number {
+  const modelPricing = getModelPricing(pricing, usage.model ?? model);
+  if (!modelPricing) return 0;
+
+  return (
+    (usage.inputTokens * modelPricing.inputPerMillion +
+      usage.outputTokens * modelPricing.outputPerMillion) / 1_000_000
+  );
+}
+
+/**
+ * Rough token count for text without a tokenizer
+ *
+ * ~4 characters per token for Latin scripts; CJK characters count as one
+ * token each, since tokenizers rarely merge them.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g)?.length ?? 0;
+  return Math.ceil((text.length - cjk) / 4) + cjk;
+}
+
+/**
+ * Estimate token usage of translating a batch, before calling the LLM
+ *
+ * @param options.outputRatio - Output tokens per input token (default: 1.3, translations tend to be longer)
+ * @param options.promptOverheadTokens - Instructions and formatting per call (default: 100)
+ */
+export function estimateBatchUsage(
+  items: TranslationItem[],
+  options: { outputRatio?: number; promptOverheadTokens?: number } = {}
+): TokenUsage {
+  const { outputRatio = 1.3, promptOverheadTokens = 100 } = options;
+  const textTokens = items.reduce((sum, item) => sum + estimateTokens(item.text), 0);
+
+  return {
+    inputTokens: textTokens + promptOverheadTokens,
+    outputTokens: Math.ceil(textTokens * outputRatio),
+  };
+}
+
+/**
+ * Accumulated usage and cost for one grouping key (locale or content type)
+ */
+export interface CostBreakdown {
+  items: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface CostTotals extends CostBreakdown {
+  byLocale: Record<string, CostBreakdown>;
+  byContentType: Record<string, CostBreakdown>;
+}
+
+export interface CostTracker {
+  /**
+   * Record usage of one translateBatch call
+   *
+   * Usage is attributed to content types in proportion to their share of the
+   * batch's source characters. Items already recorded for the locale (re-requests)
+   * add their usage but are not counted again.
+   *
+   * @returns Cost of this call
+   */
+  record(usage: TokenUsage, items: TranslationItem[], locale: string): number;
+  totals(): CostTotals;
+}
+
+function emptyBreakdown(): CostBreakdown {
+  return { items: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+function addTo(
+  target: CostBreakdown,
+  items: number,
+  inputTokens: number,
+  outputTokens: number,
+  cost: number
+) {
+  target.items += items;
+  target.inputTokens += inputTokens;
+  target.outputTokens += outputTokens;
+  target.cost += cost;
+}
+
+/**
+ * Create a tracker that sums usage and cost per locale and per content type
+ *
+ * @param pricing - Per-model pricing (calls for unpriced models count tokens but cost 0)
+ * @param model - Model to price usage that does not name one
+ */
+export function createCostTracker(pricing?: PricingTable, model?: string): CostTracker {
+  const totals: CostTotals = { ...emptyBreakdown(), byLocale: {}, byContentType: {} };
+  const counted = new Set<string>();
+
+  return {
+    record(usage, items, locale) {
+      const cost = calculateCost(usage, pricing, model);
+      const isNew = items.map((item) => {
+        const key = `${locale}:${item.contentType}:${item.contentId}`;
+        if (counted.has(key)) return false;
+        counted.add(key);
+        return true;
+      });
+      const newItems = isNew.filter(Boolean).length;
+
+      addTo(totals, newItems, usage.inputTokens, usage.outputTokens, cost);
+      totals.byLocale[locale] = totals.byLocale[locale] || emptyBreakdown();
+      addTo(totals.byLocale[locale], newItems, usage.inputTokens, usage.outputTokens, cost);
+
+      // Split across content types by share of source characters
+      const totalChars = items.reduce((sum, item) => sum + item.text.length, 0);
+      const byType = new Map<string, { items: number; newItems: number; chars: number }>();
+      items.forEach((item, idx) => {
+        const entry = byType.get(item.contentType) || { items: 0, newItems: 0, chars: 0 };
+        entry.items += 1;
+        if (isNew[idx]) entry.newItems += 1;
+        entry.chars += item.text.length;
+        byType.set(item.contentType, entry);
+      });
+
+      for (const [contentType, { items: count, newItems: newCount, chars }] of byType) {
+        const share = totalChars > 0 ? chars / totalChars : count / items.length;
+        totals.byContentType[contentType] = totals.byContentType[contentType] || emptyBreakdown();
+        addTo(
+          totals.byContentType[contentType],
+          newCount,
+          usage.inputTokens * share,
+          usage.outputTokens * share,
+          cost * share
+        );
+      }
+
+      return cost;
+    },
+
+    totals() {
+      return totals;
+    },
+  };
+}
+
+/**
+ * Format a cost for logs (more precision for tiny amounts)
+ */
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
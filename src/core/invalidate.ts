@@ -0,0 +1,96 @@
+/**
+ * Cache Invalidation
+ *
+ * Forces re-translation of stored content, e.g. after fixing a glossary term:
+ * deletes matching rows through DatabaseAdapter.deleteTranslations and clears
+ * client-side state (view metadata and the client translation cache) so
+ * views re-check the database on their next mount.
+ *
+ * @example
+ * ```ts
+ * // One product, every locale
+ * await invalidate(config, { contentType: 'product_title', contentIds: ['123'] });
+ *
+ * // A whole content type in two locales, only the feed view's metadata
+ * await invalidate(config, { contentType: 'product_description', locales: ['ru', 'kk'] }, { views: ['feed'] });
+ * ```
+ */
+
+import type { AudarConfig, TranslationFilter } from '../types';
+import { resolveMetadataStore } from './metadata-store';
+import { resolveClientCache } from './client-cache';
+
+export type InvalidateConfig = Pick<AudarConfig, 'database'> &
+  Partial<Pick<AudarConfig, 'i18n' | 'metadataStore' | 'clientCache' | 'debug'>>;
+
+export interface InvalidateOptions {
+  /**
+   * Views whose metadata to clear (default: all view metadata).
+   * Metadata is cleared per locale in `filter.locales`, or per supported
+   * locale of `config.i18n`.
+   */
+  views?: string[];
+}
+
+export interface InvalidationResult {
+  /**
+   * Deleted database rows
+   */
+  deleted: number;
+}
+
+/**
+ * Delete translations matching the filter and clear client-side caches
+ *
+ * Client-side state is only cleared in the environment this runs in - when
+ * called on a server, other browsers keep serving cached translations until
+ * their client cache entries expire (`maxAgeMs`, 1 day by default). Views
+ * whose rows are gone then re-translate, even if their metadata matches.
+ *
+ * @throws If the adapter does not implement deleteTranslations, or the filter
+ *   is empty (which would delete every translation)
+ */
+export async function invalidate(
+  config: InvalidateConfig,
+  filter: TranslationFilter,
+  options: InvalidateOptions = {}
+): Promise<InvalidationResult> {
+  const { database, debug } = config;
+
+  if (!database.deleteTranslations) {
+    throw new Error(
+      'DatabaseAdapter does not support invalidation. ' +
+      'Please implement deleteTranslations() method.'
+    );
+  }
+
+  if (!filter.contentType && !filter.contentIds?.length && !filter.locales?.length) {
+    throw new Error(
+      'Refusing to invalidate every translation. ' +
+      'Pass at least one of contentType, contentIds or locales.'
+    );
+  }
+
+  const deleted = await database.deleteTranslations(filter);
+
+  // Views re-check the database on next mount instead of trusting their content hash
+  const metadataStore = resolveMetadataStore(config);
+  const locales = filter.locales ?? config.i18n?.getSupportedLocales();
+
+  if (options.views && locales) {
+    await Promise.all(
+      options.views.flatMap((view) => locales.map((locale) => metadataStore.delete(view, locale)))
+    );
+  } else {
+    await metadataStore.clear();
+  }
+
+  // Client cache keys include source hashes we cannot enumerate here - clear it all
+  await resolveClientCache(config)?.clear().catch(() => undefined);
+
+  if (debug) {
+    console.log(`[Audar] Invalidated ${deleted} translations`, filter);
+  }
+
+  return { deleted };
+}
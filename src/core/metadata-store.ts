@@ -0,0 +1,249 @@
+/**
+ * Metadata Stores
+ *
+ * Where ViewTranslationProvider remembers which version of a view (content
+ * hash) it last translated. localStorage by default; sessionStorage, memory
+ * and no-op stores cover SSR, React Native, tests and privacy-sensitive apps.
+ *
+ * Web storage stores never throw: unavailable storage (server rendering,
+ * blocked cookies) falls back to memory, and quota errors trigger housekeeping
+ * and one retry before the write is dropped. Entries older than `maxAgeMs`
+ * are expired on first write and whenever `expire()` is called.
+ *
+ * @example
+ * ```ts
+ * const config: AudarConfig = {
+ *   ...adapters,
+ *   metadataStore: createSessionStorageMetadataStore({ maxAgeMs: 60 * 60 * 1000 }),
+ * };
+ * ```
+ */
+
+import type { AudarConfig, MetadataStore, ViewTranslationMetadata } from '../types';
+
+const DEFAULT_PREFIX = 'translation_metadata_';
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export interface MetadataStoreOptions {
+  /**
+   * Expire entries last translated longer ago than this (default: 30 days)
+   */
+  maxAgeMs?: number;
+}
+
+export interface WebStorageMetadataStoreOptions extends MetadataStoreOptions {
+  /**
+   * Key prefix (default: 'translation_metadata_', as written by earlier versions)
+   */
+  prefix?: string;
+}
+
+function isExpired(metadata: ViewTranslationMetadata, maxAgeMs: number, now: number): boolean {
+  const translatedAt = Date.parse(metadata.lastTranslated);
+  return Number.isNaN(translatedAt) || now - translatedAt > maxAgeMs;
+}
+
+/**
+ * In-memory store (per page load)
+ */
+export function createMemoryMetadataStore(options: MetadataStoreOptions = {}): MetadataStore {
+  const { maxAgeMs = DEFAULT_MAX_AGE_MS } = options;
+  const entries = new Map<string, ViewTranslationMetadata>();
+  const key = (viewName: string, locale: string) => `${viewName}_${locale}`;
+
+  return {
+    async get(viewName, locale) {
+      return entries.get(key(viewName, locale)) ?? null;
+    },
+
+    async set(viewName, locale, metadata) {
+      entries.set(key(viewName, locale), metadata);
+    },
+
+    async delete(viewName, locale) {
+      entries.delete(key(viewName, locale));
+    },
+
+    async clear() {
+      entries.clear();
+    },
+
+    async expire(maxAge = maxAgeMs) {
+      const now = Date.now();
+      let removed = 0;
+      for (const [entryKey, metadata] of entries) {
+        if (isExpired(metadata, maxAge, now)) {
+          entries.delete(entryKey);
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+}
+
+/**
+ * Store that remembers nothing - every mount checks the database
+ */
+export function createNoopMetadataStore(): MetadataStore {
+  return {
+    async get() {
+      return null;
+    },
+    async set() {},
+    async delete() {},
+    async clear() {},
+    async expire() {
+      return 0;
+    },
+  };
+}
+
+function isQuotaError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+      /quota/i.test(error.message))
+  );
+}
+
+/**
+ * Store backed by a Web Storage object, resolved lazily
+ */
+function createWebStorageMetadataStore(
+  getStorage: () => Storage | undefined,
+  options: WebStorageMetadataStoreOptions
+): MetadataStore {
+  const { prefix = DEFAULT_PREFIX, maxAgeMs = DEFAULT_MAX_AGE_MS } = options;
+  const fallback = createMemoryMetadataStore({ maxAgeMs });
+  let housekeepingDone = false;
+
+  // Accessing window.localStorage itself throws when storage is blocked
+  const storage = (): Storage | null => {
+    try {
+      return getStorage() ?? null;
+    } catch {
+      return null;
+    }
+  };
+
+  const storageKey = (viewName: string, locale: string) => `${prefix}${viewName}_${locale}`;
+
+  const ownKeys = (store: Storage): string[] => {
+    const keys: string[] = [];
+    for (let i = 0; i < store.length; i++) {
+      const key = store.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  };
+
+  async function expire(maxAge = maxAgeMs): Promise<number> {
+    const store = storage();
+    if (!store) return fallback.expire(maxAge);
+
+    const now = Date.now();
+    let removed = 0;
+
+    for (const key of ownKeys(store)) {
+      try {
+        const metadata: ViewTranslationMetadata = JSON.parse(store.getItem(key) || '');
+        if (!isExpired(metadata, maxAge, now)) continue;
+      } catch {
+        // Unparsable entries are dropped too
+      }
+      store.removeItem(key);
+      removed++;
+    }
+
+    return removed;
+  }
+
+  return {
+    async get(viewName, locale) {
+      const store = storage();
+      if (!store) return fallback.get(viewName, locale);
+
+      try {
+        const raw = store.getItem(storageKey(viewName, locale));
+        return raw ? JSON.parse(raw) : null;
+      } catch {
+        return null;
+      }
+    },
+
+    async set(viewName, locale, metadata) {
+      const store = storage();
+      if (!store) return fallback.set(viewName, locale, metadata);
+
+      if (!housekeepingDone) {
+        housekeepingDone = true;
+        await expire().catch(() => 0);
+      }
+
+      const key = storageKey(viewName, locale);
+      const value = JSON.stringify(metadata);
+
+      try {
+        store.setItem(key, value);
+      } catch (error) {
+        if (!isQuotaError(error)) return;
+
+        // Storage is full - drop expired entries and retry once, else skip the write
+        try {
+          await expire();
+          store.setItem(key, value);
+        } catch {
+          // Metadata is only an optimization - the view is re-checked next visit
+        }
+      }
+    },
+
+    async delete(viewName, locale) {
+      const store = storage();
+      if (!store) return fallback.delete(viewName, locale);
+      store.removeItem(storageKey(viewName, locale));
+    },
+
+    async clear() {
+      const store = storage();
+      if (!store) return fallback.clear();
+      ownKeys(store).forEach((key) => store.removeItem(key));
+    },
+
+    expire,
+  };
+}
+
+/**
+ * localStorage store (default) - metadata persists across visits
+ */
+export function createLocalStorageMetadataStore(options: WebStorageMetadataStoreOptions = {}): MetadataStore {
+  return createWebStorageMetadataStore(
+    () => (typeof window === 'undefined' ? undefined : window.localStorage),
+    options
+  );
+}
+
+/**
+ * sessionStorage store - metadata lasts for the browser tab
+ */
+export function createSessionStorageMetadataStore(options: WebStorageMetadataStoreOptions = {}): MetadataStore {
+  return createWebStorageMetadataStore(
+    () => (typeof window === 'undefined' ? undefined : window.sessionStorage),
+    options
+  );
+}
+
+// Shared by every config without a metadataStore
+let defaultStore: MetadataStore | null = null;
+
+/**
+ * Metadata store of a config (localStorage unless configured)
+ */
+export function resolveMetadataStore(config: Pick<AudarConfig, 'metadataStore'>): MetadataStore {
+  if (config.metadataStore) return config.metadataStore;
+  if (!defaultStore) defaultStore = createLocalStorageMetadataStore();
+  return defaultStore;
+}
@@ -0,0 +1,230 @@
+/**
+ * Translation Pipeline
+ *
+ * Adapter-level building blocks shared by everything that resolves
+ * translations outside the React tree (route handler, server rendering):
+ * view content hashing, cache lookup with stale detection, and
+ * translate-then-save.
+ */
+
+import type {
+  BudgetConfig,
+  DatabaseAdapter,
+  LLMProvider,
+  PricingTable,
+  StoredTranslation,
+  TokenUsage,
+  TranslationItem,
+} from '../types';
+import crypto from 'crypto-js';
+import { hashSourceText, sourceHashMatches } from './source-hash';
+import { createCostTracker, type CostTotals } from './cost';
+import { createBudgetGuard } from './budget';
+import { translateWithRecovery, type RejectedTranslation } from './response-validation';
+
+/**
+ * Cache key for an item ("contentType:contentId")
+ */
+export function translationKey(contentType: string, contentId: string): string {
+  return `${contentType}:${contentId}`;
+}
+
+/**
+ * Hash of a view's items (content IDs + texts), order-independent
+ *
+ * Used for view metadata and to match server-resolved translations to the
+ * items the client renders.
+ */
+export function hashViewContent(items: TranslationItem[]): string {
+  const contentString = items
+    .map((item) => `${item.contentType}:${item.contentId}:${item.text}`)
+    .sort()
+    .join('|');
+  return crypto.SHA256(contentString).toString().substring(0, 16);
+}
+
+export interface CacheLookup {
+  /**
+   * Up-to-date translations by key
+   */
+  cached: Record<string, string>;
+  /**
+   * Translations of an older version of the source text, by key
+   */
+  stale: Record<string, string>;
+  /**
+   * Items needing translation (missing or stale), in input order
+   */
+  uncachedItems: TranslationItem[];
+}
+
+/**
+ * Fetch cached translations and split items into fresh, stale and missing
+ */
+export async function lookupCachedTranslations(
+  database: DatabaseAdapter,
+  items: TranslationItem[],
+  locale: string
+): Promise<CacheLookup> {
+  const lookup: CacheLookup = { cached: {}, stale: {}, uncachedItems: [] };
+
+  if (items.length === 0) {
+    return lookup;
+  }
+
+  const rows = await database.getCachedTranslations(items, locale);
+  const rowMap = new Map(rows.map((r) => [translationKey(r.content_type, r.content_id), r]));
+
+  for (const item of items) {
+    const key = translationKey(item.contentType, item.contentId);
+    const row = rowMap.get(key);
+
+    if (row && sourceHashMatches(row.source_hash, item.text)) {
+      lookup.cached[key] = row.translated_text;
+    } else {
+      lookup.uncachedItems.push(item);
+      if (row) {
+        lookup.stale[key] = row.translated_text;
+      }
+    }
+  }
+
+  return lookup;
+}
+
+export interface TranslateAndSaveOptions {
+  database: DatabaseAdapter;
+  llm: LLMProvider;
+  items: TranslationItem[];
+  sourceLocale: string;
+  targetLocale: string;
+  pricing?: PricingTable;
+  budget?: BudgetConfig;
+  debug?: boolean;
+  /**
+   * Called as each translation arrives (providers with translateBatchStream)
+   */
+  onTranslation?: (item: TranslationItem, text: string) => void;
+  /**
+   * Re-requests of items the LLM left missing or invalid (default: 1)
+   */
+  retries?: number;
+  /**
+   * Items whose translation may equal the source text (default: none)
+   */
+  acceptIdentical?: (item: TranslationItem) => boolean;
+}
+
+export interface TranslateAndSaveResult {
+  /**
+   * Translations by key (empty when the budget denied the call)
+   */
+  translations: Record<string, string>;
+  /**
+   * Reported usage and cost, per locale and content type
+   */
+  costs: CostTotals;
+  /**
+   * Items without a valid translation (not saved)
+   */
+  rejected: RejectedTranslation[];
+  /**
+   * Budget limit that blocked translation, if any
+   */
+  budgetExceeded?: string;
+}
+
+/**
+ * Translate items with the LLM and save the results to the database
+ *
+ * Streams through llm.translateBatchStream when the provider has it. Each
+ * result is validated and missing or invalid items are re-requested once;
+ * empty output is never saved. If a stream fails midway,
+ * translations received so far are still saved.
+ */
+export async function translateAndSave(options: TranslateAndSaveOptions): Promise<TranslateAndSaveResult> {
+  const {
+    database,
+    llm,
+    items,
+    sourceLocale,
+    targetLocale,
+    pricing,
+    budget,
+    debug,
+    onTranslation,
+    retries,
+    acceptIdentical,
+  } = options;
+
+  const costs = createCostTracker(pricing, llm.model);
+
+  if (items.length === 0) {
+    return { translations: {}, costs: costs.totals(), rejected: [] };
+  }
+
+  const decision = budget ? await createBudgetGuard(budget, debug).reserve(items, targetLocale) : null;
+  if (decision && !decision.allowed) {
+    return { translations: {}, costs: costs.totals(), rejected: [], budgetExceeded: decision.exceeded };
+  }
+
+  // Usage of the call and any re-requests, settled against the reservation once
+  const used: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let reported = false;
+
+  const translations: Record<string, string> = {};
+  const translated: StoredTranslation[] = [];
+
+  const accept = (item: TranslationItem, text: string) => {
+    const key = translationKey(item.contentType, item.contentId);
+    if (key in translations) return;
+
+    translations[key] = text;
+    onTranslation?.(item, text);
+
+    translated.push({
+      content_type: item.contentType,
+      content_id: item.contentId,
+      locale: targetLocale,
+      original_text: item.text,
+      translated_text: text,
+      source_hash: hashSourceText(item.text),
+    });
+  };
+
+  let rejected: RejectedTranslation[];
+  let failed = false;
+  try {
+    ({ rejected } = await translateWithRecovery(llm, items, sourceLocale, targetLocale, {
+      retries,
+      debug,
+      acceptIdentical,
+      onTranslation: accept,
+      onUsage: (usage, requested) => {
+        costs.record(usage, requested, targetLocale);
+        reported = true;
+        used.inputTokens += usage.inputTokens;
+        used.outputTokens += usage.outputTokens;
+      },
+    }));
+  } catch (error) {
+    failed = true;
+    // Keep what was paid for, then let the caller handle the failure
+    if (translated.length > 0) {
+      await database.saveTranslations(translated).catch(() => undefined);
+    }
+    throw error;
+  } finally {
+    // Without reported usage the estimate stands, unless the call failed (refund it).
+    // An open circuit reports zero usage, as nothing was sent.
+    if (failed || reported) {
+      await decision?.settle(used);
+    }
+  }
+
+  if (translated.length > 0) {
+    await database.saveTranslations(translated);
+  }
+
+  return { translations, costs: costs.totals(), rejected };
+}
@@ -0,0 +1,575 @@
+/**
+ * Resilience
+ *
+ * withResilience() wraps any LLMProvider with per-request timeouts
+ * (AbortController), retries with jittered exponential backoff that honours
+ * `Retry-After`, a concurrency limit and a circuit breaker. While the circuit
+ * is open, requests short-circuit to an answer without translations (callers
+ * keep the source text, nothing is saved) instead of piling onto a failing API.
+ *
+ * @example
+ * ```ts
+ * import { withResilience } from 'audarma';
+ *
+ * const llm = withResilience(createOpenAIProvider({ apiKey }), {
+ *   timeoutMs: 30_000,
+ *   retry: { maxRetries: 4 },
+ *   concurrency: 2,
+ *   circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 60_000 },
+ * });
+ * ```
+ *
+ * Providers make failures classifiable by throwing LLMRequestError (see
+ * LLMRequestError.fromResponse); errors with a numeric `status` and
+ * `headers`, like those of the official SDKs, work too.
+ *
+ * AudarProvider, createAudarmaRouteHandler and getViewTranslations apply it
+ * to their `llm` by default (see `resilience`).
+ */
+
+import type {
+  AudarConfig,
+  LLMProvider,
+  ResilienceOptions,
+  RetryOptions,
+  StreamedTranslation,
+  TranslateBatchOptions,
+  TranslationItem,
+} from '../types';
+
+/**
+ * Failed LLM API request
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+
+  /**
+   * Error for a non-OK response, keeping its status and `Retry-After`
+   *
+   * @example
+   * ```ts
+   * if (!response.ok) {
+   *   throw await LLMRequestError.fromResponse('OpenAI', response);
+   * }
+   * ```
+   */
+  static async fromResponse(provider: string, response: Response): Promise<LLMRequestError> {
+    const body = await response.text().catch(() => '');
+    return new LLMRequestError(
+      `${provider} API error: ${response.status} ${body}`,
+      response.status,
+      retryAfterFromHeaders(response.headers)
+    );
+  }
+}
+
+/**
+ * A request exceeded ResilienceOptions.timeoutMs
+ */
+export class LLMTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM request timed out after ${timeoutMs}ms`);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+/**
+ * A request was short-circuited because the circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAfterMs: number) {
+    super(`LLM circuit breaker is open - retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Parse a `Retry-After` value (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+type HeaderSource = Headers | Record<string, string | undefined>;
+
+function retryAfterFromHeaders(headers: HeaderSource | undefined): number | undefined {
+  if (!headers) return undefined;
+
+  const get = (name: string) =>
+    typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get(name)
+      : (headers as Record<string, string | undefined>)[name];
+
+  // OpenAI also sends the more precise retry-after-ms
+  const ms = get('retry-after-ms');
+  if (ms && Number.isFinite(Number(ms))) {
+    return Math.max(0, Number(ms));
+  }
+  return parseRetryAfter(get('retry-after'));
+}
+
+function errorStatus(error: unknown): number | undefined {
+  const { status, statusCode } = (error ?? {}) as { status?: unknown; statusCode?: unknown };
+  const value = status ?? statusCode;
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Delay the server asked for, from LLMRequestError, CircuitOpenError or an
+ * SDK error's headers
+ */
+export function retryAfterOf(error: unknown): number | undefined {
+  const { retryAfterMs, headers } = (error ?? {}) as { retryAfterMs?: unknown; headers?: HeaderSource };
+  if (typeof retryAfterMs === 'number') return retryAfterMs;
+  return retryAfterFromHeaders(headers);
+}
+
+/**
+ * Default transient-failure check: timeouts, network errors, 408, 429 and 5xx
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError) return true;
+  if (error instanceof CircuitOpenError) return false;
+
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  // fetch rejects with a TypeError when the network fails
+  return error instanceof TypeError;
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): exponential with jitter,
+ * but never shorter than the `Retry-After` the error carries
+ *
+ * @returns Delay in ms, or undefined when Retry-After exceeds maxRetryAfterMs
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = {}, error?: unknown): number | undefined {
+  const { baseDelayMs = 1000, maxDelayMs = 30000, maxRetryAfterMs = 60000 } = options;
+
+  // "Equal jitter": half fixed, half random, so retries spread out but still back off
+  const exponential = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+
+  const retryAfter = retryAfterOf(error);
+  if (retryAfter === undefined) return Math.round(jittered);
+  if (retryAfter > maxRetryAfterMs) return undefined;
+  return Math.round(Math.max(retryAfter, jittered));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run fn, retrying failures with jittered exponential backoff
+ *
+ * Waits at least as long as an error's `Retry-After`; a longer one than
+ * `maxRetryAfterMs` stops retrying.
+ */
+export async function retryWithBackoff<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions & {
+    isRetryable?: (error: unknown) => boolean;
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<T> {
+  const { maxRetries = 3, isRetryable = () => true, onRetry, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const delayMs = attempt < maxRetries && !signal?.aborted && isRetryable(error)
+        ? backoffDelay(attempt + 1, options, error)
+        : undefined;
+      if (delayMs === undefined) {
+        throw error;
+      }
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Counting semaphore
+ */
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return {
+    async acquire(): Promise<() => void> {
+      if (active >= concurrency) {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      } else {
+        active++;
+      }
+
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        // Hand the slot straight to the next waiter, or free it
+        const next = waiting.shift();
+        if (next) next();
+        else active--;
+      };
+    },
+  };
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+function createCircuitBreaker(failureThreshold: number, resetTimeoutMs: number, debug?: boolean) {
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const transition = (next: CircuitState) => {
+    if (debug && next !== state) {
+      console.warn(`[Audar] LLM circuit breaker ${state} → ${next}`);
+    }
+    state = next;
+  };
+
+  return {
+    /**
+     * Permission to send a request, or the time until the next trial
+     */
+    admit(): { allowed: true; trial: boolean } | { allowed: false; retryAfterMs: number } {
+      if (state === 'open') {
+        const remaining = openedAt + resetTimeoutMs - Date.now();
+        if (remaining > 0) return { allowed: false, retryAfterMs: remaining };
+        transition('half-open');
+      }
+
+      if (state === 'half-open') {
+        // One trial request at a time decides whether the API is back
+        if (trialInFlight) return { allowed: false, retryAfterMs: resetTimeoutMs };
+        trialInFlight = true;
+        return { allowed: true, trial: true };
+      }
+
+      return { allowed: true, trial: false };
+    },
+
+    success(trial: boolean) {
+      if (trial) trialInFlight = false;
+      failures = 0;
+      transition('closed');
+    },
+
+    /**
+     * The caller gave up; the request says nothing about the API
+     */
+    cancel(trial: boolean) {
+      if (trial) trialInFlight = false;
+    },
+
+    failure(trial: boolean, transient: boolean) {
+      if (trial) trialInFlight = false;
+
+      if (!transient) {
+        // The API answered - a bad request says nothing about an outage
+        if (trial) transition('closed');
+        return;
+      }
+
+      failures++;
+      if (trial || failures >= failureThreshold) {
+        openedAt = Date.now();
+        transition('open');
+      }
+    },
+  };
+}
+
+/**
+ * Abort controller when the optional outer signal aborts
+ *
+ * @returns Function removing the link
+ */
+function linkSignal(outer: AbortSignal | undefined, controller: AbortController): () => void {
+  if (!outer) return () => undefined;
+
+  const onAbort = () => controller.abort(outer.reason);
+  if (outer.aborted) onAbort();
+  else outer.addEventListener('abort', onAbort, { once: true });
+  return () => outer.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Race a promise against the timeout, aborting the request when it fires
+ */
+async function raceTimeout<T>(promise: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> {
+  if (timeoutMs <= 0) return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new LLMTimeoutError(timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Providers returned by withResilience()
+const resilientProviders = new WeakSet<LLMProvider>();
+
+/**
+ * Whether the provider was wrapped by withResilience()
+ */
+export function isResilient(provider: LLMProvider): boolean {
+  return resilientProviders.has(provider);
+}
+
+/**
+ * Wrap an LLMProvider with timeouts, retries, a concurrency limit and a
+ * circuit breaker
+ */
+export function withResilience(provider: LLMProvider, options: ResilienceOptions = {}): LLMProvider {
+  const {
+    timeoutMs = 60000,
+    retry = {},
+    concurrency,
+    circuitBreaker = {},
+    isRetryable = isTransientError,
+    onRetry,
+    debug,
+  } = options;
+
+  const limiter = concurrency && concurrency > 0 ? createLimiter(concurrency) : null;
+  const breaker = circuitBreaker
+    ? createCircuitBreaker(circuitBreaker.failureThreshold ?? 5, circuitBreaker.resetTimeoutMs ?? 30000, debug)
+    : null;
+  const whenOpen = circuitBreaker ? circuitBreaker.whenOpen ?? 'source' : 'throw';
+
+  const retryOptions = {
+    ...(retry || { maxRetries: 0 }),
+    // An open circuit ends retries - there is no point waiting it out here
+    isRetryable: (error: unknown) => !(error instanceof CircuitOpenError) && isRetryable(error),
+    onRetry: (attempt: number, delayMs: number, error: unknown) => {
+      if (debug) {
+        console.warn(
+          `[Audar] LLM request failed (${error instanceof Error ? error.message : error}), ` +
+          `retry ${attempt} in ${(delayMs / 1000).toFixed(1)}s`
+        );
+      }
+      onRetry?.(attempt, delayMs, error);
+    },
+  };
+
+  function recordFailure(trial: boolean, error: unknown, outer?: AbortSignal) {
+    // A caller's own abort is not the API's fault
+    if (outer?.aborted) breaker?.cancel(trial);
+    else breaker?.failure(trial, isRetryable(error));
+  }
+
+  /**
+   * One attempt: breaker admission, timeout and failure bookkeeping. The
+   * caller records success, so a stream only counts once it has finished.
+   */
+  async function attempt<T>(
+    run: (controller: AbortController) => Promise<T>,
+    outer?: AbortSignal
+  ): Promise<{ result: T; trial: boolean }> {
+    // The provider would never see the abort event of an already aborted signal
+    if (outer?.aborted) {
+      throw outer.reason;
+    }
+
+    const admission = breaker ? breaker.admit() : { allowed: true as const, trial: false };
+    if (!admission.allowed) {
+      throw new CircuitOpenError(admission.retryAfterMs);
+    }
+
+    const controller = new AbortController();
+    const unlink = linkSignal(outer, controller);
+    try {
+      const result = await raceTimeout(run(controller), timeoutMs, controller);
+      return { result, trial: admission.trial };
+    } catch (error) {
+      recordFailure(admission.trial, error, outer);
+      throw error;
+    } finally {
+      unlink();
+    }
+  }
+
+  const resilient: LLMProvider = {
+    model: provider.model,
+
+    async translateBatch(items, sourceLocale, targetLocale, callOptions) {
+      if (items.length === 0) return [];
+
+      const release = await limiter?.acquire();
+      try {
+        const { result, trial } = await retryWithBackoff(
+          () => attempt(
+            ({ signal }) => provider.translateBatch(items, sourceLocale, targetLocale, { ...callOptions, signal }),
+            callOptions?.signal
+          ),
+          { ...retryOptions, signal: callOptions?.signal }
+        );
+        breaker?.success(trial);
+        return result;
+      } catch (error) {
+        // No translations: callers keep the source text, and nothing is saved.
+        // Nothing was sent either, which the zero usage tells budget guards.
+        if (error instanceof CircuitOpenError && whenOpen === 'source') {
+          callOptions?.onUsage?.({ inputTokens: 0, outputTokens: 0 });
+          return items.map(() => undefined);
+        }
+        throw error;
+      } finally {
+        release?.();
+      }
+    },
+  };
+
+  if (provider.translateBatchStream) {
+    const stream = provider.translateBatchStream.bind(provider);
+
+    resilient.translateBatchStream = async function* (
+      items: TranslationItem[],
+      sourceLocale: string,
+      targetLocale: string,
+      callOptions?: TranslateBatchOptions
+    ): AsyncGenerator<StreamedTranslation> {
+      if (items.length === 0) return;
+
+      const release = await limiter?.acquire();
+      try {
+        yield* resilientStream(items, sourceLocale, targetLocale, callOptions);
+      } catch (error) {
+        if (error instanceof CircuitOpenError && whenOpen === 'source') {
+          callOptions?.onUsage?.({ inputTokens: 0, outputTokens: 0 });
+          return;
+        }
+        throw error;
+      } finally {
+        release?.();
+      }
+    };
+
+    /**
+     * Retry until the first translation arrives; after that a failure is
+     * final, as the caller already has part of the batch. The timeout
+     * applies to each wait for the next translation, and the circuit breaker
+     * counts the stream's outcome once it ends.
+     */
+    async function* resilientStream(
+      items: TranslationItem[],
+      sourceLocale: string,
+      targetLocale: string,
+      callOptions?: TranslateBatchOptions
+    ): AsyncGenerator<StreamedTranslation> {
+      let iterator: AsyncIterator<StreamedTranslation> | undefined;
+      let controller: AbortController | undefined;
+
+      const { result: first, trial } = await retryWithBackoff(
+        () => attempt(async (attemptController) => {
+          controller = attemptController;
+          iterator = stream(items, sourceLocale, targetLocale, { ...callOptions, signal: controller.signal })[Symbol.asyncIterator]();
+          return iterator.next();
+        }, callOptions?.signal),
+        { ...retryOptions, signal: callOptions?.signal }
+      );
+
+      if (first.done) {
+        breaker?.success(trial);
+        return;
+      }
+
+      // Keep the successful attempt's controller: it is the one the provider's request listens to
+      const unlink = linkSignal(callOptions?.signal, controller!);
+      let failed = false;
+      let done = false;
+      try {
+        yield first.value;
+        while (true) {
+          const next = await raceTimeout(iterator!.next(), timeoutMs, controller!);
+          if (next.done) break;
+          yield next.value;
+        }
+        done = true;
+      } catch (error) {
+        failed = true;
+        recordFailure(trial, error, callOptions?.signal);
+        throw error;
+      } finally {
+        unlink();
+        // Finished, or the consumer stopped reading while the API was answering
+        if (!failed) breaker?.success(trial);
+        // A consumer that stops early leaves the provider's stream open - close
+        // it, or its HTTP response is never released
+        if (!done) {
+          await iterator!.return?.().catch(() => undefined);
+        }
+      }
+    }
+  }
+
+  resilientProviders.add(resilient);
+  return resilient;
+}
+
+// Wrappers by the provider they wrap, so all views (and server code) share one circuit breaker
+const lazyProviders = new WeakMap<LLMProvider, LLMProvider>();
+
+/**
+ * LLM provider of a config for lazy translation and server code: `llm` wrapped in
+ * withResilience() unless it already is or `resilience` is false. The
+ * options are read when a provider is first wrapped.
+ */
+export function resolveLLMProvider(config: Pick<AudarConfig, 'llm' | 'resilience' | 'debug'>): LLMProvider {
+  const { llm, resilience } = config;
+  if (resilience === false || isResilient(llm)) return llm;
+
+  let wrapped = lazyProviders.get(llm);
+  if (!wrapped) {
+    wrapped = withResilience(llm, { debug: config.debug, ...resilience });
+    lazyProviders.set(llm, wrapped);
+  }
+  return wrapped;
+}
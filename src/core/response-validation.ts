@@ -0,0 +1,239 @@
+/**
+ * Response Validation
+ *
+ * Everything between the LLM's answer and saveTranslations. Providers align
+ * output to items by id instead of position: keyedBatch() builds the prompt
+ * payload, the model echoes the ids, and alignTranslations() places each
+ * answer on its item, leaving gaps where the model skipped one.
+ * translateWithRecovery() then validates every item, re-requests only the
+ * missing or invalid ones, and never hands empty or undefined output on to
+ * be saved. Source-identical output is re-requested like any other invalid
+ * output and never accepted, unless the source has no letters (numbers,
+ * prices) or `acceptIdentical` allows it (brand names, model numbers).
+ *
+ * @example
+ * ```ts
+ * // Provider side: ids in, ids out
+ * const prompt = JSON.stringify(keyedBatch(items.map((item) => item.text)));
+ * // model answers {"1": "...", "3": "..."}
+ * return parseKeyedTranslations(content, items.length); // ['...', undefined, '...']
+ *
+ * // Caller side
+ * const { translations, rejected } = await translateWithRecovery(llm, items, 'en', 'ru');
+ * ```
+ */
+
+import type { LLMProvider, StreamedTranslation, TokenUsage, TranslationItem } from '../types';
+import { createJsonObjectStreamParser } from './streaming';
+
+/**
+ * Why an item's output was not accepted as a translation
+ * - missing: the model returned nothing for the item
+ * - invalid: the output was not a string
+ * - empty: the output was empty or whitespace
+ * - untranslated: the output equals a source text that has letters to translate
+ * - misaligned: positional output of the wrong length, so no item could be trusted
+ */
+export type RejectionReason = 'missing' | 'invalid' | 'empty' | 'untranslated' | 'misaligned';
+
+export interface RejectedTranslation {
+  item: TranslationItem;
+  reason: RejectionReason;
+}
+
+export interface AcceptedTranslation {
+  item: TranslationItem;
+  text: string;
+}
+
+/**
+ * Texts keyed by 1-based position ({"1": "...", "2": "..."}), for prompts
+ * whose answer echoes the same ids
+ */
+export function keyedBatch(texts: string[]): Record<string, string> {
+  return Object.fromEntries(texts.map((text, i) => [String(i + 1), text]));
+}
+
+/**
+ * Place parsed translations on their items
+ *
+ * Indexes outside the batch are dropped and the first answer for an index
+ * wins. Items without an answer are left undefined.
+ */
+export function alignTranslations(
+  translations: Iterable<StreamedTranslation>,
+  itemCount: number
+): Array<string | undefined> {
+  const aligned: Array<string | undefined> = Array.from({ length: itemCount }, () => undefined);
+
+  for (const { index, text } of translations) {
+    if (Number.isInteger(index) && index >= 0 && index < itemCount && aligned[index] === undefined) {
+      aligned[index] = text;
+    }
+  }
+
+  return aligned;
+}
+
+const POSITIONAL_ANSWER = /^[^{[]*(\[|\{\s*"[^"]*"\s*:\s*\[)/;
+
+/**
+ * Parse a complete keyed answer (`{"1": "...", ...}`, optionally fenced or
+ * wrapped) into translations aligned with the batch
+ */
+export function parseKeyedTranslations(content: string, itemCount: number): Array<string | undefined> {
+  const parser = createJsonObjectStreamParser();
+  const parsed = [...parser.push(content), ...parser.end()];
+
+  // A model that ignored the ids and answered with an array (bare or
+  // wrapped) can only be trusted when the count matches
+  if (POSITIONAL_ANSWER.test(content) && parsed.length !== itemCount) {
+    return Array.from({ length: itemCount }, () => undefined);
+  }
+
+  return alignTranslations(parsed, itemCount);
+}
+
+const LETTER = /\p{L}/u;
+
+/**
+ * Check one item's output
+ *
+ * Output equal to a source without letters (numbers, prices, codes) is
+ * always a valid translation.
+ *
+ * @returns Why the output is not a usable translation, or null if it is
+ */
+export function validateTranslation(item: TranslationItem, text: unknown): RejectionReason | null {
+  if (text === undefined || text === null) return 'missing';
+  if (typeof text !== 'string') return 'invalid';
+  if (text.trim() === '') return 'empty';
+  if (text.trim() === item.text.trim() && LETTER.test(item.text)) return 'untranslated';
+  return null;
+}
+
+export interface RecoveryOptions {
+  /**
+   * Re-requests of the items still without a valid translation (default: 1)
+   */
+  retries?: number;
+
+  /**
+   * Use translateBatchStream when the provider has it (default: true)
+   */
+  stream?: boolean;
+
+  /**
+   * Called with the usage of each request and the items it covered
+   */
+  onUsage?: (usage: TokenUsage, items: TranslationItem[]) => void;
+
+  /**
+   * Called as each valid translation is accepted
+   */
+  onTranslation?: (item: TranslationItem, text: string) => void;
+
+  /**
+   * Items whose translation may equal the source text, e.g. brand names
+   * (default: none - only sources without letters)
+   */
+  acceptIdentical?: (item: TranslationItem) => boolean;
+
+  debug?: boolean;
+}
+
+export interface RecoveryResult {
+  /**
+   * Valid translations, in input order
+   */
+  translations: AcceptedTranslation[];
+
+  /**
+   * Items still without a valid translation after all re-requests
+   */
+  rejected: RejectedTranslation[];
+}
+
+/**
+ * Translate items, validating each result and re-requesting only the items
+ * that came back missing or invalid
+ *
+ * Output equal to the source is only accepted for sources without letters
+ * and for items `acceptIdentical` allows; a model that echoes its input gets
+ * nothing saved.
+ *
+ * A provider error is not caught: translations accepted before it were
+ * already passed to onTranslation, so the caller can keep them.
+ */
+export async function translateWithRecovery(
+  llm: LLMProvider,
+  items: TranslationItem[],
+  sourceLocale: string,
+  targetLocale: string,
+  options: RecoveryOptions = {}
+): Promise<RecoveryResult> {
+  const { retries = 1, stream = true, onUsage, onTranslation, acceptIdentical, debug } = options;
+
+  const accepted = new Map<TranslationItem, string>();
+  let rejected: RejectedTranslation[] = [];
+  let pending = items;
+
+  for (let attempt = 0; attempt <= retries && pending.length > 0; attempt++) {
+    const batch = pending;
+    const reasons = new Map<TranslationItem, RejectionReason>();
+    const batchOptions = { onUsage: (usage: TokenUsage) => onUsage?.(usage, batch) };
+
+    const offer = (item: TranslationItem, text: unknown) => {
+      if (accepted.has(item)) return;
+
+      const reason = validateTranslation(item, text);
+      if (reason && !(reason === 'untranslated' && acceptIdentical?.(item))) {
+        reasons.set(item, reason);
+        return;
+      }
+
+      accepted.set(item, text as string);
+      onTranslation?.(item, text as string);
+    };
+
+    if (stream && llm.translateBatchStream) {
+      for await (const { index, text } of llm.translateBatchStream(batch, sourceLocale, targetLocale, batchOptions)) {
+        const item = batch[index];
+        if (item) offer(item, text);
+      }
+    } else {
+      const output = await llm.translateBatch(batch, sourceLocale, targetLocale, batchOptions);
+      if (!Array.isArray(output)) {
+        throw new Error('[Audar] translateBatch did not return an array');
+      }
+
+      if (output.length === batch.length) {
+        batch.forEach((item, idx) => offer(item, output[idx]));
+      } else {
+        // Without ids, a missing or extra entry shifts every entry after it
+        batch.forEach((item) => reasons.set(item, 'misaligned'));
+      }
+    }
+
+    pending = batch.filter((item) => !accepted.has(item));
+    rejected = pending.map((item) => ({ item, reason: reasons.get(item) ?? 'missing' }));
+
+    if (debug && pending.length > 0) {
+      const counts = rejected.reduce<Record<string, number>>((acc, { reason }) => {
+        acc[reason] = (acc[reason] ?? 0) + 1;
+        return acc;
+      }, {});
+      console.warn(
+        `[Audar] ${pending.length}/${batch.length} translations rejected (${JSON.stringify(counts)})` +
+        (attempt < retries ? ', re-requesting' : '')
+      );
+    }
+  }
+
+  return {
+    translations: items
+      .filter((item) => accepted.has(item))
+      .map((item) => ({ item, text: accepted.get(item)! })),
+    rejected,
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Translation Scheduler
+ *
+ * Shared by every ViewTranslationProvider under one AudarProvider. Requests
+ * arriving within a short window are collected, deduplicated by
+ * (contentType, contentId, locale, source hash) and sent as one database
+ * lookup and one LLM call per locale (split into calls of at most `chunkSize`
+ * items). Every caller is resolved from that single call, and requests for
+ * items already in flight join the pending call instead of starting another.
+ *
+ * Lookups are answered from the client cache (config.clientCache) first;
+ * only misses reach the database, and results are written back.
+ *
+ * @example
+ * ```ts
+ * const scheduler = createTranslationScheduler(() => config);
+ *
+ * // Feed and sidebar both ask for product_title:123 - translated once
+ * const [feed, sidebar] = await Promise.all([
+ *   scheduler.translate(feedItems, 'ru'),
+ *   scheduler.translate(sidebarItems, 'ru'),
+ * ]);
+ * ```
+ */
+
+import type { AudarConfig, CachedTranslation, TranslationItem } from '../types';
+import { hashSourceText, sourceHashMatches } from './source-hash';
+import { clientCacheKey, resolveClientCache } from './client-cache';
+import { formatCost } from './cost';
+import { resolveLLMProvider } from './resilience';
+import { translateAndSave, translationKey } from './pipeline';
+
+const DEFAULT_WINDOW_MS = 10;
+
+/**
+ * Default maximum items per LLM call in lazy mode
+ */
+export const DEFAULT_CHUNK_SIZE = 20;
+
+export interface ScheduledTranslations {
+  /**
+   * Translations by key ("contentType:contentId")
+   */
+  translations: Record<string, string>;
+  /**
+   * Budget limit that blocked some of the requested items, if any
+   */
+  budgetExceeded?: string;
+}
+
+export interface TranslationScheduler {
+  /**
+   * Fetch cached rows for items (coalesced with other callers)
+   */
+  lookup(items: TranslationItem[], locale: string): Promise<CachedTranslation[]>;
+
+  /**
+   * Translate and save items (coalesced with other callers)
+   *
+   * @param onTranslation - Called for each item as soon as its translation
+   *   arrives (before the whole call completes, with streaming providers)
+   */
+  translate(
+    items: TranslationItem[],
+    locale: string,
+    onTranslation?: (item: TranslationItem, text: string) => void
+  ): Promise<ScheduledTranslations>;
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+interface QueuedItem<T> {
+  item: TranslationItem;
+  deferred: Deferred<T | undefined>;
+}
+
+function defer<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/**
+ * Batch items per locale over a time window, sharing results by dedupe key
+ *
+ * `run` receives the unique items of one locale (at most `getMaxBatchSize()`
+ * per call) and returns results by dedupe key. It may `emit` results early;
+ * callers waiting on those items are resolved immediately.
+ */
+function createCoalescer<T>(
+  getWindowMs: () => number,
+  run: (
+    items: TranslationItem[],
+    locale: string,
+    emit: (key: string, result: T) => void
+  ) => Promise<Map<string, T>>,
+  getMaxBatchSize: () => number = () => Infinity
+) {
+  // dedupe key -> result of the queued or running call that covers it
+  const pending = new Map<string, Promise<T | undefined>>();
+  // locale -> dedupe key -> queued item
+  let queue = new Map<string, Map<string, QueuedItem<T>>>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function flush() {
+    timer = null;
+    const batches = queue;
+    queue = new Map();
+
+    const maxBatchSize = Math.max(1, getMaxBatchSize());
+    const groups: Array<[string, Array<[string, QueuedItem<T>]>]> = [];
+    batches.forEach((entries, locale) => {
+      const list = Array.from(entries);
+      for (let i = 0; i < list.length; i += maxBatchSize) {
+        groups.push([locale, list.slice(i, i + maxBatchSize)]);
+      }
+    });
+
+    await Promise.all(
+      groups.map(async ([locale, entries]) => {
+        const byKey = new Map(entries);
+        const emit = (key: string, result: T) => byKey.get(key)?.deferred.resolve(result);
+
+        try {
+          const results = await run(
+            entries.map(([, e]) => e.item),
+            locale,
+            emit
+          );
+          entries.forEach(([key, { deferred }]) => deferred.resolve(results.get(key)));
+        } catch (error) {
+          entries.forEach(([, { deferred }]) => deferred.reject(error));
+        } finally {
+          entries.forEach(([key]) => pending.delete(key));
+        }
+      })
+    );
+  }
+
+  return {
+    request(
+      items: TranslationItem[],
+      locale: string,
+      onResult?: (item: TranslationItem, result: T | undefined) => void
+    ): Promise<Map<string, T | undefined>> {
+      const keyed = items.map((item) => {
+        const key = dedupeKey(item, locale);
+        let promise = pending.get(key);
+
+        if (!promise) {
+          const deferred = defer<T | undefined>();
+          promise = deferred.promise;
+          pending.set(key, promise);
+
+          const entries = queue.get(locale) || new Map();
+          entries.set(key, { item, deferred });
+          queue.set(locale, entries);
+        }
+
+        return promise.then((result) => {
+          onResult?.(item, result);
+          return [key, result] as const;
+        });
+      });
+
+      if (!timer && queue.size > 0) {
+        timer = setTimeout(flush, getWindowMs());
+      }
+
+      return Promise.all(keyed).then((entries) => new Map(entries));
+    },
+  };
+}
+
+function dedupeKey(item: TranslationItem, locale: string): string {
+  return `${translationKey(item.contentType, item.contentId)}:${locale}:${hashSourceText(item.text)}`;
+}
+
+/**
+ * Create a scheduler using the adapters of the current config
+ *
+ * @param getConfig - Returns the latest config (AudarProvider re-creates config objects on render)
+ */
+export function createTranslationScheduler(getConfig: () => AudarConfig): TranslationScheduler {
+  const getWindowMs = () => getConfig().coalesceWindowMs ?? DEFAULT_WINDOW_MS;
+
+  const getClientCache = () => resolveClientCache(getConfig());
+
+  const cacheKey = (item: TranslationItem, locale: string) =>
+    clientCacheKey(item.contentType, item.contentId, locale, hashSourceText(item.text));
+
+  // The client cache is an optimization - its failures must never break translation
+  const readClientCache = async (items: TranslationItem[], locale: string) => {
+    const cache = getClientCache();
+    if (!cache) return new Map<string, string>();
+    return cache.get(items.map((item) => cacheKey(item, locale))).catch(() => new Map<string, string>());
+  };
+
+  const writeClientCache = (entries: Record<string, string>) => {
+    const cache = getClientCache();
+    if (cache && Object.keys(entries).length > 0) {
+      cache.set(entries).catch(() => undefined);
+    }
+  };
+
+  const lookups = createCoalescer<CachedTranslation>(getWindowMs, async (items, locale) => {
+    const config = getConfig();
+    const rows = await config.database.getCachedTranslations(items, locale);
+    const rowMap = new Map(rows.map((r) => [translationKey(r.content_type, r.content_id), r]));
+
+    const results = new Map<string, CachedTranslation>();
+    for (const item of items) {
+      const row = rowMap.get(translationKey(item.contentType, item.contentId));
+      if (row) results.set(dedupeKey(item, locale), row);
+    }
+    return results;
+  });
+
+  const translations = createCoalescer<{ text?: string; budgetExceeded?: string }>(
+    getWindowMs,
+    async (items, locale, emit) => {
+      const config = getConfig();
+
+      if (config.debug) {
+        console.log(`[Audar] Scheduler: translating ${items.length} unique items for ${locale}`);
+      }
+
+      const result = await translateAndSave({
+        database: config.database,
+        llm: resolveLLMProvider(config),
+        items,
+        sourceLocale: config.defaultLocale || config.i18n.getDefaultLocale(),
+        targetLocale: locale,
+        pricing: config.pricing,
+        budget: config.budget,
+        acceptIdentical: config.acceptIdentical,
+        debug: config.debug,
+        onTranslation: (item, text) => emit(dedupeKey(item, locale), { text }),
+      });
+
+      if (config.debug && result.costs.inputTokens > 0) {
+        const byType = Object.entries(result.costs.byContentType)
+          .map(([contentType, breakdown]) => `${contentType}: ${formatCost(breakdown.cost)}`)
+          .join(', ');
+        console.log(
+          `[Audar] 💰 ${result.costs.inputTokens} in / ${result.costs.outputTokens} out tokens, ` +
+          `${formatCost(result.costs.cost)} for ${locale} (${byType})`
+        );
+      }
+
+      const results = new Map<string, { text?: string; budgetExceeded?: string }>();
+      for (const item of items) {
+        const text = result.translations[translationKey(item.contentType, item.contentId)];
+        results.set(dedupeKey(item, locale), { text, budgetExceeded: result.budgetExceeded });
+      }
+      return results;
+    },
+    () => getConfig().chunkSize ?? DEFAULT_CHUNK_SIZE
+  );
+
+  return {
+    async lookup(items, locale) {
+      if (items.length === 0) return [];
+
+      // Client cache hits become rows, so callers treat them like database results
+      const hits = await readClientCache(items, locale);
+      const rows: CachedTranslation[] = [];
+      const misses: TranslationItem[] = [];
+
+      for (const item of items) {
+        const text = hits.get(cacheKey(item, locale));
+        if (text !== undefined) {
+          rows.push({
+            content_type: item.contentType,
+            content_id: item.contentId,
+            translated_text: text,
+            source_hash: hashSourceText(item.text),
+          });
+        } else {
+          misses.push(item);
+        }
+      }
+
+      if (misses.length === 0) return rows;
+
+      const results = await lookups.request(misses, locale);
+      const seen = new Set<CachedTranslation>();
+      for (const row of results.values()) {
+        if (row) seen.add(row);
+      }
+
+      // Remember up-to-date rows for next time
+      const fresh: Record<string, string> = {};
+      for (const item of misses) {
+        const row = results.get(dedupeKey(item, locale));
+        if (row && sourceHashMatches(row.source_hash, item.text)) {
+          fresh[cacheKey(item, locale)] = row.translated_text;
+        }
+      }
+      writeClientCache(fresh);
+
+      return [...rows, ...seen];
+    },
+
+    async translate(items, locale, onTranslation) {
+      const scheduled: ScheduledTranslations = { translations: {} };
+      if (items.length === 0) return scheduled;
+
+      const results = await translations.request(items, locale, (item, result) => {
+        if (result?.text !== undefined) onTranslation?.(item, result.text);
+      });
+
+      const fresh: Record<string, string> = {};
+      for (const item of items) {
+        const text = results.get(dedupeKey(item, locale))?.text;
+        if (text !== undefined) fresh[cacheKey(item, locale)] = text;
+      }
+      writeClientCache(fresh);
+      for (const item of items) {
+        const result = results.get(dedupeKey(item, locale));
+        if (result?.text !== undefined) {
+          scheduled.translations[translationKey(item.contentType, item.contentId)] = result.text;
+        } else if (result?.budgetExceeded) {
+          scheduled.budgetExceeded = result.budgetExceeded;
+        }
+      }
+      return scheduled;
+    },
+  };
+}
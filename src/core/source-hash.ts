@@ -0,0 +1,106 @@
+/**
+ * Source Hashing
+ *
+ * Single definition of `source_hash` shared by the runtime provider and the CLI.
+ * Both modes write to the same `content_translations` table, so they must agree
+ * on how source text is normalized and hashed - otherwise each mode treats the
+ * other's rows as outdated and pays to re-translate them.
+ *
+ * @example
+ * ```ts
+ * import { hashSourceText, sourceHashMatches } from 'audarma';
+ *
+ * const sourceHash = hashSourceText(product.title);
+ * const upToDate = sourceHashMatches(row.source_hash, product.title);
+ * ```
+ */
+
+import crypto from 'crypto-js';
+import type { DatabaseAdapter, StoredTranslation } from '../types';
+
+/**
+ * Normalize source text before hashing
+ *
+ * - Unicode NFC (composed and decomposed forms hash the same)
+ * - CRLF / CR line endings become LF
+ * - Runs of horizontal whitespace collapse to a single space
+ * - Leading and trailing whitespace is trimmed
+ *
+ * Line breaks are kept, since they usually carry meaning in the translation.
+ */
+export function normalizeSourceText(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .trim();
+}
+
+/**
+ * Hash source text for the `source_hash` column (SHA-256 hex of normalized text)
+ */
+export function hashSourceText(text: string): string {
+  return crypto.SHA256(normalizeSourceText(text)).toString();
+}
+
+/**
+ * Hashes written by earlier versions, for the same text:
+ * - runtime provider: full SHA-256 of the raw text
+ * - CLI: first 16 hex chars of SHA-256 of the raw text
+ */
+function legacySourceHashes(text: string): string[] {
+  const raw = crypto.SHA256(text).toString();
+  return [raw, raw.substring(0, 16)];
+}
+
+/**
+ * Check whether a stored `source_hash` was computed from this source text
+ *
+ * Accepts hashes in the current format as well as the legacy runtime and CLI
+ * formats, so rows written before the formats were unified are not re-translated.
+ */
+export function sourceHashMatches(storedHash: string, text: string): boolean {
+  return storedHash === hashSourceText(text) || legacySourceHashes(text).includes(storedHash);
+}
+
+/**
+ * Check whether a stored `source_hash` is in a legacy format for its original text
+ */
+export function isLegacySourceHash(storedHash: string, originalText: string): boolean {
+  return storedHash !== hashSourceText(originalText) && legacySourceHashes(originalText).includes(storedHash);
+}
+
+/**
+ * Rewrite legacy-format `source_hash` values to the current format
+ *
+ * Pass every stored row (e.g. `SELECT * FROM content_translations`); rows already
+ * in the current format, or whose hash does not match their `original_text`, are
+ * left untouched. Updated rows are upserted through `saveTranslations` in batches.
+ *
+ * @returns Number of rows rewritten
+ *
+ * @example
+ * ```ts
+ * const { data } = await supabase.from('content_translations').select('*');
+ * const migrated = await migrateSourceHashes(data, adapter);
+ * console.log(`Migrated ${migrated} rows`);
+ * ```
+ */
+export async function migrateSourceHashes(
+  rows: StoredTranslation[],
+  database: Pick<DatabaseAdapter, 'saveTranslations'>,
+  options: { batchSize?: number } = {}
+): Promise<number> {
+  const batchSize = options.batchSize || 500;
+
+  const migrated = rows
+    .filter((row) => isLegacySourceHash(row.source_hash, row.original_text))
+    .map((row) => ({ ...row, source_hash: hashSourceText(row.original_text) }));
+
+  for (let i = 0; i < migrated.length; i += batchSize) {
+    await database.saveTranslations(migrated.slice(i, i + batchSize));
+  }
+
+  return migrated.length;
+}
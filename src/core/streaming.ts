@@ -0,0 +1,434 @@
+/**
+ * Streaming Helpers
+ *
+ * Incremental parsers that turn partial LLM output into translations as soon
+ * as each element is complete, plus a Server-Sent Events reader for streaming
+ * chat APIs. Used by the example providers' translateBatchStream.
+ *
+ * Parsers are tolerant: text before the array or object (markdown fences, a
+ * wrapping `{"translations": ...}` object), raw newlines inside strings and
+ * truncated output are handled without throwing.
+ *
+ * @example
+ * ```ts
+ * const parser = createJsonArrayStreamParser();
+ * parser.push('```json\n["Привет", "Ми');  // [{ index: 0, text: 'Привет' }]
+ * parser.push('р"]');                        // [{ index: 1, text: 'Мир' }]
+ * ```
+ */
+
+import type { StreamedTranslation } from '../types';
+
+export interface StreamParser {
+  /**
+   * Feed the next chunk of model output
+   *
+   * @returns Translations completed by this chunk
+   */
+  push(chunk: string): StreamedTranslation[];
+
+  /**
+   * Signal the end of output
+   *
+   * @returns Translations completed by the end of output (e.g. a last list item)
+   */
+  end(): StreamedTranslation[];
+}
+
+/**
+ * Decode a JSON string body, tolerating raw control characters the model
+ * should have escaped
+ */
+function decodeJsonString(raw: string): string {
+  let escaped = '';
+  for (const c of raw) {
+    const code = c.charCodeAt(0);
+    escaped += code < 0x20 ? `\\u${code.toString(16).padStart(4, '0')}` : c;
+  }
+  try {
+    return JSON.parse(`"${escaped}"`);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Parser for a JSON array of strings (`["...", "..."]`)
+ *
+ * Elements are emitted as soon as their closing quote arrives. Nested arrays
+ * or objects are skipped but keep their index, so positions stay aligned.
+ */
+export function createJsonArrayStreamParser(): StreamParser {
+  type State = 'seek' | 'array' | 'string' | 'literal' | 'nested' | 'done';
+
+  let state: State = 'seek';
+  let index = 0;
+  let buffer = '';
+  let escaped = false;
+  let depth = 0;
+  let nestedInString = false;
+
+  function finishLiteral(out: StreamedTranslation[]) {
+    const literal = buffer.trim();
+    if (literal && literal !== 'null') {
+      out.push({ index, text: literal });
+    }
+    index++;
+    buffer = '';
+  }
+
+  return {
+    push(chunk) {
+      const out: StreamedTranslation[] = [];
+
+      for (const c of chunk) {
+        switch (state) {
+          case 'seek':
+            if (c === '[') state = 'array';
+            break;
+
+          case 'array':
+            if (c === '"') {
+              state = 'string';
+              buffer = '';
+            } else if (c === ']') {
+              state = 'done';
+            } else if (c === '[' || c === '{') {
+              state = 'nested';
+              depth = 1;
+            } else if (c !== ',' && !/\s/.test(c)) {
+              state = 'literal';
+              buffer = c;
+            }
+            break;
+
+          case 'string':
+            if (escaped) {
+              escaped = false;
+              buffer += c;
+            } else if (c === '\\') {
+              escaped = true;
+              buffer += c;
+            } else if (c === '"') {
+              out.push({ index: index++, text: decodeJsonString(buffer) });
+              buffer = '';
+              state = 'array';
+            } else {
+              buffer += c;
+            }
+            break;
+
+          case 'literal':
+            if (c === ',' || c === ']') {
+              finishLiteral(out);
+              state = c === ']' ? 'done' : 'array';
+            } else {
+              buffer += c;
+            }
+            break;
+
+          case 'nested':
+            if (nestedInString) {
+              if (escaped) escaped = false;
+              else if (c === '\\') escaped = true;
+              else if (c === '"') nestedInString = false;
+            } else if (c === '"') {
+              nestedInString = true;
+            } else if (c === '[' || c === '{') {
+              depth++;
+            } else if ((c === ']' || c === '}') && --depth === 0) {
+              index++;
+              state = 'array';
+            }
+            break;
+
+          case 'done':
+            break;
+        }
+      }
+
+      return out;
+    },
+
+    end() {
+      // Unterminated strings are truncated output - drop them rather than guess
+      const out: StreamedTranslation[] = [];
+      if (state === 'literal') finishLiteral(out);
+      state = 'done';
+      return out;
+    },
+  };
+}
+
+/**
+ * Parser for a JSON object keyed by item id (`{"1": "...", "2": "..."}`)
+ *
+ * Ids are 1-based positions in the batch (see keyedBatch()), echoed back by
+ * the model, so an omitted or reordered entry cannot shift the others. Each
+ * value is emitted as soon as its closing quote arrives. Values that are
+ * objects are searched too (e.g. `{"translations": {"1": "..."}}`); entries
+ * with non-numeric keys are ignored. Output that is an array instead (bare
+ * or wrapped) is parsed positionally by createJsonArrayStreamParser().
+ */
+export function createJsonObjectStreamParser(): StreamParser {
+  type State = 'seek' | 'object' | 'key' | 'colon' | 'value' | 'string' | 'literal' | 'nested' | 'done';
+
+  let state: State = 'seek';
+  let arrayParser: StreamParser | null = null;
+  let depth = 0;
+  let key = '';
+  let buffer = '';
+  let escaped = false;
+  let nestedDepth = 0;
+  let nestedInString = false;
+
+  function emit(text: string, out: StreamedTranslation[]) {
+    if (/^\d+$/.test(key) && Number(key) >= 1) {
+      out.push({ index: Number(key) - 1, text });
+    }
+  }
+
+  function finishLiteral(out: StreamedTranslation[]) {
+    const literal = buffer.trim();
+    if (literal && literal !== 'null') emit(literal, out);
+    buffer = '';
+  }
+
+  function closeObject() {
+    depth--;
+    state = depth === 0 ? 'done' : 'object';
+  }
+
+  return {
+    push(chunk) {
+      if (arrayParser) return arrayParser.push(chunk);
+
+      const out: StreamedTranslation[] = [];
+      const chars = Array.from(chunk);
+
+      for (let i = 0; i < chars.length; i++) {
+        const c = chars[i];
+
+        switch (state) {
+          case 'seek':
+            if (c === '{') {
+              state = 'object';
+              depth = 1;
+            } else if (c === '[') {
+              arrayParser = createJsonArrayStreamParser();
+              out.push(...arrayParser.push(chars.slice(i).join('')));
+              return out;
+            }
+            break;
+
+          case 'object':
+            if (c === '"') {
+              state = 'key';
+              buffer = '';
+            } else if (c === '}') {
+              closeObject();
+            }
+            break;
+
+          case 'key':
+            if (escaped) {
+              escaped = false;
+              buffer += c;
+            } else if (c === '\\') {
+              escaped = true;
+              buffer += c;
+            } else if (c === '"') {
+              key = decodeJsonString(buffer);
+              buffer = '';
+              state = 'colon';
+            } else {
+              buffer += c;
+            }
+            break;
+
+          case 'colon':
+            if (c === ':') state = 'value';
+            break;
+
+          case 'value':
+            if (c === '"') {
+              state = 'string';
+              buffer = '';
+            } else if (c === '{') {
+              depth++;
+              state = 'object';
+            } else if (c === '[' && !/^\d+$/.test(key)) {
+              // {"translations": [...]} - positional after all
+              arrayParser = createJsonArrayStreamParser();
+              out.push(...arrayParser.push(chars.slice(i).join('')));
+              return out;
+            } else if (c === '[') {
+              state = 'nested';
+              nestedDepth = 1;
+            } else if (!/\s/.test(c)) {
+              state = 'literal';
+              buffer = c;
+            }
+            break;
+
+          case 'string':
+            if (escaped) {
+              escaped = false;
+              buffer += c;
+            } else if (c === '\\') {
+              escaped = true;
+              buffer += c;
+            } else if (c === '"') {
+              emit(decodeJsonString(buffer), out);
+              buffer = '';
+              state = 'object';
+            } else {
+              buffer += c;
+            }
+            break;
+
+          case 'literal':
+            if (c === ',' || c === '}') {
+              finishLiteral(out);
+              if (c === '}') closeObject();
+              else state = 'object';
+            } else {
+              buffer += c;
+            }
+            break;
+
+          case 'nested':
+            if (nestedInString) {
+              if (escaped) escaped = false;
+              else if (c === '\\') escaped = true;
+              else if (c === '"') nestedInString = false;
+            } else if (c === '"') {
+              nestedInString = true;
+            } else if (c === '[' || c === '{') {
+              nestedDepth++;
+            } else if ((c === ']' || c === '}') && --nestedDepth === 0) {
+              state = 'object';
+            }
+            break;
+
+          case 'done':
+            break;
+        }
+      }
+
+      return out;
+    },
+
+    end() {
+      if (arrayParser) return arrayParser.end();
+
+      // Unterminated strings are truncated output - drop them rather than guess
+      const out: StreamedTranslation[] = [];
+      if (state === 'literal') finishLiteral(out);
+      state = 'done';
+      return out;
+    },
+  };
+}
+
+/**
+ * Parser for a numbered list (`1. ...` or `1) ...`, one item per line)
+ *
+ * An item is emitted when the next numbered line starts, or at the end of
+ * output. Unnumbered lines continue the current item, keeping blank lines
+ * between paragraphs. The item number sets the
+ * index, so skipped or reordered numbers stay aligned with the input.
+ */
+export function createNumberedListStreamParser(): StreamParser {
+  let partialLine = '';
+  let current: StreamedTranslation | null = null;
+  // Blank lines are kept only once more text of the same item follows
+  let blankLines = 0;
+
+  function processLine(line: string, out: StreamedTranslation[]) {
+    const match = line.match(/^\s*(\d+)[.)]\s*(.*)$/);
+
+    if (match) {
+      if (current) out.push(current);
+      current = { index: Number(match[1]) - 1, text: match[2].trim() };
+      blankLines = 0;
+    } else if (current && line.trim()) {
+      current.text = current.text ? `${current.text}${'\n'.repeat(blankLines + 1)}${line.trim()}` : line.trim();
+      blankLines = 0;
+    } else if (current && current.text) {
+      blankLines++;
+    }
+  }
+
+  return {
+    push(chunk) {
+      const out: StreamedTranslation[] = [];
+      const lines = (partialLine + chunk).split('\n');
+      partialLine = lines.pop() ?? '';
+      lines.forEach((line) => processLine(line, out));
+      return out;
+    },
+
+    end() {
+      const out: StreamedTranslation[] = [];
+      processLine(partialLine, out);
+      partialLine = '';
+      if (current) out.push(current);
+      current = null;
+      return out;
+    },
+  };
+}
+
+/**
+ * Run text chunks through a parser, yielding translations as they complete
+ */
+export async function* parseTranslationStream(
+  chunks: AsyncIterable<string>,
+  parser: StreamParser
+): AsyncGenerator<StreamedTranslation> {
+  for await (const chunk of chunks) {
+    yield* parser.push(chunk);
+  }
+  yield* parser.end();
+}
+
+/**
+ * Read a Server-Sent Events response, yielding each event's `data` payload
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          // Blank line ends an event
+          if (data.length > 0) yield data.join('\n');
+          data = [];
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) break;
+    }
+
+    if (data.length > 0) yield data.join('\n');
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -24,6 +24,10 @@
  * // Get translated text
  * const { text, isTranslating } = useViewTranslation('product_title', product.id, product.title);
  * ```
+ *
+ * This entry is a client module (`'use client'`). Server code - the route
+ * handler, getViewTranslations() and the local database adapters - is in
+ * `audarma/server`.
  */
 
 // Core components
@@ -34,26 +38,196 @@ export {
   useViewTranslationStatus,
 } from './core/ViewTranslationProvider';
 
+// Source hashing (shared by lazy and CLI mode)
+export {
+  normalizeSourceText,
+  hashSourceText,
+  sourceHashMatches,
+  isLegacySourceHash,
+  migrateSourceHashes,
+} from './core/source-hash';
+
+// Cost accounting
+export {
+  getModelPricing,
+  calculateCost,
+  estimateTokens,
+  estimateBatchUsage,
+  createCostTracker,
+  formatCost,
+} from './core/cost';
+export type { CostBreakdown, CostTotals, CostTracker } from './core/cost';
+
+// Budget guards
+export {
+  createBudgetGuard,
+  createMemoryBudgetCounter,
+  createDatabaseBudgetCounter,
+} from './core/budget';
+export type { BudgetGuard, BudgetDecision } from './core/budget';
+
+// Streaming (incremental parsers for translateBatchStream)
+export {
+  createJsonArrayStreamParser,
+  createJsonObjectStreamParser,
+  createNumberedListStreamParser,
+  parseTranslationStream,
+  readEventStream,
+} from './core/streaming';
+export type { StreamParser } from './core/streaming';
+
+// Response validation (id alignment, per-item checks, re-requests)
+export {
+  keyedBatch,
+  alignTranslations,
+  parseKeyedTranslations,
+  validateTranslation,
+  translateWithRecovery,
+} from './core/response-validation';
+export type {
+  RejectionReason,
+  RejectedTranslation,
+  AcceptedTranslation,
+  RecoveryOptions,
+  RecoveryResult,
+} from './core/response-validation';
+
+// Resilience (timeouts, retries, concurrency limit, circuit breaker)
+export {
+  withResilience,
+  retryWithBackoff,
+  backoffDelay,
+  parseRetryAfter,
+  retryAfterOf,
+  isTransientError,
+  LLMRequestError,
+  LLMTimeoutError,
+  CircuitOpenError,
+} from './core/resilience';
+
+// Client cache (IndexedDB / memory)
+export {
+  clientCacheKey,
+  createIndexedDBTranslationCache,
+  createMemoryTranslationCache,
+} from './core/client-cache';
+export type {
+  IndexedDBTranslationCacheOptions,
+  MemoryTranslationCacheOptions,
+} from './core/client-cache';
+
+// Metadata stores (view content hashes)
+export {
+  createLocalStorageMetadataStore,
+  createSessionStorageMetadataStore,
+  createMemoryMetadataStore,
+  createNoopMetadataStore,
+} from './core/metadata-store';
+export type { MetadataStoreOptions, WebStorageMetadataStoreOptions } from './core/metadata-store';
+
+// Cache invalidation
+export { invalidate } from './core/invalidate';
+export type { InvalidateConfig, InvalidateOptions, InvalidationResult } from './core/invalidate';
+
+// Request coalescing (used by AudarProvider)
+export { createTranslationScheduler } from './core/scheduler';
+export type { TranslationScheduler, ScheduledTranslations } from './core/scheduler';
+
+// Browser client for the route handler (the handler itself is in 'audarma/server')
+export { createAudarmaClient } from './adapters/api-client';
+export type { AudarmaClientOptions } from './adapters/api-client';
+
+// Deterministic LLM provider for tests and offline CI
+export { createMockLLMProvider } from './testing/mock-llm-provider';
+export type {
+  MockLLMProvider,
+  MockLLMProviderOptions,
+  MockLLMResponse,
+  MockLLMCall,
+  MalformedOutput,
+} from './testing/mock-llm-provider';
+
+// Conformance kits for adapter authors
+export { runDatabaseAdapterConformance } from './testing/database-conformance';
+export type {
+  DatabaseAdapterFactory,
+  DatabaseConformanceFixture,
+  DatabaseConformanceOptions,
+  ConformanceProductRow,
+} from './testing/database-conformance';
+export { runLLMProviderConformance } from './testing/llm-conformance';
+export type {
+  LLMProviderFactory,
+  LLMConformanceOptions,
+  ScriptedLLMModel,
+} from './testing/llm-conformance';
+export type {
+  ConformanceOptions,
+  ConformanceReport,
+  ConformanceFailure,
+} from './testing/conformance';
+
 // Type definitions
 export type {
   TranslationItem,
+  CachedTranslation,
+  StoredTranslation,
+  TranslationCoverage,
+  TranslationFilter,
+  TranslationPage,
+  TranslationGroupBy,
+  TranslationCount,
   ViewTranslationMetadata,
+  MetadataStore,
+  InitialViewTranslations,
   TranslationResult,
   TranslationResponse,
   DatabaseAdapter,
   LLMProvider,
+  TokenUsage,
+  ModelPricing,
+  PricingTable,
+  TranslateBatchOptions,
+  StreamedTranslation,
+  RetryOptions,
+  CircuitBreakerOptions,
+  ResilienceOptions,
+  BudgetLimits,
+  BudgetWindows,
+  BudgetCounter,
+  BudgetConfig,
+  ClientTranslationCache,
   I18nAdapter,
   AudarConfig,
   UseViewTranslationResult,
 } from './types';
 
+// API protocol types
+export type {
+  AudarmaApiRequest,
+  AudarmaContentRef,
+  AudarmaLookupRequest,
+  AudarmaTranslateRequest,
+  AudarmaLookupResponse,
+  AudarmaTranslateResponse,
+  AudarmaErrorResponse,
+} from './types/api';
+
 // CLI Configuration Types
 export type {
   ContentSource,
   ContentSourceItem,
   AudarCLIConfig,
+  AudarCLIConfigFile,
+  AdapterFactory,
   DiscoveredContent,
   TranslationGap,
   TranslationProgress,
+  FailedBatch,
   TranslationResult as CLITranslationResult,
+  PruneReason,
+  PruneResult,
+  StatusFormat,
+  CoverageCell,
+  CoverageReport,
 } from './types/content-sources';
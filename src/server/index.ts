@@ -0,0 +1,138 @@
+/**
+ * Audarma - Server Entry (`audarma/server`)
+ *
+ * Everything that runs on the server: the route handler, server-side view
+ * translations, the local database adapters and the non-React utilities they
+ * build on. Nothing here imports React, so it is safe in React Server
+ * Components, route handlers and scripts. The main `audarma` entry is a
+ * client module (`'use client'`).
+ *
+ * @example
+ * ```ts
+ * // app/api/audarma/route.ts
+ * import { createAudarmaRouteHandler } from 'audarma/server';
+ *
+ * // app/[locale]/feed/page.tsx
+ * import { getViewTranslations } from 'audarma/server';
+ * ```
+ */
+
+// Route handler and server rendering
+export { createAudarmaRouteHandler } from './route-handler';
+export type { AudarmaRouteHandlerOptions } from './route-handler';
+export { getViewTranslations } from './view-translations';
+export type { GetViewTranslationsOptions } from './view-translations';
+
+// Local database adapters (development, tests, offline)
+export { createSQLiteAdapter } from '../adapters/sqlite-adapter';
+export type { SQLiteDatabase, SQLiteAdapterOptions } from '../adapters/sqlite-adapter';
+export { createJsonFileAdapter } from '../adapters/json-file-adapter';
+export type {
+  JsonFileAdapterOptions,
+  JsonFileData,
+  JsonTables,
+  JsonTranslationRow,
+} from '../adapters/json-file-adapter';
+
+// Source hashing (shared by lazy and CLI mode)
+export {
+  normalizeSourceText,
+  hashSourceText,
+  sourceHashMatches,
+  isLegacySourceHash,
+  migrateSourceHashes,
+} from '../core/source-hash';
+
+// Cost accounting and budget guards
+export {
+  getModelPricing,
+  calculateCost,
+  estimateTokens,
+  estimateBatchUsage,
+  createCostTracker,
+  formatCost,
+} from '../core/cost';
+export type { CostBreakdown, CostTotals, CostTracker } from '../core/cost';
+export {
+  createBudgetGuard,
+  createMemoryBudgetCounter,
+  createDatabaseBudgetCounter,
+} from '../core/budget';
+export type { BudgetGuard, BudgetDecision } from '../core/budget';
+
+// Streaming, response validation and resilience (for LLM providers)
+export {
+  createJsonArrayStreamParser,
+  createJsonObjectStreamParser,
+  createNumberedListStreamParser,
+  parseTranslationStream,
+  readEventStream,
+} from '../core/streaming';
+export type { StreamParser } from '../core/streaming';
+export {
+  keyedBatch,
+  alignTranslations,
+  parseKeyedTranslations,
+  validateTranslation,
+  translateWithRecovery,
+} from '../core/response-validation';
+export type {
+  RejectionReason,
+  RejectedTranslation,
+  AcceptedTranslation,
+  RecoveryOptions,
+  RecoveryResult,
+} from '../core/response-validation';
+export {
+  withResilience,
+  retryWithBackoff,
+  backoffDelay,
+  parseRetryAfter,
+  retryAfterOf,
+  isTransientError,
+  LLMRequestError,
+  LLMTimeoutError,
+  CircuitOpenError,
+} from '../core/resilience';
+
+// Cache invalidation
+export { invalidate } from '../core/invalidate';
+export type { InvalidateConfig, InvalidateOptions, InvalidationResult } from '../core/invalidate';
+
+// Type definitions
+export type {
+  TranslationItem,
+  CachedTranslation,
+  StoredTranslation,
+  TranslationCoverage,
+  TranslationFilter,
+  TranslationPage,
+  TranslationGroupBy,
+  TranslationCount,
+  InitialViewTranslations,
+  TranslationResult,
+  TranslationResponse,
+  DatabaseAdapter,
+  LLMProvider,
+  TokenUsage,
+  ModelPricing,
+  PricingTable,
+  TranslateBatchOptions,
+  StreamedTranslation,
+  RetryOptions,
+  CircuitBreakerOptions,
+  ResilienceOptions,
+  BudgetLimits,
+  BudgetWindows,
+  BudgetCounter,
+  BudgetConfig,
+} from '../types';
+export type {
+  AudarmaApiRequest,
+  AudarmaContentRef,
+  AudarmaLookupRequest,
+  AudarmaTranslateRequest,
+  AudarmaLookupResponse,
+  AudarmaTranslateResponse,
+  AudarmaErrorResponse,
+} from '../types/api';
@@ -0,0 +1,334 @@
+/**
+ * Audarma Route Handler
+ *
+ * Runs cache lookup, LLM translation and saving on the server, so API keys and
+ * database write access never reach the browser. Pair it with
+ * createAudarmaClient() on the client.
+ *
+ * @example
+ * ```ts
+ * // app/api/audarma/route.ts
+ * import { createAudarmaRouteHandler } from 'audarma/server';
+ *
+ * export const POST = createAudarmaRouteHandler({
+ *   database: createSupabaseAdapter(supabaseAdmin),
+ *   llm: createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY! }),
+ *   locales: ['ru', 'kk', 'ja'],
+ *   // Translate the stored text, not whatever the browser sent
+ *   resolveSourceText: async (items) => {
+ *     const products = await getProductsByIds(items.map((item) => item.contentId));
+ *     return items.map((item) => products.get(item.contentId)?.title);
+ *   },
+ * });
+ * ```
+ *
+ * Item text comes from the browser, so `resolveSourceText` is required: the
+ * server's text is translated and saved, and unknown items are dropped.
+ * Otherwise anyone able to call the route could get any text translated at
+ * your expense and saved as a translation. Only for trusted clients (internal
+ * tools, development), `unsafeTrustClientText: true` translates and saves the
+ * request text instead.
+ */
+
+import type {
+  BudgetConfig,
+  DatabaseAdapter,
+  LLMProvider,
+  PricingTable,
+  ResilienceOptions,
+  TranslationItem,
+  TranslationResponse,
+  TranslationResult,
+} from '../types';
+import type {
+  AudarmaApiRequest,
+  AudarmaContentRef,
+  AudarmaErrorResponse,
+  AudarmaLookupResponse,
+} from '../types/api';
+import { lookupCachedTranslations, translateAndSave, translationKey } from '../core/pipeline';
+import { resolveLLMProvider } from '../core/resilience';
+
+export interface AudarmaRouteHandlerOptions {
+  database: DatabaseAdapter;
+  llm: LLMProvider;
+
+  /**
+   * Allow-list of target locales. Requests for any other locale are rejected.
+   */
+  locales: string[];
+
+  /**
+   * Source locale (default: 'en'). Never taken from the request.
+   */
+  sourceLocale?: string;
+
+  /**
+   * Optional: Allow-list of content types
+   */
+  contentTypes?: string[];
+
+  /**
+   * Maximum items per request (default: 100)
+   */
+  maxItems?: number;
+
+  /**
+   * Maximum characters per item text (default: 5000)
+   */
+  maxTextLength?: number;
+
+  /**
+   * Optional: Reject requests (403) unless this returns true, e.g. to require
+   * a session
+   */
+  authorize?: (request: Request, body: AudarmaApiRequest) => boolean | Promise<boolean>;
+
+  /**
+   * Current source text of each item, from your database. Used instead of the
+   * text in the request, so clients cannot get arbitrary text translated and
+   * saved. Return undefined for unknown items; they are not translated.
+   * Required unless `unsafeTrustClientText` is set.
+   *
+   * @returns Texts in input order
+   */
+  resolveSourceText?: (items: AudarmaContentRef[]) => Promise<Array<string | undefined>>;
+
+  /**
+   * Translate and save the text in the request when there is no
+   * `resolveSourceText` (default: false). Any caller can then have any text
+   * translated and stored - only for trusted clients.
+   */
+  unsafeTrustClientText?: boolean;
+
+  /**
+   * Optional: Spend caps. Exhausted budgets answer 429 and the client keeps source text.
+   */
+  budget?: BudgetConfig;
+
+  /**
+   * Optional: Items whose translation may equal the source text, e.g. brand
+   * names. Other output identical to the source is never saved.
+   */
+  acceptIdentical?: (item: TranslationItem) => boolean;
+
+  /**
+   * Optional: Per-model pricing, reported as metadata.estimatedCost
+   */
+  pricing?: PricingTable;
+
+  /**
+   * Timeout, retry and circuit-breaker options for `llm` (default: the
+   * withResilience() defaults). `false` calls the provider directly;
+   * providers already wrapped with withResilience() are used as-is.
+   */
+  resilience?: ResilienceOptions | false;
+
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+class RequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * Validate and normalize a request body
+ */
+function parseRequest(body: unknown, options: AudarmaRouteHandlerOptions): AudarmaApiRequest {
+  const { locales, contentTypes, maxItems = 100, maxTextLength = 5000 } = options;
+
+  if (!body || typeof body !== 'object') {
+    throw new RequestError(400, 'Request body must be a JSON object');
+  }
+
+  const { action, locale, items } = body as Record<string, unknown>;
+
+  if (action !== 'lookup' && action !== 'translate') {
+    throw new RequestError(400, 'action must be "lookup" or "translate"');
+  }
+  if (!isNonEmptyString(locale)) {
+    throw new RequestError(400, 'locale is required');
+  }
+  if (!locales.includes(locale)) {
+    throw new RequestError(403, `Locale "${locale}" is not allowed`);
+  }
+  if (!Array.isArray(items)) {
+    throw new RequestError(400, 'items must be an array');
+  }
+  if (items.length > maxItems) {
+    throw new RequestError(413, `Too many items (${items.length} > ${maxItems})`);
+  }
+
+  // Deduplicate by key - the client may send the same item twice
+  const unique = new Map<string, TranslationItem>();
+  items.forEach((item, idx) => {
+    if (
+      !item ||
+      !isNonEmptyString(item.contentType) ||
+      !isNonEmptyString(item.contentId) ||
+      typeof item.text !== 'string'
+    ) {
+      throw new RequestError(400, `items[${idx}] must have string contentType, contentId and text`);
+    }
+    if (item.text.length > maxTextLength) {
+      throw new RequestError(413, `items[${idx}].text exceeds ${maxTextLength} characters`);
+    }
+    if (contentTypes && !contentTypes.includes(item.contentType)) {
+      throw new RequestError(403, `Content type "${item.contentType}" is not allowed`);
+    }
+
+    unique.set(translationKey(item.contentType, item.contentId), {
+      contentType: item.contentType,
+      contentId: item.contentId,
+      text: item.text,
+    });
+  });
+
+  return { action, locale, items: Array.from(unique.values()) };
+}
+
+/**
+ * Replace request text with the server's source text, dropping unknown items
+ */
+async function resolveItems(
+  items: TranslationItem[],
+  resolveSourceText: NonNullable<AudarmaRouteHandlerOptions['resolveSourceText']>
+): Promise<TranslationItem[]> {
+  const texts = await resolveSourceText(items.map(({ contentType, contentId }) => ({ contentType, contentId })));
+  return items.flatMap((item, idx) => {
+    const text = texts[idx];
+    return typeof text === 'string' ? [{ ...item, text }] : [];
+  });
+}
+
+/**
+ * Create a Next.js (App Router) route handler serving Audarma API requests
+ *
+ * Works with any runtime using the Fetch API Request/Response.
+ */
+export function createAudarmaRouteHandler(options: AudarmaRouteHandlerOptions) {
+  const { database, sourceLocale = 'en', authorize, resolveSourceText, budget, acceptIdentical, pricing, debug } = options;
+  if (!resolveSourceText && !options.unsafeTrustClientText) {
+    throw new Error(
+      '[Audar] createAudarmaRouteHandler needs resolveSourceText, so only your stored source text is ' +
+      'translated and saved. Set unsafeTrustClientText: true to trust the text clients send instead.'
+    );
+  }
+  const llm = resolveLLMProvider(options);
+
+  return async function handler(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return json({ success: false, error: 'Method not allowed' } satisfies AudarmaErrorResponse, 405);
+    }
+
+    try {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        throw new RequestError(400, 'Invalid JSON body');
+      }
+
+      const parsed = parseRequest(body, options);
+      if (authorize && !(await authorize(request, parsed))) {
+        throw new RequestError(403, 'Not authorized');
+      }
+
+      const { action, locale } = parsed;
+      let { items } = parsed;
+
+      if (locale === sourceLocale) {
+        throw new RequestError(400, `Cannot translate into the source locale "${sourceLocale}"`);
+      }
+
+      // Lookup: return raw rows, the client compares source hashes itself
+      if (action === 'lookup') {
+        const rows = items.length > 0 ? await database.getCachedTranslations(items, locale) : [];
+        return json({ success: true, translations: rows } satisfies AudarmaLookupResponse);
+      }
+
+      if (resolveSourceText) {
+        items = await resolveItems(items, resolveSourceText);
+      }
+
+      // Translate: only items that are missing or stale reach the LLM
+      const lookup = await lookupCachedTranslations(database, items, locale);
+      const result = await translateAndSave({
+        database,
+        llm,
+        items: lookup.uncachedItems,
+        sourceLocale,
+        targetLocale: locale,
+        pricing,
+        budget,
+        acceptIdentical,
+        debug,
+      });
+
+      if (result.budgetExceeded) {
+        throw new RequestError(429, `Translation budget exhausted (${result.budgetExceeded})`);
+      }
+
+      // Items without a valid translation are left out - the client keeps source text
+      const translations: TranslationResult[] = items.flatMap((item) => {
+        const key = translationKey(item.contentType, item.contentId);
+        const cached = key in lookup.cached;
+        const translatedText = cached ? lookup.cached[key] : result.translations[key];
+        if (translatedText === undefined) return [];
+        return [{ contentType: item.contentType, contentId: item.contentId, originalText: item.text, translatedText, cached }];
+      });
+
+      const cachedItems = items.length - lookup.uncachedItems.length;
+      const translatedItems = translations.length - cachedItems;
+
+      if (debug) {
+        console.log(
+          `[Audar] API: ${parsed.items.length} items for ${locale} - ` +
+          `${cachedItems} cached, ${translatedItems} translated, ${result.rejected.length} rejected` +
+          (resolveSourceText ? `, ${parsed.items.length - items.length} unknown` : '')
+        );
+      }
+
+      const response: TranslationResponse = {
+        success: true,
+        translations,
+        metadata: {
+          sourceLocale,
+          targetLocale: locale,
+          totalItems: parsed.items.length,
+          cachedItems,
+          translatedItems,
+          estimatedCost: pricing ? result.costs.cost : undefined,
+          timestamp: new Date().toISOString(),
+        },
+      };
+
+      return json(response);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return json({ success: false, error: error.message } satisfies AudarmaErrorResponse, error.status);
+      }
+
+      if (debug) {
+        console.error('[Audar] API error:', error);
+      }
+      return json({ success: false, error: 'Translation failed' } satisfies AudarmaErrorResponse, 500);
+    }
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Server-side View Translations
+ *
+ * Resolves a view's translations during server rendering (React Server
+ * Components, SSR), so translated pages render translated HTML on first paint.
+ * Pass the result to ViewTranslationProvider as `initialTranslations`; when it
+ * covers every item the client makes no translation requests at all.
+ *
+ * @example
+ * ```tsx
+ * // app/providers.tsx - AudarProvider's config holds functions, so it is
+ * // created on the client and wrapped around the app in the root layout
+ * 'use client';
+ * import { AudarProvider, createAudarmaClient } from 'audarma';
+ *
+ * const { database, llm } = createAudarmaClient();
+ *
+ * export function Providers({ children }) {
+ *   return <AudarProvider config={{ database, llm, i18n }}>{children}</AudarProvider>;
+ * }
+ *
+ * // app/[locale]/feed/page.tsx (server component)
+ * import { ViewTranslationProvider } from 'audarma';
+ * import { getViewTranslations } from 'audarma/server';
+ * import { ProductList } from './product-list'; // 'use client', calls useViewTranslation
+ *
+ * export default async function FeedPage({ params }) {
+ *   const products = await getProducts();
+ *   const items = products.map((p) => ({ contentType: 'product_title', contentId: p.id, text: p.title }));
+ *   const initialTranslations = await getViewTranslations({
+ *     viewName: 'feed',
+ *     items,
+ *     locale: params.locale,
+ *     database: databaseAdapter,
+ *   });
+ *
+ *   // ViewTranslationProvider is a client component: pass it plain data only
+ *   return (
+ *     <ViewTranslationProvider viewName="feed" items={items} initialTranslations={initialTranslations}>
+ *       <ProductList products={products} />
+ *     </ViewTranslationProvider>
+ *   );
+ * }
+ * ```
+ */
+
+import type {
+  BudgetConfig,
+  DatabaseAdapter,
+  InitialViewTranslations,
+  LLMProvider,
+  PricingTable,
+  ResilienceOptions,
+  TranslationItem,
+} from '../types';
+import { hashViewContent, lookupCachedTranslations, translateAndSave } from '../core/pipeline';
+import { resolveLLMProvider } from '../core/resilience';
+
+export interface GetViewTranslationsOptions {
+  viewName: string;
+  items: TranslationItem[];
+  locale: string;
+
+  database: DatabaseAdapter;
+
+  /**
+   * Source locale (default: 'en'). Requests for it resolve to no translations.
+   */
+  defaultLocale?: string;
+
+  /**
+   * Optional: Translate missing and stale items on the server before rendering.
+   * Without it, only cached translations are returned and the client
+   * translates the rest in the background.
+   */
+  llm?: LLMProvider;
+
+  /**
+   * Optional: Per-model pricing (for debug cost logs)
+   */
+  pricing?: PricingTable;
+
+  /**
+   * Optional: Spend caps for server-side translation
+   */
+  budget?: BudgetConfig;
+
+  /**
+   * Optional: Items whose translation may equal the source text, e.g. brand
+   * names. Other output identical to the source is never saved.
+   */
+  acceptIdentical?: (item: TranslationItem) => boolean;
+
+  /**
+   * Timeout, retry and circuit-breaker options for `llm` (default: the
+   * withResilience() defaults). `false` calls the provider directly;
+   * providers already wrapped with withResilience() are used as-is.
+   */
+  resilience?: ResilienceOptions | false;
+
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+/**
+ * Resolve cached (and optionally freshly translated) translations for a view
+ *
+ * Never throws: on adapter errors the view falls back to client-side
+ * translation, exactly as without server rendering.
+ */
+export async function getViewTranslations(options: GetViewTranslationsOptions): Promise<InitialViewTranslations> {
+  const { viewName, items, locale, database, defaultLocale = 'en', pricing, budget, acceptIdentical, resilience, debug } = options;
+  const llm = options.llm && resolveLLMProvider({ llm: options.llm, resilience, debug });
+
+  const result: InitialViewTranslations = {
+    viewName,
+    locale,
+    contentHash: hashViewContent(items),
+    translations: {},
+    missing: 0,
+  };
+
+  if (locale === defaultLocale || items.length === 0) {
+    return result;
+  }
+
+  try {
+    const lookup = await lookupCachedTranslations(database, items, locale);
+    result.translations = lookup.cached;
+    result.missing = lookup.uncachedItems.length;
+
+    if (llm && lookup.uncachedItems.length > 0) {
+      const translated = await translateAndSave({
+        database,
+        llm,
+        items: lookup.uncachedItems,
+        sourceLocale: defaultLocale,
+        targetLocale: locale,
+        pricing,
+        budget,
+        acceptIdentical,
+        debug,
+      });
+
+      Object.assign(result.translations, translated.translations);
+      result.missing -= Object.keys(translated.translations).length;
+    }
+
+    if (debug) {
+      console.log(
+        `[Audar] Server: ${Object.keys(result.translations).length} translations for ${viewName} (${locale}), ` +
+        `${result.missing} left to the client`
+      );
+    }
+  } catch (error) {
+    if (debug) {
+      console.error(`[Audar] Server: error resolving translations for ${viewName}:`, error);
+    }
+    result.missing = items.length - Object.keys(result.translations).length;
+  }
+
+  return result;
+}
@@ -0,0 +1,116 @@
+/**
+ * Conformance Runner
+ *
+ * Shared plumbing for the adapter conformance kits: runs named checks one
+ * after another, collects a report and (by default) throws when any check
+ * fails, so a kit works the same in Vitest, Jest, node:test or a plain script.
+ */
+
+export interface ConformanceCheck<T> {
+  name: string;
+  /**
+   * Skip the check unless the subject supports it (e.g. an optional method)
+   */
+  supported?(subject: T): boolean;
+  run(subject: T): Promise<void>;
+}
+
+export interface ConformanceFailure {
+  name: string;
+  error: string;
+}
+
+export interface ConformanceReport {
+  passed: string[];
+  failed: ConformanceFailure[];
+  /**
+   * Checks for optional features the subject does not implement, or skipped by name
+   */
+  skipped: string[];
+}
+
+export interface ConformanceOptions {
+  /**
+   * Names of checks to skip
+   */
+  skip?: string[];
+
+  /**
+   * Throw after all checks ran if any failed (default: true)
+   */
+  throwOnFailure?: boolean;
+
+  /**
+   * Log each check's outcome (default: false)
+   */
+  verbose?: boolean;
+}
+
+/**
+ * Run checks, each against a fresh subject
+ */
+export async function runConformanceChecks<T>(
+  kit: string,
+  checks: ConformanceCheck<T>[],
+  createSubject: () => T | Promise<T>,
+  options: ConformanceOptions & { teardown?(subject: T): void | Promise<void> } = {}
+): Promise<ConformanceReport> {
+  const { skip = [], throwOnFailure = true, verbose = false } = options;
+  const report: ConformanceReport = { passed: [], failed: [], skipped: [] };
+
+  for (const check of checks) {
+    if (skip.includes(check.name)) {
+      report.skipped.push(check.name);
+      continue;
+    }
+
+    const subject = await createSubject();
+
+    try {
+      if (check.supported && !check.supported(subject)) {
+        report.skipped.push(check.name);
+        if (verbose) console.log(`  ⏭️  ${check.name} (not supported)`);
+        continue;
+      }
+
+      await check.run(subject);
+      report.passed.push(check.name);
+      if (verbose) console.log(`  ✅ ${check.name}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      report.failed.push({ name: check.name, error: message });
+      if (verbose) console.log(`  ❌ ${check.name}: ${message}`);
+    } finally {
+      await options.teardown?.(subject);
+    }
+  }
+
+  if (throwOnFailure && report.failed.length > 0) {
+    throw new Error(
+      `${kit}: ${report.failed.length} of ${checks.length} checks failed\n` +
+      report.failed.map((failure) => `  - ${failure.name}: ${failure.error}`).join('\n')
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Fail a check with a message
+ */
+export function check(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+/**
+ * Fail a check unless both values serialize to the same JSON
+ */
+export function checkEqual(actual: unknown, expected: unknown, message: string): void {
+  const actualJson = JSON.stringify(actual);
+  const expectedJson = JSON.stringify(expected);
+  if (actualJson !== expectedJson) {
+    throw new Error(`${message}\n    expected: ${expectedJson}\n    actual:   ${actualJson}`);
+  }
+}
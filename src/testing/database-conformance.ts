@@ -0,0 +1,374 @@
+/**
+ * DatabaseAdapter Conformance Kit
+ *
+ * Checks the rules every DatabaseAdapter must follow: locale filtering,
+ * returning `source_hash`, upsert overwrite semantics, deduplicating
+ * (content_type, content_id, locale) within one save (README "Bug 2"),
+ * empty inputs, large batches, and - for the optional methods an adapter
+ * implements - coverage lookups, cache management, budget counters and
+ * getAllTranslatableContent filtering.
+ *
+ * The factory is called once per check and must return an adapter over an
+ * empty translations table. It receives a fixture describing source rows;
+ * adapters implementing getAllTranslatableContent must make them readable
+ * under `fixture.table`.
+ *
+ * @example
+ * ```ts
+ * import Database from 'better-sqlite3';
+ * import { runDatabaseAdapterConformance } from 'audarma';
+ * import { createSQLiteAdapter } from 'audarma/server';
+ *
+ * test('SQLite adapter conforms', async () => {
+ *   await runDatabaseAdapterConformance(({ table, rows }) => {
+ *     const db = new Database(':memory:');
+ *     db.exec(`CREATE TABLE ${table} (id INTEGER, title TEXT, description TEXT, status TEXT, category TEXT)`);
+ *     const insert = db.prepare(`INSERT INTO ${table} VALUES (@id, @title, @description, @status, @category)`);
+ *     rows.forEach((row) => insert.run(row));
+ *     return createSQLiteAdapter(db);
+ *   });
+ * });
+ * ```
+ */
+
+import type {
+  DatabaseAdapter,
+  StoredTranslation,
+  TranslationItem,
+} from '../types';
+import type { ContentSource } from '../types/content-sources';
+import { hashSourceText } from '../core/source-hash';
+import {
+  check,
+  checkEqual,
+  runConformanceChecks,
+  type ConformanceCheck,
+  type ConformanceOptions,
+  type ConformanceReport,
+} from './conformance';
+
+/**
+ * Source row of the conformance fixture
+ */
+export interface ConformanceProductRow {
+  id: number;
+  title: string | null;
+  description: string | null;
+  status: string;
+  category: string | null;
+}
+
+/**
+ * Source content the factory must expose to getAllTranslatableContent
+ */
+export interface DatabaseConformanceFixture {
+  /**
+   * Table (or model) name, as used in `contentSources`
+   */
+  table: string;
+  rows: ConformanceProductRow[];
+  contentSources: ContentSource[];
+}
+
+export type DatabaseAdapterFactory = (
+  fixture: DatabaseConformanceFixture
+) => DatabaseAdapter | Promise<DatabaseAdapter>;
+
+export interface DatabaseConformanceOptions extends ConformanceOptions {
+  /**
+   * Source table name passed to the factory (default: 'audarma_conformance_products')
+   */
+  table?: string;
+
+  /**
+   * Items saved by the large batch check (default: 1200)
+   */
+  largeBatchSize?: number;
+
+  /**
+   * Called after each check, e.g. to close a connection or drop tables
+   */
+  teardown?(adapter: DatabaseAdapter): void | Promise<void>;
+}
+
+const PRODUCTS: ConformanceProductRow[] = [
+  { id: 1, title: 'Red shoes', description: 'Comfortable', status: 'published', category: 'shoes' },
+  { id: 2, title: 'Blue hat', description: null, status: 'draft', category: 'hats' },
+  { id: 3, title: '', description: 'No title', status: 'published', category: 'bags' },
+  { id: 4, title: 'Green bag', description: 'Roomy', status: 'published', category: 'bags' },
+  { id: 5, title: 'Gift card', description: 'Any amount', status: 'archived', category: null },
+];
+
+function fixtureFor(table: string): DatabaseConformanceFixture {
+  return {
+    table,
+    rows: PRODUCTS.map((row) => ({ ...row })),
+    contentSources: [
+      {
+        table,
+        idColumn: 'id',
+        where: { status: 'published' },
+        items: [
+          { contentType: 'conformance_title', textColumn: 'title' },
+          { contentType: 'conformance_description', textColumn: 'description', where: { category: ['shoes', 'bags'] } },
+        ],
+      },
+      {
+        table,
+        idColumn: 'id',
+        where: { category: null },
+        items: [{ contentType: 'conformance_uncategorized', textColumn: 'title' }],
+      },
+    ],
+  };
+}
+
+function row(
+  contentType: string,
+  contentId: string,
+  locale: string,
+  text: string,
+  translated = `${locale}:${text}`
+): StoredTranslation {
+  return {
+    content_type: contentType,
+    content_id: contentId,
+    locale,
+    original_text: text,
+    translated_text: translated,
+    source_hash: hashSourceText(text),
+  };
+}
+
+function item(contentType: string, contentId: string, text = ''): TranslationItem {
+  return { contentType, contentId, text };
+}
+
+/**
+ * Sorted "type|id|text|hash" lines, independent of row order and extra columns
+ */
+function summarize(rows: Array<{ content_type: string; content_id: string; translated_text?: string; source_hash?: string }>): string[] {
+  return rows
+    .map((r) => [r.content_type, r.content_id, r.translated_text, r.source_hash].filter((v) => v !== undefined).join('|'))
+    .sort();
+}
+
+const databaseChecks = (fixture: DatabaseConformanceFixture, largeBatchSize: number): ConformanceCheck<DatabaseAdapter>[] => [
+  {
+    name: 'handles empty inputs',
+    async run(db) {
+      checkEqual(await db.getCachedTranslations([], 'ru'), [], 'getCachedTranslations([]) should return []');
+      await db.saveTranslations([]);
+      if (db.getTranslationCoverage) {
+        checkEqual(await db.getTranslationCoverage([], ['ru']), [], 'getTranslationCoverage([]) should return []');
+      }
+    },
+  },
+  {
+    name: 'round-trips saved translations with source_hash',
+    async run(db) {
+      const saved = [row('t_title', '1', 'ru', 'Red shoes'), row('t_title', '2', 'ru', 'Blue hat')];
+      await db.saveTranslations(saved);
+      const rows = await db.getCachedTranslations([item('t_title', '1'), item('t_title', '2')], 'ru');
+      checkEqual(summarize(rows), summarize(saved), 'getCachedTranslations should return saved rows');
+    },
+  },
+  {
+    name: 'returns only requested items',
+    async run(db) {
+      await db.saveTranslations([row('t_title', '1', 'ru', 'Red shoes'), row('t_title', '2', 'ru', 'Blue hat')]);
+      const rows = await db.getCachedTranslations([item('t_title', '2'), item('t_title', '404')], 'ru');
+      checkEqual(summarize(rows), summarize([row('t_title', '2', 'ru', 'Blue hat')]), 'only item 2 should be returned');
+    },
+  },
+  {
+    name: 'filters by locale',
+    async run(db) {
+      await db.saveTranslations([row('t_title', '1', 'ru', 'Red shoes'), row('t_title', '1', 'kk', 'Red shoes')]);
+      const rows = await db.getCachedTranslations([item('t_title', '1')], 'kk');
+      checkEqual(summarize(rows), summarize([row('t_title', '1', 'kk', 'Red shoes')]), 'only the kk row should be returned');
+      checkEqual(await db.getCachedTranslations([item('t_title', '1')], 'ja'), [], 'an untranslated locale should return []');
+    },
+  },
+  {
+    name: 'keys rows by content type and id',
+    async run(db) {
+      await db.saveTranslations([row('t_title', '1', 'ru', 'Title'), row('t_body', '1', 'ru', 'Body')]);
+      const rows = await db.getCachedTranslations([item('t_body', '1')], 'ru');
+      checkEqual(summarize(rows), summarize([row('t_body', '1', 'ru', 'Body')]), 'same id under another content type should be separate');
+    },
+  },
+  {
+    name: 'overwrites on upsert',
+    async run(db) {
+      await db.saveTranslations([row('t_title', '1', 'ru', 'Old title')]);
+      await db.saveTranslations([row('t_title', '1', 'ru', 'New title')]);
+      const rows = await db.getCachedTranslations([item('t_title', '1')], 'ru');
+      checkEqual(summarize(rows), summarize([row('t_title', '1', 'ru', 'New title')]), 'second save should replace text and source_hash');
+    },
+  },
+  {
+    name: 'isolates locales on overwrite',
+    async run(db) {
+      await db.saveTranslations([row('t_title', '1', 'ru', 'Old title'), row('t_title', '1', 'kk', 'Old title')]);
+      await db.saveTranslations([row('t_title', '1', 'ru', 'New title')]);
+      const rows = await db.getCachedTranslations([item('t_title', '1')], 'kk');
+      checkEqual(summarize(rows), summarize([row('t_title', '1', 'kk', 'Old title')]), 'overwriting ru must not touch kk');
+    },
+  },
+  {
+    name: 'deduplicates keys within one save (last wins)',
+    async run(db) {
+      await db.saveTranslations([row('t_title', '1', 'ru', 'First'), row('t_title', '1', 'ru', 'Second')]);
+      const rows = await db.getCachedTranslations([item('t_title', '1')], 'ru');
+      checkEqual(summarize(rows), summarize([row('t_title', '1', 'ru', 'Second')]), 'duplicate keys should collapse to the last row');
+    },
+  },
+  {
+    name: 'preserves special characters',
+    async run(db) {
+      const saved = [
+        row('t_title', `quote'"id:1`, 'ru', 'Line 1\nLine 2 — "quoted"', 'Строка 1\nСтрока 2 — «цитата» 🎉'),
+        row('t_title', 'sql; DROP TABLE x', 'ru', 'Text'),
+      ];
+      await db.saveTranslations(saved);
+      const rows = await db.getCachedTranslations(saved.map((r) => item(r.content_type, r.content_id)), 'ru');
+      checkEqual(summarize(rows), summarize(saved), 'ids and texts should round-trip unchanged');
+    },
+  },
+  {
+    name: 'handles large batches',
+    async run(db) {
+      const saved = Array.from({ length: largeBatchSize }, (_, i) => row('t_bulk', String(i), 'ru', `Item ${i}`));
+      await db.saveTranslations(saved);
+      const rows = await db.getCachedTranslations(saved.map((r) => item(r.content_type, r.content_id)), 'ru');
+      check(rows.length === largeBatchSize, `expected ${largeBatchSize} rows, got ${rows.length}`);
+      checkEqual(summarize(rows), summarize(saved), 'every row of a large batch should round-trip');
+    },
+  },
+  {
+    name: 'getTranslationCoverage returns locale and source_hash',
+    supported: (db) => Boolean(db.getTranslationCoverage),
+    async run(db) {
+      await db.saveTranslations([
+        row('t_title', '1', 'ru', 'Red shoes'),
+        row('t_title', '1', 'kk', 'Red shoes'),
+        row('t_title', '2', 'ru', 'Blue hat'),
+        row('t_title', '2', 'ja', 'Blue hat'),
+      ]);
+      const coverage = await db.getTranslationCoverage!([item('t_title', '1'), item('t_title', '2')], ['ru', 'kk']);
+      checkEqual(
+        coverage.map((r) => `${r.content_type}|${r.content_id}|${r.locale}|${r.source_hash}`).sort(),
+        [
+          `t_title|1|kk|${hashSourceText('Red shoes')}`,
+          `t_title|1|ru|${hashSourceText('Red shoes')}`,
+          `t_title|2|ru|${hashSourceText('Blue hat')}`,
+        ],
+        'coverage should list rows of the requested locales only'
+      );
+    },
+  },
+  {
+    name: 'deleteTranslations deletes matching rows',
+    supported: (db) => Boolean(db.deleteTranslations),
+    async run(db) {
+      await db.saveTranslations([
+        row('t_title', '1', 'ru', 'A'),
+        row('t_title', '1', 'kk', 'A'),
+        row('t_title', '2', 'ru', 'B'),
+        row('t_body', '1', 'ru', 'C'),
+      ]);
+      const deleted = await db.deleteTranslations!({ contentType: 't_title', contentIds: ['1'], locales: ['ru'] });
+      check(deleted === 1, `expected 1 deleted row, got ${deleted}`);
+      const remaining = await db.getCachedTranslations([item('t_title', '1'), item('t_title', '2'), item('t_body', '1')], 'ru');
+      checkEqual(summarize(remaining).map((line) => line.split('|').slice(0, 2).join('|')), ['t_body|1', 't_title|2'], 'only the filtered row should be gone');
+    },
+  },
+  {
+    name: 'listTranslations pages in key order',
+    supported: (db) => Boolean(db.listTranslations),
+    async run(db) {
+      await db.saveTranslations([
+        row('t_title', '2', 'ru', 'B'),
+        row('t_title', '1', 'ru', 'A'),
+        row('t_title', '1', 'kk', 'A'),
+        row('t_body', '1', 'ru', 'C'),
+      ]);
+      const key = (r: StoredTranslation) => `${r.content_type}|${r.content_id}|${r.locale}`;
+      const first = await db.listTranslations!({ contentType: 't_title' }, { limit: 2 });
+      const second = await db.listTranslations!({ contentType: 't_title' }, { limit: 2, offset: 2 });
+      checkEqual(first.map(key), ['t_title|1|kk', 't_title|1|ru'], 'first page');
+      checkEqual(second.map(key), ['t_title|2|ru'], 'second page');
+      check(first[0].original_text === 'A' && first[0].source_hash === hashSourceText('A'), 'rows should include original_text and source_hash');
+    },
+  },
+  {
+    name: 'countTranslations groups counts',
+    supported: (db) => Boolean(db.countTranslations),
+    async run(db) {
+      await db.saveTranslations([
+        row('t_title', '1', 'ru', 'A'),
+        row('t_title', '2', 'ru', 'B'),
+        row('t_title', '1', 'kk', 'A'),
+        row('t_body', '1', 'ru', 'C'),
+      ]);
+      const byLocale = await db.countTranslations!(['locale']);
+      checkEqual(byLocale.map((c) => `${c.locale}=${c.count}`).sort(), ['kk=1', 'ru=3'], 'counts by locale');
+      const total = await db.countTranslations!([], { contentType: 't_title' });
+      checkEqual(total.map((c) => c.count), [3], 'filtered total');
+    },
+  },
+  {
+    name: 'incrementBudgetCounter increments and expires',
+    supported: (db) => Boolean(db.incrementBudgetCounter),
+    async run(db) {
+      const later = new Date(Date.now() + 60_000);
+      check((await db.incrementBudgetCounter!('conformance', 5, later)) === 5, 'a new counter should start at the amount');
+      check((await db.incrementBudgetCounter!('conformance', 3, later)) === 8, 'increments should add up');
+      check((await db.incrementBudgetCounter!('conformance', -2, later)) === 6, 'negative amounts should subtract');
+
+      await db.incrementBudgetCounter!('conformance_expired', 5, new Date(Date.now() - 1000));
+      const restarted = await db.incrementBudgetCounter!('conformance_expired', 2, later);
+      check(restarted === 2, `an expired counter should restart, got ${restarted}`);
+    },
+  },
+  {
+    name: 'getAllTranslatableContent applies where filters',
+    supported: (db) => Boolean(db.getAllTranslatableContent),
+    async run(db) {
+      const content = await db.getAllTranslatableContent!(fixture.contentSources);
+      checkEqual(
+        content.map((c) => `${c.contentType}|${c.contentId}|${c.text}`).sort(),
+        [
+          'conformance_description|1|Comfortable',
+          'conformance_description|3|No title',
+          'conformance_description|4|Roomy',
+          'conformance_title|1|Red shoes',
+          'conformance_title|4|Green bag',
+          'conformance_uncategorized|5|Gift card',
+        ],
+        'content should match source/item where filters, skip empty text and use string ids'
+      );
+    },
+  },
+];
+
+/**
+ * Run the DatabaseAdapter conformance checks
+ *
+ * @returns Report of passed, failed and skipped checks
+ * @throws If any check fails (unless `throwOnFailure: false`)
+ */
+export async function runDatabaseAdapterConformance(
+  factory: DatabaseAdapterFactory,
+  options: DatabaseConformanceOptions = {}
+): Promise<ConformanceReport> {
+  const fixture = fixtureFor(options.table ?? 'audarma_conformance_products');
+
+  return runConformanceChecks(
+    'DatabaseAdapter conformance',
+    databaseChecks(fixture, options.largeBatchSize ?? 1200),
+    () => factory(fixtureFor(fixture.table)),
+    options
+  );
+}
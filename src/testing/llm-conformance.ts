@@ -0,0 +1,302 @@
+/**
+ * LLMProvider Conformance Kit
+ *
+ * Checks the rules every LLMProvider must follow: translations come back in
+ * input order, a model answering with too few or too many items is reported
+ * instead of papered over (no source-text fallback, no misaligned output),
+ * empty batches never reach the model, model errors propagate, and unicode
+ * and markup (HTML, markdown, placeholders, newlines, quotes) survive the
+ * provider's prompt and response parsing. translateBatchStream is checked
+ * too when the provider implements it.
+ *
+ * No network is needed: the factory receives a scripted model and wires it
+ * into the provider's transport (usually a fake `fetch`), encoding
+ * `model.next()` in the API's response format. The factory is called once
+ * per check.
+ *
+ * @example
+ * ```ts
+ * import { keyedBatch, runLLMProviderConformance } from 'audarma';
+ * import { createOpenAIProvider } from 'audarma/adapters/examples/openai-llm-provider';
+ *
+ * test('OpenAI provider conforms', async () => {
+ *   await runLLMProviderConformance((model) => {
+ *     vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+ *       const content = JSON.stringify(keyedBatch(model.next()));
+ *       if (JSON.parse(String(init.body)).stream) {
+ *         const delta = JSON.stringify({ choices: [{ delta: { content } }] });
+ *         return new Response(`data: ${delta}\n\ndata: [DONE]\n\n`);
+ *       }
+ *       return Response.json({ choices: [{ message: { content } }] });
+ *     });
+ *     return createOpenAIProvider({ apiKey: 'test' });
+ *   });
+ * });
+ * ```
+ */
+
+import type { LLMProvider, TranslationItem } from '../types';
+import {
+  check,
+  checkEqual,
+  runConformanceChecks,
+  type ConformanceCheck,
+  type ConformanceOptions,
+  type ConformanceReport,
+} from './conformance';
+
+/**
+ * Model behind the provider under test, scripted by each check
+ */
+export interface ScriptedLLMModel {
+  /**
+   * Translations the model answers the current request with, in order.
+   * Throws when the check scripted a model failure.
+   */
+  next(): string[];
+
+  /**
+   * Requests answered so far
+   */
+  readonly calls: number;
+}
+
+export type LLMProviderFactory = (model: ScriptedLLMModel) => LLMProvider | Promise<LLMProvider>;
+
+export interface LLMConformanceOptions extends ConformanceOptions {
+  /**
+   * Called after each check, e.g. to restore a stubbed `fetch`
+   */
+  teardown?(provider: LLMProvider): void | Promise<void>;
+}
+
+interface Subject {
+  provider: LLMProvider;
+  model: ScriptedLLMModel;
+  script(...replies: Array<string[] | Error>): void;
+}
+
+function createScriptedModel() {
+  const replies: Array<string[] | Error> = [];
+  let calls = 0;
+
+  const model: ScriptedLLMModel = {
+    next() {
+      calls++;
+      const reply = replies.shift();
+      if (!reply) {
+        throw new Error('Scripted model received an unexpected request');
+      }
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      return reply;
+    },
+    get calls() {
+      return calls;
+    },
+  };
+
+  return {
+    model,
+    script: (...next: Array<string[] | Error>) => { replies.push(...next); },
+  };
+}
+
+function items(texts: string[]): TranslationItem[] {
+  return texts.map((text, i) => ({ contentType: 'conformance', contentId: String(i + 1), text }));
+}
+
+const SOURCE = ['One', 'Two', 'Three'];
+const TRANSLATED = ['Один', 'Два', 'Три'];
+
+const UNICODE = [
+  'Привет, мир',
+  'مرحبا بالعالم',
+  'שלום עולם',
+  '你好，世界',
+  'こんにちは世界',
+  'Café naïve – “smart quotes”',
+  'e\u0301 combining accent',
+  'Emoji 👋🏽 and family 👨‍👩‍👧',
+  '𝔘𝔫𝔦𝔠𝔬𝔡𝔢 outside the BMP',
+];
+
+const MARKUP = [
+  '<a href="/products?id=1&sort=asc">Buy <strong>now</strong></a>',
+  '**Bold**, _italic_ and [a link](https://example.com/a_b)',
+  'You have {count} items in {cart_name}',
+  '%s added %d items, {{user}} and ${total}',
+  'First line\nSecond line\n\nNew paragraph',
+  'He said "hello" and it\'s fine',
+  'Path C:\\Users\\audarma and a tab\there',
+  '`inline code` and <br/> tags',
+];
+
+async function collectStream(provider: LLMProvider, input: TranslationItem[]): Promise<Array<string | undefined>> {
+  const results: Array<string | undefined> = [];
+  for await (const { index, text } of provider.translateBatchStream!(input, 'en', 'ru')) {
+    check(results[index] === undefined, `translateBatchStream yielded index ${index} twice`);
+    results[index] = text;
+  }
+  return results;
+}
+
+/**
+ * A count mismatch must not produce a full, plausible-looking result: the
+ * provider either throws, returns something the caller can detect (a
+ * different length or missing entries), or - aligning by id - returns
+ * exactly the translations that match an input item
+ */
+async function checkMismatchDetected(
+  subject: Subject,
+  reply: string[],
+  input: TranslationItem[],
+  aligned?: string[]
+) {
+  subject.script(reply);
+
+  let result: unknown;
+  try {
+    result = await subject.provider.translateBatch(input, 'en', 'ru');
+  } catch {
+    return;
+  }
+
+  check(Array.isArray(result), 'translateBatch should return an array');
+  if (aligned && JSON.stringify(result) === JSON.stringify(aligned)) return;
+
+  const complete = result.length === input.length && result.every((text) => typeof text === 'string');
+  check(
+    !complete,
+    `Model answered ${reply.length} translations for ${input.length} items, but translateBatch returned ` +
+    `${JSON.stringify(result)} - leave missing items undefined (or throw) instead of filling the gap`
+  );
+}
+
+const isStreaming = ({ provider }: Subject) => typeof provider.translateBatchStream === 'function';
+
+const llmChecks: ConformanceCheck<Subject>[] = [
+  {
+    name: 'preserves item order',
+    async run({ provider, script }) {
+      script(TRANSLATED);
+      checkEqual(await provider.translateBatch(items(SOURCE), 'en', 'ru'), TRANSLATED, 'Translations should follow input order');
+    },
+  },
+  {
+    name: 'translates a single item',
+    async run({ provider, script }) {
+      script(['Привет']);
+      checkEqual(await provider.translateBatch(items(['Hello']), 'en', 'ru'), ['Привет'], 'Single-item batch');
+    },
+  },
+  {
+    name: 'handles empty batches without calling the model',
+    async run({ provider, model }) {
+      checkEqual(await provider.translateBatch([], 'en', 'ru'), [], 'translateBatch([]) should return []');
+      check(model.calls === 0, `translateBatch([]) should not call the model (called ${model.calls} times)`);
+    },
+  },
+  {
+    name: 'detects missing translations',
+    async run(subject) {
+      await checkMismatchDetected(subject, TRANSLATED.slice(0, 2), items(SOURCE));
+    },
+  },
+  {
+    name: 'detects or drops extra translations',
+    async run(subject) {
+      await checkMismatchDetected(subject, [...TRANSLATED, 'Четыре'], items(SOURCE), TRANSLATED);
+    },
+  },
+  {
+    name: 'propagates model errors',
+    async run({ provider, script }) {
+      script(new Error('503 Service Unavailable'));
+
+      let result: unknown;
+      try {
+        result = await provider.translateBatch(items(SOURCE), 'en', 'ru');
+      } catch {
+        return;
+      }
+      throw new Error(`translateBatch should throw when the model fails, got ${JSON.stringify(result)}`);
+    },
+  },
+  {
+    name: 'preserves unicode',
+    async run({ provider, script }) {
+      script(UNICODE);
+      checkEqual(await provider.translateBatch(items(UNICODE), 'en', 'ru'), UNICODE, 'Unicode should round-trip');
+    },
+  },
+  {
+    name: 'preserves markup and placeholders',
+    async run({ provider, script }) {
+      script(MARKUP);
+      checkEqual(await provider.translateBatch(items(MARKUP), 'en', 'ru'), MARKUP, 'Markup should round-trip');
+    },
+  },
+  {
+    name: 'translateBatchStream preserves item order',
+    supported: isStreaming,
+    async run({ provider, script }) {
+      script(TRANSLATED);
+      checkEqual(await collectStream(provider, items(SOURCE)), TRANSLATED, 'Streamed translations should follow input order');
+    },
+  },
+  {
+    name: 'translateBatchStream handles empty batches without calling the model',
+    supported: isStreaming,
+    async run({ provider, model }) {
+      checkEqual(await collectStream(provider, []), [], 'translateBatchStream([]) should yield nothing');
+      check(model.calls === 0, `translateBatchStream([]) should not call the model (called ${model.calls} times)`);
+    },
+  },
+  {
+    name: 'translateBatchStream propagates model errors',
+    supported: isStreaming,
+    async run({ provider, script }) {
+      script(new Error('503 Service Unavailable'));
+
+      let result: unknown;
+      try {
+        result = await collectStream(provider, items(SOURCE));
+      } catch {
+        return;
+      }
+      throw new Error(`translateBatchStream should throw when the model fails, got ${JSON.stringify(result)}`);
+    },
+  },
+  {
+    name: 'translateBatchStream preserves unicode and markup',
+    supported: isStreaming,
+    async run({ provider, script }) {
+      const texts = [...UNICODE, ...MARKUP];
+      script(texts);
+      checkEqual(await collectStream(provider, items(texts)), texts, 'Streamed unicode and markup should round-trip');
+    },
+  },
+];
+
+/**
+ * Run the LLMProvider conformance checks
+ *
+ * @returns Report of passed, failed and skipped checks
+ * @throws If any check fails (unless `throwOnFailure: false`)
+ */
+export async function runLLMProviderConformance(
+  factory: LLMProviderFactory,
+  options: LLMConformanceOptions = {}
+): Promise<ConformanceReport> {
+  return runConformanceChecks(
+    'LLMProvider conformance',
+    llmChecks,
+    async () => {
+      const { model, script } = createScriptedModel();
+      return { provider: await factory(model), model, script };
+    },
+    { ...options, teardown: options.teardown && (({ provider }) => options.teardown!(provider)) }
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * Mock LLM Provider
+ *
+ * Deterministic LLMProvider for tests and offline CI: no network, no API
+ * keys. By default every item translates to `[locale] text`. Scripted
+ * responses replay exact outputs, failures and malformed output (missing,
+ * extra, reordered, empty or untranslated items) call by call, and latency
+ * can be simulated per call and per streamed item.
+ *
+ * @example
+ * ```ts
+ * import { createMockLLMProvider } from 'audarma';
+ *
+ * const llm = createMockLLMProvider({
+ *   responses: [
+ *     ['Привет', 'Мир'],                 // 1st call
+ *     new Error('503 Service Unavailable'), // 2nd call throws
+ *     { malformed: 'missing' },           // 3rd call drops the last item
+ *   ],                                    // later calls use translate()
+ *   latencyMs: 50,
+ * });
+ *
+ * await llm.translateBatch(items, 'en', 'ru');
+ * expect(llm.calls).toHaveLength(1);
+ * ```
+ */
+
+import type { LLMProvider, StreamedTranslation, TranslateBatchOptions, TranslationItem } from '../types';
+import { estimateBatchUsage } from '../core/cost';
+
+/**
+ * Ways a scripted response can deviate from a correct translation
+ * - missing: the last item is dropped
+ * - extra: an unrequested item is appended
+ * - reversed: items come back in reverse order
+ * - empty: every translation is an empty string
+ * - untranslated: every translation is the source text
+ */
+export type MalformedOutput = 'missing' | 'extra' | 'reversed' | 'empty' | 'untranslated';
+
+/**
+ * One scripted call: exact translations, an error to throw, malformed
+ * output, or a function computing the translations
+ */
+export type MockLLMResponse =
+  | string[]
+  | Error
+  | { malformed: MalformedOutput }
+  | ((items: TranslationItem[], sourceLocale: string, targetLocale: string) => string[] | Promise<string[]>);
+
+export interface MockLLMProviderOptions {
+  /**
+   * Model name reported for pricing (default: 'mock')
+   */
+  model?: string;
+
+  /**
+   * Translation of one item when no scripted response applies
+   * (default: `[${targetLocale}] ${item.text}`)
+   */
+  translate?(item: TranslationItem, sourceLocale: string, targetLocale: string): string;
+
+  /**
+   * Responses for consecutive calls; once used up, calls fall back to translate()
+   */
+  responses?: MockLLMResponse[];
+
+  /**
+   * Delay before each call responds (default: 0)
+   */
+  latencyMs?: number;
+
+  /**
+   * Delay between streamed items (default: 0)
+   */
+  streamDelayMs?: number;
+
+  /**
+   * Implement translateBatchStream (default: true)
+   */
+  stream?: boolean;
+
+  /**
+   * Report estimated token usage through onUsage (default: true)
+   */
+  reportUsage?: boolean;
+}
+
+/**
+ * A call received by the mock
+ */
+export interface MockLLMCall {
+  items: TranslationItem[];
+  sourceLocale: string;
+  targetLocale: string;
+  stream: boolean;
+}
+
+export interface MockLLMProvider extends LLMProvider {
+  /**
+   * Calls received so far, in order
+   */
+  readonly calls: MockLLMCall[];
+
+  /**
+   * Queue more scripted responses
+   */
+  enqueue(...responses: MockLLMResponse[]): void;
+
+  /**
+   * Forget recorded calls and queued responses
+   */
+  reset(): void;
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+function applyMalformed(translations: string[], items: TranslationItem[], malformed: MalformedOutput): string[] {
+  switch (malformed) {
+    case 'missing':
+      return translations.slice(0, -1);
+    case 'extra':
+      return [...translations, 'Unrequested translation'];
+    case 'reversed':
+      return [...translations].reverse();
+    case 'empty':
+      return translations.map(() => '');
+    case 'untranslated':
+      return items.map((item) => item.text);
+  }
+}
+
+export function createMockLLMProvider(options: MockLLMProviderOptions = {}): MockLLMProvider {
+  const {
+    model = 'mock',
+    translate = (item: TranslationItem, _sourceLocale: string, targetLocale: string) => `[${targetLocale}] ${item.text}`,
+    latencyMs = 0,
+    streamDelayMs = 0,
+    stream = true,
+    reportUsage = true,
+  } = options;
+
+  const calls: MockLLMCall[] = [];
+  let queue: MockLLMResponse[] = [...(options.responses ?? [])];
+
+  async function respond(
+    items: TranslationItem[],
+    sourceLocale: string,
+    targetLocale: string,
+    isStream: boolean,
+    callOptions?: TranslateBatchOptions
+  ): Promise<string[]> {
+    calls.push({ items, sourceLocale, targetLocale, stream: isStream });
+
+    // Like the real providers, an empty batch never reaches the model
+    if (items.length === 0) {
+      return [];
+    }
+
+    const response = queue.shift();
+
+    await sleep(latencyMs);
+
+    if (response instanceof Error) {
+      throw response;
+    }
+
+    const correct = items.map((item) => translate(item, sourceLocale, targetLocale));
+    let translations: string[];
+
+    if (Array.isArray(response)) {
+      translations = response;
+    } else if (typeof response === 'function') {
+      translations = await response(items, sourceLocale, targetLocale);
+    } else if (response) {
+      translations = applyMalformed(correct, items, response.malformed);
+    } else {
+      translations = correct;
+    }
+
+    if (reportUsage) {
+      callOptions?.onUsage?.({ ...estimateBatchUsage(items), model });
+    }
+
+    return translations;
+  }
+
+  const provider: MockLLMProvider = {
+    model,
+    calls,
+
+    async translateBatch(items, sourceLocale, targetLocale, callOptions) {
+      return respond(items, sourceLocale, targetLocale, false, callOptions);
+    },
+
+    enqueue(...responses) {
+      queue.push(...responses);
+    },
+
+    reset() {
+      calls.length = 0;
+      queue = [];
+    },
+  };
+
+  if (stream) {
+    provider.translateBatchStream = async function* (
+      items,
+      sourceLocale,
+      targetLocale,
+      callOptions
+    ): AsyncGenerator<StreamedTranslation> {
+      const translations = await respond(items, sourceLocale, targetLocale, true, callOptions);
+
+      for (const [index, text] of translations.entries()) {
+        if (index > 0) await sleep(streamDelayMs);
+        yield { index, text };
+      }
+    };
+  }
+
+  return provider;
+}
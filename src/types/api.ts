@@ -0,0 +1,44 @@
+/**
+ * Audarma API Types
+ * Request/response bodies exchanged between createAudarmaClient() in the
+ * browser and createAudarmaRouteHandler() on the server
+ */
+
+import type { CachedTranslation, TranslationItem, TranslationResponse } from './index';
+
+/**
+ * Look up cached translations (no LLM call)
+ */
+export interface AudarmaLookupRequest {
+  action: 'lookup';
+  locale: string;
+  items: TranslationItem[];
+}
+
+/**
+ * Translate missing or stale items and save them on the server
+ */
+export interface AudarmaTranslateRequest {
+  action: 'translate';
+  locale: string;
+  items: TranslationItem[];
+}
+
+export type AudarmaApiRequest = AudarmaLookupRequest | AudarmaTranslateRequest;
+
+/**
+ * An item without its text, as passed to the route handler's resolveSourceText
+ */
+export type AudarmaContentRef = Pick<TranslationItem, 'contentType' | 'contentId'>;
+
+export interface AudarmaLookupResponse {
+  success: true;
+  translations: CachedTranslation[];
+}
+
+export type AudarmaTranslateResponse = TranslationResponse;
+
+export interface AudarmaErrorResponse {
+  success: false;
+  error: string;
+}
@@ -3,6 +3,16 @@
  * Used by CLI to discover translatable content
  */
 
+import type {
+  BudgetConfig,
+  CircuitBreakerOptions,
+  DatabaseAdapter,
+  LLMProvider,
+  PricingTable,
+  RetryOptions,
+  TranslationItem,
+} from './index';
+
 /**
  * Defines where to find translatable content in database
  */
@@ -22,7 +32,7 @@ export interface ContentSourceItem {
    * Optional: SQL WHERE clause conditions
    * Example: { status: 'published', is_verified: true }
    */
-  where?: Record<string, any>;
+  where?: Record<string, unknown>;
 }
 
 /**
@@ -48,7 +58,7 @@ export interface ContentSource {
    * Optional: SQL WHERE clause for filtering rows
    * Example: { status: 'published' }
    */
-  where?: Record<string, any>;
+  where?: Record<string, unknown>;
 }
 
 /**
@@ -87,6 +97,86 @@ export interface AudarCLIConfig {
    * Optional: Maximum items to translate (for testing)
    */
   maxItems?: number;
+
+  /**
+   * Optional: Retry failed batches with jittered exponential backoff,
+   * honouring the API's Retry-After (default: 3 retries, starting at 1s, capped at 30s)
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Optional: Abort LLM requests running longer than this (default: 60000)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Optional: Stop sending requests while the LLM API keeps failing, then
+   * wait for it to recover before the next batch (default: open after 5
+   * consecutive failures for 30s). `false` disables it.
+   */
+  circuitBreaker?: Omit<CircuitBreakerOptions, 'whenOpen'> | false;
+
+  /**
+   * Optional: Checkpoint file used by `--resume` (default: .audarma-journal.jsonl)
+   */
+  journalPath?: string;
+
+  /**
+   * Optional: Per-model pricing for cost reporting and `--dry-run` estimates
+   */
+  pricing?: PricingTable;
+  /**
+   * Optional: Spend caps. Per-minute limits pause the run until the window
+   * resets; other exhausted limits stop it (resume later with `--resume`).
+   */
+  budget?: BudgetConfig;
+
+  /**
+   * Optional: Items whose translation may equal the source text, e.g. brand
+   * names. Other output identical to the source is never saved.
+   */
+  acceptIdentical?: (item: TranslationItem) => boolean;
+}
+
+/**
+ * Adapter instance, or a (possibly async) factory creating one
+ */
+export type AdapterFactory<T> = T | (() => T | Promise<T>);
+
+/**
+ * Shape of `audarma.config.ts` / `.js` / `.json`, loaded by the `audarma` CLI
+ *
+ * @example
+ * ```ts
+ * // audarma.config.ts
+ * import type { AudarCLIConfigFile } from 'audarma';
+ *
+ * const config: AudarCLIConfigFile = {
+ *   contentSources: [...],
+ *   locales: ['ru', 'kk', 'ja'],
+ *   database: () => createPostgresAdapter(pool),
+ *   llm: () => createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY! }),
+ * };
+ *
+ * export default config;
+ * ```
+ */
+export interface AudarCLIConfigFile extends AudarCLIConfig {
+  /**
+   * Database adapter (or factory). May also be a named `database` export.
+   */
+  database?: AdapterFactory<DatabaseAdapter>;
+
+  /**
+   * LLM provider (or factory). May also be a named `llm` export.
+   */
+  llm?: AdapterFactory<LLMProvider>;
+
+  /**
+   * Optional: Path to a module exporting `database` and `llm`, relative to the
+   * config file. Needed for JSON configs, which cannot hold factories.
+   */
+  adapters?: string;
 }
 
 /**
@@ -122,6 +212,16 @@ export interface TranslationProgress {
   estimatedCost: number;
 }
 
+/**
+ * Batch that still failed after all retries
+ */
+export interface FailedBatch {
+  locale: string;
+  batchNumber: number;
+  itemCount: number;
+  error: string;
+}
+
 /**
  * CLI translation result
  */
@@ -132,8 +232,114 @@ export interface TranslationResult {
   totalCost: number;
   duration: number;
   locales: string[];
+  /**
+   * Per-locale breakdown
+   */
   summary: Record<string, {
     items: number;
     cost: number;
   }>;
+  /**
+   * Per-content-type breakdown
+   */
+  byContentType: Record<string, {
+    items: number;
+    cost: number;
+  }>;
+  inputTokens: number;
+  outputTokens: number;
+  failedBatches: FailedBatch[];
+  /**
+   * Budget limit that stopped the run early, if any
+   */
+  budgetExhausted?: string;
+}
+
+/**
+ * Why `audarma prune` removes a stored translation
+ * - orphaned: its (contentType, contentId) no longer exists in the content sources
+ * - stale: its source_hash does not match the current source text
+ * - removed_locale: its locale is no longer in `locales`
+ */
+export type PruneReason = 'orphaned' | 'stale' | 'removed_locale';
+
+/**
+ * CLI prune result
+ */
+export interface PruneResult {
+  /**
+   * Stored rows inspected
+   */
+  scanned: number;
+  /**
+   * Rows to delete, per reason
+   */
+  candidates: Record<PruneReason, number>;
+  /**
+   * Rows actually deleted (0 on a dry run)
+   */
+  deleted: number;
+  /**
+   * Content types with stored rows but no discovered content, left untouched
+   * (pass `force` to prune them)
+   */
+  skippedTypes: string[];
+  dryRun: boolean;
+}
+
+/**
+ * Output format of `audarma status`
+ */
+export type StatusFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+/**
+ * Coverage of one content type (or all of them) in one locale
+ */
+export interface CoverageCell {
+  /**
+   * Discovered items
+   */
+  total: number;
+  /**
+   * Items translated from the current source text
+   */
+  upToDate: number;
+  /**
+   * Items translated from an older source text (re-translated on next run)
+   */
+  stale: number;
+  /**
+   * Items without a translation
+   */
+  missing: number;
+  /**
+   * upToDate / total, in percent rounded to one decimal (100 when there is
+   * nothing to translate)
+   */
+  percent: number;
+}
+
+/**
+ * CLI coverage report (content type × locale)
+ */
+export interface CoverageReport {
+  generatedAt: string;
+  locales: string[];
+  contentTypes: string[];
+  /**
+   * contentType -> locale -> coverage
+   */
+  matrix: Record<string, Record<string, CoverageCell>>;
+  /**
+   * locale -> coverage across all content types
+   */
+  byLocale: Record<string, CoverageCell>;
+  /**
+   * Coverage across all content types and locales
+   */
+  overall: CoverageCell;
+  /**
+   * Locales below `--fail-under`, if given
+   */
+  belowThreshold: string[];
 }
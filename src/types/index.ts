@@ -15,6 +15,50 @@ export interface ViewTranslationMetadata {
   itemCount: number;
 }
 
+/**
+ * Metadata Store Interface
+ * Persists ViewTranslationMetadata per (view, locale). Implementations must
+ * not throw on storage failures - metadata is an optimization.
+ */
+export interface MetadataStore {
+  get(viewName: string, locale: string): Promise<ViewTranslationMetadata | null>;
+
+  set(viewName: string, locale: string, metadata: ViewTranslationMetadata): Promise<void>;
+
+  delete(viewName: string, locale: string): Promise<void>;
+
+  /**
+   * Remove all view metadata written by this store
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Housekeeping: remove entries last translated longer ago than maxAgeMs
+   * (default: the store's configured max age)
+   *
+   * @returns Number of removed entries
+   */
+  expire(maxAgeMs?: number): Promise<number>;
+}
+
+/**
+ * Translations resolved on the server for one view (see getViewTranslations),
+ * passed to ViewTranslationProvider as `initialTranslations`
+ */
+export interface InitialViewTranslations {
+  viewName: string;
+  locale: string;
+  /**
+   * Hash of the view's items - the client skips fetching when its items hash the same
+   */
+  contentHash: string;
+  translations: Record<string, string>; // "contentType:contentId" -> translated text
+  /**
+   * Items without an up-to-date translation (the client translates these)
+   */
+  missing: number;
+}
+
 export interface TranslationResult {
   contentType: string;
   contentId: string;
@@ -25,6 +69,10 @@ export interface TranslationResult {
 
 export interface TranslationResponse {
   success: boolean;
+  /**
+   * Cached and newly translated items. Items without a valid translation are
+   * left out (the client keeps their source text).
+   */
   translations: TranslationResult[];
   metadata: {
     sourceLocale: string;
@@ -37,6 +85,112 @@ export interface TranslationResponse {
   };
 }
 
+/**
+ * Cached translation row returned by DatabaseAdapter.getCachedTranslations
+ */
+export interface CachedTranslation {
+  content_type: string;
+  content_id: string;
+  translated_text: string;
+  source_hash: string;
+}
+
+/**
+ * Full translation row as stored in `content_translations`
+ */
+export interface StoredTranslation {
+  content_type: string;
+  content_id: string;
+  locale: string;
+  original_text: string;
+  translated_text: string;
+  source_hash: string;
+}
+
+/**
+ * Existing translation for one (content_type, content_id, locale), as returned
+ * by DatabaseAdapter.getTranslationCoverage
+ */
+export interface TranslationCoverage {
+  content_type: string;
+  content_id: string;
+  locale: string;
+  source_hash: string;
+}
+
+/**
+ * Spend limits for one time window
+ */
+export interface BudgetLimits {
+  /**
+   * Maximum items sent to the LLM
+   */
+  items?: number;
+  /**
+   * Maximum tokens (input + output; estimated before the call, corrected
+   * with reported usage afterwards)
+   */
+  tokens?: number;
+}
+
+export interface BudgetWindows {
+  perMinute?: BudgetLimits;
+  perDay?: BudgetLimits;
+}
+
+/**
+ * Storage for budget usage counters
+ */
+export interface BudgetCounter {
+  /**
+   * Atomically add amount (may be negative) to a counter and return the new total.
+   * A counter that does not exist yet starts at 0 and expires after ttlMs.
+   */
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+}
+
+/**
+ * Budget caps for LLM translation
+ *
+ * Top-level windows apply across all locales; `perLocale` windows apply to
+ * each locale separately. Once exhausted, translation is skipped and source
+ * text is shown until the window resets.
+ */
+export interface BudgetConfig extends BudgetWindows {
+  perLocale?: BudgetWindows;
+  /**
+   * Counter storage (default: in-memory). Use createDatabaseBudgetCounter()
+   * to share limits across server instances.
+   */
+  counter?: BudgetCounter;
+}
+
+/**
+ * Selects stored translations. Criteria combine with AND; omitted criteria
+ * match everything.
+ */
+export interface TranslationFilter {
+  contentType?: string;
+  contentIds?: string[];
+  locales?: string[];
+}
+
+export interface TranslationPage {
+  limit: number;
+  offset?: number;
+}
+
+export type TranslationGroupBy = 'content_type' | 'locale';
+
+/**
+ * Row count for one group (only the grouped columns are set)
+ */
+export interface TranslationCount {
+  content_type?: string;
+  locale?: string;
+  count: number;
+}
+
 /**
  * Database Adapter Interface
  * Implement this to use any database backend
@@ -48,26 +202,57 @@ export interface DatabaseAdapter {
   getCachedTranslations(
     items: TranslationItem[],
     targetLocale: string
-  ): Promise<Array<{
-    content_type: string;
-    content_id: string;
-    translated_text: string;
-    source_hash: string;
-  }>>;
+  ): Promise<CachedTranslation[]>;
 
   /**
    * Save new translations to cache
+   *
+   * `source_hash` must be computed with `hashSourceText()` so lazy and CLI
+   * mode agree on which rows are up to date
    */
-  saveTranslations(
-    translations: Array<{
-      content_type: string;
-      content_id: string;
-      locale: string;
-      original_text: string;
-      translated_text: string;
-      source_hash: string;
-    }>
-  ): Promise<void>;
+  saveTranslations(translations: StoredTranslation[]): Promise<void>;
+
+  /**
+   * OPTIONAL: Look up which of the given items are translated into each locale
+   * in a single query. Used by the CLI for gap detection; when missing, the CLI
+   * falls back to one getCachedTranslations() call per locale.
+   *
+   * @param items - Items to check
+   * @param locales - Target locales to check
+   * @returns One row per existing (content_type, content_id, locale) translation
+   */
+  getTranslationCoverage?(
+    items: TranslationItem[],
+    locales: string[]
+  ): Promise<TranslationCoverage[]>;
+
+  /**
+   * OPTIONAL: Atomically increment a budget counter, creating it with the given
+   * expiry if missing. Required for createDatabaseBudgetCounter().
+   *
+   * @returns The counter's new value
+   */
+  incrementBudgetCounter?(key: string, amount: number, expiresAt: Date): Promise<number>;
+
+  /**
+   * OPTIONAL: Delete stored translations matching the filter. Required for
+   * invalidate().
+   *
+   * @returns Number of deleted rows
+   */
+  deleteTranslations?(filter: TranslationFilter): Promise<number>;
+
+  /**
+   * OPTIONAL: List stored translations matching the filter, one page at a time,
+   * ordered by (content_type, content_id, locale)
+   */
+  listTranslations?(filter: TranslationFilter, page: TranslationPage): Promise<StoredTranslation[]>;
+
+  /**
+   * OPTIONAL: Count stored translations matching the filter, grouped by the
+   * given columns (an empty groupBy returns a single total)
+   */
+  countTranslations?(groupBy: TranslationGroupBy[], filter?: TranslationFilter): Promise<TranslationCount[]>;
 
   /**
    * OPTIONAL: Discover all translatable content from source tables
@@ -83,9 +268,9 @@ export interface DatabaseAdapter {
       items: Array<{
         contentType: string;
         textColumn: string;
-        where?: Record<string, any>;
+        where?: Record<string, unknown>;
       }>;
-      where?: Record<string, any>;
+      where?: Record<string, unknown>;
     }>
   ): Promise<Array<{
     contentType: string;
@@ -94,24 +279,218 @@ export interface DatabaseAdapter {
   }>>;
 }
 
+/**
+ * Token usage of a single LLM call
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /**
+   * Model that served the call (used for pricing lookup)
+   */
+  model?: string;
+}
+
+/**
+ * Price of a model, per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Pricing per model name. A `'*'` entry applies to models not listed.
+ *
+ * @example
+ * ```ts
+ * const pricing: PricingTable = {
+ *   'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+ *   '*': { inputPerMillion: 1, outputPerMillion: 3 },
+ * };
+ * ```
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * Optional per-call options for LLMProvider.translateBatch
+ */
+export interface TranslateBatchOptions {
+  /**
+   * Called with the token usage of the call, if the provider can report it
+   */
+  onUsage?: (usage: TokenUsage) => void;
+
+  /**
+   * Aborts the request (timeouts in withResilience). Providers should pass it
+   * on to fetch.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * One translation yielded by LLMProvider.translateBatchStream
+ */
+export interface StreamedTranslation {
+  /**
+   * Position of the item in the input array
+   */
+  index: number;
+  text: string;
+}
+
 /**
  * LLM Provider Interface
  * Implement this to use any LLM service
  */
 export interface LLMProvider {
+  /**
+   * OPTIONAL: Model name, used to look up pricing for cost estimates
+   */
+  readonly model?: string;
+
   /**
    * Translate a batch of items
    *
    * @param items - Items to translate
    * @param sourceLocale - Source language code (e.g., 'en')
    * @param targetLocale - Target language code (e.g., 'ru')
-   * @returns Array of translated texts in same order as input
+   * @param options - Optional per-call options (usage reporting)
+   * @returns Translated texts in the same order as input, with undefined for
+   * items the model did not answer. Align by id rather than position when
+   * parsing (see keyedBatch() and parseKeyedTranslations()); callers validate
+   * each text and re-request missing or invalid items.
    */
   translateBatch(
     items: TranslationItem[],
     sourceLocale: string,
-    targetLocale: string
-  ): Promise<string[]>;
+    targetLocale: string,
+    options?: TranslateBatchOptions
+  ): Promise<Array<string | undefined>>;
+
+  /**
+   * OPTIONAL: Translate a batch, yielding each translation as the model emits it
+   *
+   * Used instead of translateBatch when available, so long batches show
+   * results as they are generated. Items the stream never yields count as
+   * not translated. Usage is reported through options.onUsage once the
+   * stream ends.
+   */
+  translateBatchStream?(
+    items: TranslationItem[],
+    sourceLocale: string,
+    targetLocale: string,
+    options?: TranslateBatchOptions
+  ): AsyncIterable<StreamedTranslation>;
+}
+
+/**
+ * Retry with jittered exponential backoff
+ */
+export interface RetryOptions {
+  /**
+   * Retries after the first attempt (default: 3)
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry, doubled for each further one (default: 1000)
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Cap on the backoff delay (default: 30000)
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Longest `Retry-After` to wait for - a longer one fails the request
+   * instead (default: 60000)
+   */
+  maxRetryAfterMs?: number;
+}
+
+/**
+ * Circuit breaker for an LLM provider
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive transient failures (timeouts, 429, 5xx, network errors)
+   * that open the circuit (default: 5)
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long the circuit stays open before one trial request (default: 30000)
+   */
+  resetTimeoutMs?: number;
+
+  /**
+   * While open: answer without translations (default), so callers keep
+   * showing the source text and nothing is saved, or throw CircuitOpenError.
+   * Answers without translations report zero usage through `onUsage`.
+   */
+  whenOpen?: 'source' | 'throw';
+}
+
+/**
+ * Options for withResilience()
+ */
+export interface ResilienceOptions {
+  /**
+   * Per-request timeout; for streams, the longest wait for the next
+   * translation. 0 disables it (default: 60000)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Retries of transient failures, or false to disable (default: 3 retries)
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Maximum requests in flight at once (default: unlimited)
+   */
+  concurrency?: number;
+
+  /**
+   * Circuit breaker, or false to disable (default: enabled)
+   */
+  circuitBreaker?: CircuitBreakerOptions | false;
+
+  /**
+   * Decide whether a failure is transient (default: timeouts, network
+   * errors, 408, 429 and 5xx)
+   */
+  isRetryable?: (error: unknown) => boolean;
+
+  /**
+   * Called before each retry
+   */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+
+  debug?: boolean;
+}
+
+/**
+ * Client Translation Cache Interface
+ * Browser-side cache of translated strings in front of the DatabaseAdapter.
+ * Keys encode (contentType, contentId, locale, sourceHash) - see clientCacheKey().
+ */
+export interface ClientTranslationCache {
+  /**
+   * Look up translations; missing keys are absent from the result
+   */
+  get(keys: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Store translations by key
+   */
+  set(entries: Record<string, string>): Promise<void>;
+
+  delete(keys: string[]): Promise<void>;
+
+  clear(): Promise<void>;
 }
 
 /**
@@ -159,6 +538,67 @@ export interface AudarConfig {
    */
   defaultLocale?: string;
 
+  /**
+   * Per-model pricing for cost reporting in debug logs
+   */
+  pricing?: PricingTable;
+
+  /**
+   * Spend caps for lazy translation. When exhausted, views show source text.
+   */
+  budget?: BudgetConfig;
+
+  /**
+   * Items whose translation may equal the source text, e.g. brand names.
+   * Other output identical to the source is never saved (sources without
+   * letters, like prices, are always accepted).
+   */
+  acceptIdentical?: (item: TranslationItem) => boolean;
+
+  /**
+   * Keep showing outdated translations while items whose source text changed
+   * are re-translated (default: false - show source text until ready)
+   */
+  staleWhileRevalidate?: boolean;
+
+  /**
+   * Where view metadata (last translated content hash) is kept
+   * (default: localStorage, falling back to memory when unavailable)
+   */
+  metadataStore?: MetadataStore;
+
+  /**
+   * Browser cache in front of the database (default: IndexedDB with an
+   * in-memory fallback). Set to false to always ask the database.
+   */
+  clientCache?: ClientTranslationCache | false;
+
+  /**
+   * How long to collect requests from all views before issuing one batched
+   * lookup / LLM call (default: 10ms)
+   */
+  coalesceWindowMs?: number;
+
+  /**
+   * Timeouts, retries and circuit breaker for lazy translation, applied to
+   * `llm` unless it is already wrapped in withResilience() (default: the
+   * withResilience defaults). Set to false to call `llm` directly.
+   */
+  resilience?: ResilienceOptions | false;
+
+  /**
+   * Maximum items per LLM call in lazy mode (default: 20). Each chunk's
+   * translations are shown as soon as it arrives. Items whose element
+   * (useViewTranslation's `ref`) is on screen go first, then items with a
+   * mounted useViewTranslation, then the rest.
+   */
+  chunkSize?: number;
+
+  /**
+   * How many chunks of one view are translated at once (default: 2)
+   */
+  chunkConcurrency?: number;
+
   /**
    * Enable debug logging
    */
@@ -171,4 +611,9 @@ export interface AudarConfig {
 export interface UseViewTranslationResult {
   text: string;
   isTranslating: boolean;
+  /**
+   * Callback ref for the element showing the item - visible items are
+   * translated first
+   */
+  ref: (element: Element | null) => void;
 }
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createSQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import { asSQLiteDatabase, createSqlJsDatabase } from '../helpers/sql-js';
+
+async function setup() {
+  const db = await createSqlJsDatabase();
+  db.run('CREATE TABLE products (id INTEGER, title TEXT, status TEXT)');
+  db.run(`INSERT INTO products VALUES (1, 'Red shoes', 'published'), (2, 'Blue hat', 'draft'), (3, 'Green scarf', NULL)`);
+  return createSQLiteAdapter(asSQLiteDatabase(db));
+}
+
+async function discover(where: Record<string, unknown>): Promise<string[]> {
+  const adapter = await setup();
+  const items = await adapter.getAllTranslatableContent!([
+    { table: 'products', idColumn: 'id', items: [{ contentType: 'product_title', textColumn: 'title' }], where },
+  ]);
+  return items.map((item) => item.contentId);
+}
+
+describe('createSQLiteAdapter where filters', () => {
+  it('matches bigints, alone and in arrays', async () => {
+    expect(await discover({ id: 2n })).toEqual(['2']);
+    expect(await discover({ id: [1n, 3n] })).toEqual(['1', '3']);
+  });
+
+  it('matches any value of an array, and nothing for an empty one', async () => {
+    expect(await discover({ status: ['published', 'draft'] })).toEqual(['1', '2']);
+    expect(await discover({ status: [] })).toEqual([]);
+  });
+
+  it('matches null', async () => {
+    expect(await discover({ status: null })).toEqual(['3']);
+  });
+});
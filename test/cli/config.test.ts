@@ -0,0 +1,133 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadConfig, resolveConfigPath } from '../../cli/config';
+
+let dir: string;
+
+function write(name: string, content: string): string {
+  const file = path.join(dir, name);
+  writeFileSync(file, content);
+  return file;
+}
+
+const CONFIG = {
+  contentSources: [{ table: 'products', idColumn: 'id', items: [{ contentType: 'product_title', textColumn: 'title' }] }],
+  locales: ['ru', 'kk'],
+};
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'audarma-config-'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('resolveConfigPath', () => {
+  it('prefers an explicit path, relative to cwd', () => {
+    write('custom.json', '{}');
+    expect(resolveConfigPath('custom.json', dir)).toBe(path.join(dir, 'custom.json'));
+    expect(() => resolveConfigPath('missing.json', dir)).toThrow('Config file not found');
+  });
+
+  it('finds the first default file name', () => {
+    write('audarma.config.json', '{}');
+    write('audarma.config.js', 'export default {}');
+    expect(resolveConfigPath(undefined, dir)).toBe(path.join(dir, 'audarma.config.js'));
+  });
+
+  it('explains what to create when there is no config', () => {
+    expect(() => resolveConfigPath(undefined, dir)).toThrow('No config file found');
+  });
+});
+
+describe('loadConfig', () => {
+  it('loads a default export from an ES module', async () => {
+    const file = write(
+      'audarma.config.mjs',
+      `export default {
+        ...${JSON.stringify(CONFIG)},
+        database: { kind: 'database' },
+        llm: async () => ({ kind: 'llm' }),
+      };`
+    );
+
+    const loaded = await loadConfig(file);
+
+    expect(loaded.configPath).toBe(file);
+    expect(loaded.config).toEqual(CONFIG);
+    expect(await loaded.createDatabase()).toEqual({ kind: 'database' });
+    expect(await loaded.createLLM()).toEqual({ kind: 'llm' });
+  });
+
+  it('loads named exports', async () => {
+    const file = write(
+      'audarma.config.mjs',
+      `export const contentSources = ${JSON.stringify(CONFIG.contentSources)};
+      export const locales = ${JSON.stringify(CONFIG.locales)};
+      export const database = () => ({ kind: 'database' });
+      export const llm = () => ({ kind: 'llm' });`
+    );
+
+    const loaded = await loadConfig(file);
+
+    expect(loaded.config).toEqual(CONFIG);
+    expect(await loaded.createDatabase()).toEqual({ kind: 'database' });
+    expect(await loaded.createLLM()).toEqual({ kind: 'llm' });
+  });
+
+  it('loads module.exports from a CommonJS file', async () => {
+    const file = write(
+      'audarma.config.cjs',
+      `module.exports = { ...${JSON.stringify(CONFIG)}, database: () => ({ kind: 'database' }) };`
+    );
+
+    const loaded = await loadConfig(file);
+
+    expect(loaded.config).toEqual(CONFIG);
+    expect(await loaded.createDatabase()).toEqual({ kind: 'database' });
+  });
+
+  it('loads a TypeScript config', async () => {
+    const file = write(
+      'audarma.config.ts',
+      `const locales: string[] = ${JSON.stringify(CONFIG.locales)};
+      export default { contentSources: ${JSON.stringify(CONFIG.contentSources)}, locales };`
+    );
+
+    const loaded = await loadConfig(file);
+
+    expect(loaded.config).toEqual(CONFIG);
+  });
+
+  it('loads a JSON config with adapters from a separate module', async () => {
+    write('adapters.mjs', `export const database = { kind: 'database' }; export const llm = { kind: 'llm' };`);
+    write('audarma.config.json', JSON.stringify({ ...CONFIG, adapters: './adapters.mjs' }));
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+
+    const loaded = await loadConfig();
+
+    expect(loaded.config).toEqual(CONFIG);
+    expect(await loaded.createDatabase()).toEqual({ kind: 'database' });
+    expect(await loaded.createLLM()).toEqual({ kind: 'llm' });
+  });
+
+  it('rejects configs without contentSources or locales', async () => {
+    const noSources = write('no-sources.json', JSON.stringify({ locales: ['ru'] }));
+    const noLocales = write('no-locales.json', JSON.stringify({ contentSources: [], locales: [] }));
+
+    await expect(loadConfig(noSources)).rejects.toThrow('"contentSources" must be an array');
+    await expect(loadConfig(noLocales)).rejects.toThrow('"locales" must be a non-empty array');
+  });
+
+  it('fails when an adapter is used but not configured', async () => {
+    const file = write('audarma.config.json', JSON.stringify(CONFIG));
+
+    const loaded = await loadConfig(file);
+
+    await expect(loaded.createLLM()).rejects.toThrow('no "llm" adapter or factory configured');
+  });
+});
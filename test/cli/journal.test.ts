@@ -0,0 +1,85 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createJournal } from '../../cli/journal';
+import type { TranslationGap } from '../../src/types/content-sources';
+
+const gaps: TranslationGap[] = [
+  { contentType: 'product_title', contentId: '1', text: 'Red shoes', sourceHash: 'a', missingLocales: ['ru'] },
+  { contentType: 'product_title', contentId: '2', text: 'Blue hat', sourceHash: 'b', missingLocales: ['ru', 'kk'] },
+];
+
+describe('createJournal', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'audarma-journal-'));
+    filePath = path.join(dir, 'journal.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays completed, failed and saved events on load', () => {
+    const journal = createJournal(filePath);
+    journal.start({ sourceLocale: 'en', batchSize: 20, locales: ['ru', 'kk'], gaps });
+    journal.markFailed('ru', 1, new Error('boom'));
+    journal.markSaved('ru', [gaps[0]]);
+    journal.markCompleted('kk', 1);
+
+    const resumed = createJournal(filePath);
+    const state = resumed.load();
+
+    expect(state?.gaps).toEqual(gaps);
+    expect(state?.failed).toEqual({ 'ru:1': 'boom' });
+    expect(resumed.isCompleted('kk', 1)).toBe(true);
+    expect(resumed.isCompleted('ru', 1)).toBe(false);
+    expect(resumed.isSaved('ru', gaps[0])).toBe(true);
+    expect(resumed.isSaved('ru', gaps[1])).toBe(false);
+    expect(resumed.isSaved('kk', gaps[0])).toBe(false);
+  });
+
+  it('appends events without rewriting the plan', () => {
+    const journal = createJournal(filePath);
+    journal.start({ sourceLocale: 'en', batchSize: 20, locales: ['ru'], gaps });
+    const plan = readFileSync(filePath, 'utf8');
+
+    journal.markSaved('ru', gaps);
+    journal.markCompleted('ru', 1);
+
+    const contents = readFileSync(filePath, 'utf8');
+    expect(contents.startsWith(plan)).toBe(true);
+    expect(contents.trim().split('\n')).toHaveLength(3);
+  });
+
+  it('clears a failure once the unit completes', () => {
+    const journal = createJournal(filePath);
+    journal.start({ sourceLocale: 'en', batchSize: 20, locales: ['ru'], gaps });
+    journal.markFailed('ru', 1, 'boom');
+    journal.markCompleted('ru', 1);
+
+    expect(createJournal(filePath).load()?.failed).toEqual({});
+  });
+
+  it('ignores a line cut off by a crash', () => {
+    const journal = createJournal(filePath);
+    journal.start({ sourceLocale: 'en', batchSize: 20, locales: ['ru'], gaps });
+    journal.markCompleted('ru', 1);
+    appendFileSync(filePath, '{"at":"2026-01-01T00:00:00.000Z","sav');
+
+    const state = createJournal(filePath).load();
+    expect(state?.completed).toEqual(['ru:1']);
+  });
+
+  it('returns null without a journal and removes it on clear', () => {
+    const journal = createJournal(filePath);
+    expect(journal.load()).toBeNull();
+
+    journal.start({ sourceLocale: 'en', batchSize: 20, locales: ['ru'], gaps });
+    journal.clear();
+    expect(journal.load()).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { main, parseCLIArgs } from '../../cli/main';
+
+describe('parseCLIArgs', () => {
+  it('defaults to translate with no options', () => {
+    expect(parseCLIArgs([])).toEqual({
+      command: 'translate',
+      help: false,
+      options: {
+        config: undefined,
+        locale: undefined,
+        types: undefined,
+        force: undefined,
+        maxItems: undefined,
+        dryRun: undefined,
+        resume: undefined,
+        journal: undefined,
+        format: undefined,
+        failUnder: undefined,
+      },
+    });
+  });
+
+  it('parses the command, short and long flags', () => {
+    const { command, options } = parseCLIArgs([
+      'status',
+      '-c', 'config/audarma.config.ts',
+      '-l', 'ru',
+      '--types', ' product_title, ,shop_name ',
+      '--format', 'markdown',
+      '--fail-under', '99.5',
+    ]);
+
+    expect(command).toBe('status');
+    expect(options).toMatchObject({
+      config: 'config/audarma.config.ts',
+      locale: 'ru',
+      types: ['product_title', 'shop_name'],
+      format: 'markdown',
+      failUnder: 99.5,
+    });
+  });
+
+  it('parses translate flags', () => {
+    const { options } = parseCLIArgs(['translate', '--force', '--max-items', '50', '--dry-run', '--resume', '--journal', 'run.jsonl']);
+
+    expect(options).toMatchObject({ force: true, maxItems: 50, dryRun: true, resume: true, journal: 'run.jsonl' });
+  });
+
+  it('recognizes help', () => {
+    expect(parseCLIArgs(['-h']).help).toBe(true);
+    expect(parseCLIArgs(['prune', '--help']).help).toBe(true);
+  });
+
+  it.each([
+    [['--max-items', '0'], '--max-items must be a positive integer'],
+    [['--max-items', '1.5'], '--max-items must be a positive integer'],
+    [['--format', 'xml'], '--format must be one of table, json, csv, markdown'],
+    [['--fail-under', '101'], '--fail-under must be a percentage between 0 and 100'],
+    [['--fail-under', 'all'], '--fail-under must be a percentage between 0 and 100'],
+  ])('rejects %j', (argv, message) => {
+    expect(() => parseCLIArgs(argv)).toThrow(message);
+  });
+
+  it('rejects unknown flags', () => {
+    expect(() => parseCLIArgs(['--verbose'])).toThrow();
+  });
+});
+
+describe('main', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs translate --dry-run without creating the LLM provider', async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'audarma-main-'));
+    const file = path.join(dir, 'audarma.config.mjs');
+    writeFileSync(
+      file,
+      `export default {
+        contentSources: [],
+        locales: ['ru'],
+        database: {
+          getAllTranslatableContent: async () => [{ contentType: 'product_title', contentId: '1', text: 'Red shoes' }],
+          getCachedTranslations: async () => [],
+          saveTranslations: async () => {},
+        },
+        llm: () => { throw new Error('OPENAI_API_KEY is not set'); },
+      };`
+    );
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const exit = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await main(['translate', '--dry-run', '-c', file, '--journal', path.join(dir, 'journal.jsonl')]);
+
+    expect(exit).not.toHaveBeenCalled();
+    expect(log.mock.calls.flat().join('\n')).toContain('Would translate 1 items');
+  });
+});
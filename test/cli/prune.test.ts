@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runPrune } from '../../cli/prune';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { hashSourceText } from '../../src/core/source-hash';
+import type { DatabaseAdapter, StoredTranslation } from '../../src/types';
+import type { AudarCLIConfig } from '../../src/types/content-sources';
+
+const config: AudarCLIConfig = {
+  locales: ['ru'],
+  contentSources: [
+    {
+      table: 'products',
+      idColumn: 'id',
+      items: [
+        { contentType: 'product_title', textColumn: 'title' },
+        // Misspelled column - discovers nothing
+        { contentType: 'product_subtitle', textColumn: 'subtitel' },
+      ],
+    },
+  ],
+};
+
+function row(contentType: string, contentId: string, text: string): StoredTranslation {
+  return {
+    content_type: contentType,
+    content_id: contentId,
+    locale: 'ru',
+    original_text: text,
+    translated_text: `[ru] ${text}`,
+    source_hash: hashSourceText(text),
+  };
+}
+
+async function setup(): Promise<DatabaseAdapter> {
+  const database = createJsonFileAdapter({
+    tables: { products: [{ id: 1, title: 'Red shoes', subtitle: 'Comfortable' }] },
+  });
+  await database.saveTranslations([
+    row('product_title', '1', 'Red shoes'),
+    row('product_title', '2', 'Deleted product'),
+    row('product_subtitle', '1', 'Comfortable'),
+  ]);
+  return database;
+}
+
+async function stored(database: DatabaseAdapter) {
+  return (await database.listTranslations!({}, { limit: 100 })).map((r) => `${r.content_type}:${r.content_id}`);
+}
+
+describe('runPrune', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('skips content types without discovered content but with stored rows', async () => {
+    const database = await setup();
+
+    const result = await runPrune(config, database);
+
+    expect(result.skippedTypes).toEqual(['product_subtitle']);
+    expect(result.candidates.orphaned).toBe(1);
+    expect(await stored(database)).toEqual(['product_subtitle:1', 'product_title:1']);
+  });
+
+  it('prunes those content types with --force', async () => {
+    const database = await setup();
+
+    const result = await runPrune(config, database, { force: true });
+
+    expect(result.skippedTypes).toEqual([]);
+    expect(result.candidates.orphaned).toBe(2);
+    expect(await stored(database)).toEqual(['product_title:1']);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildCoverageReport } from '../../cli/status';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { hashSourceText } from '../../src/core/source-hash';
+import type { DiscoveredContent } from '../../src/types/content-sources';
+
+function content(count: number): DiscoveredContent[] {
+  return Array.from({ length: count }, (_, i) => {
+    const text = `Product ${i}`;
+    return { contentType: 'product_title', contentId: String(i), text, sourceHash: hashSourceText(text) };
+  });
+}
+
+async function coverage(items: DiscoveredContent[], translated: number, failUnder: number) {
+  const database = createJsonFileAdapter();
+  await database.saveTranslations(items.slice(0, translated).map((item) => ({
+    content_type: item.contentType,
+    content_id: item.contentId,
+    locale: 'ru',
+    original_text: item.text,
+    translated_text: `[ru] ${item.text}`,
+    source_hash: item.sourceHash,
+  })));
+  return buildCoverageReport(items, ['ru'], database, failUnder);
+}
+
+describe('buildCoverageReport', () => {
+  it('compares --fail-under against unrounded coverage', async () => {
+    // 2000/2001 = 99.95%, displayed as 100.0%
+    const report = await coverage(content(2001), 2000, 100);
+
+    expect(report.byLocale.ru.percent).toBe(100);
+    expect(report.belowThreshold).toEqual(['ru']);
+  });
+
+  it('passes locales exactly at the threshold', async () => {
+    const report = await coverage(content(4), 3, 75);
+
+    expect(report.byLocale.ru).toMatchObject({ upToDate: 3, missing: 1, percent: 75 });
+    expect(report.belowThreshold).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+import crypto from 'crypto-js';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { discoverContent, fetchCoverage, findTranslationGaps, runTranslation } from '../../cli/translate';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { hashSourceText } from '../../src/core/source-hash';
+import { createMockLLMProvider } from '../../src/testing/mock-llm-provider';
+import type { DatabaseAdapter, StoredTranslation } from '../../src/types';
+import type { AudarCLIConfig } from '../../src/types/content-sources';
+
+const config: AudarCLIConfig = {
+  locales: ['ru', 'kk'],
+  contentSources: [
+    {
+      table: 'products',
+      idColumn: 'id',
+      items: [
+        { contentType: 'product_title', textColumn: 'title' },
+        { contentType: 'product_description', textColumn: 'description' },
+      ],
+    },
+  ],
+};
+
+const products = [
+  { id: 1, title: 'Red shoes', description: 'Comfortable' },
+  { id: 2, title: 'Blue hat', description: 'Warm' },
+  { id: 3, title: 'Green scarf', description: 'Soft' },
+];
+
+function row(contentId: string, locale: string, text: string, sourceHash = hashSourceText(text)): StoredTranslation {
+  return {
+    content_type: 'product_title',
+    content_id: contentId,
+    locale,
+    original_text: text,
+    translated_text: `[${locale}] ${text}`,
+    source_hash: sourceHash,
+  };
+}
+
+/**
+ * Product 1 is up to date in ru, product 2 was translated before its title
+ * changed, product 3 has no translation; nothing is translated into kk
+ */
+async function setup(): Promise<DatabaseAdapter> {
+  const database = createJsonFileAdapter({ tables: { products } });
+  await database.saveTranslations([row('1', 'ru', 'Red shoes'), row('2', 'ru', 'Blue cap')]);
+  return database;
+}
+
+function titles(config: AudarCLIConfig, database: DatabaseAdapter) {
+  return discoverContent(config, database, ['product_title'], () => undefined);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('discoverContent', () => {
+  it('hashes discovered text and applies --types and excludeTypes', async () => {
+    const database = await setup();
+
+    const all = await discoverContent(config, database, undefined, () => undefined);
+    const selected = await titles(config, database);
+    const excluded = await discoverContent({ ...config, excludeTypes: ['product_title'] }, database, undefined, () => undefined);
+
+    expect(all).toHaveLength(6);
+    expect(selected.map((item) => item.contentId)).toEqual(['1', '2', '3']);
+    expect(selected[0]).toEqual({
+      contentType: 'product_title',
+      contentId: '1',
+      text: 'Red shoes',
+      sourceHash: hashSourceText('Red shoes'),
+    });
+    expect(new Set(excluded.map((item) => item.contentType))).toEqual(new Set(['product_description']));
+  });
+
+  it('requires getAllTranslatableContent', async () => {
+    const database: DatabaseAdapter = { ...createJsonFileAdapter(), getAllTranslatableContent: undefined };
+
+    await expect(discoverContent(config, database, undefined, () => undefined)).rejects.toThrow('does not support CLI mode');
+  });
+});
+
+describe('fetchCoverage', () => {
+  it.each([
+    ['getTranslationCoverage', (database: DatabaseAdapter) => database],
+    ['getCachedTranslations per locale', (database: DatabaseAdapter) => ({ ...database, getTranslationCoverage: undefined })],
+  ])('maps stored source hashes by locale using %s', async (_name, adapt) => {
+    const database = adapt(await setup());
+    const items = (await titles(config, database)).map(({ contentType, contentId, text }) => ({ contentType, contentId, text }));
+
+    const coverage = await fetchCoverage(items, ['ru', 'kk'], database);
+
+    expect(Object.fromEntries(coverage.get('ru')!)).toEqual({
+      'product_title:1': hashSourceText('Red shoes'),
+      'product_title:2': hashSourceText('Blue cap'),
+    });
+    expect(coverage.get('kk')!.size).toBe(0);
+  });
+});
+
+describe('findTranslationGaps', () => {
+  it('reports missing and stale translations but not up-to-date ones', async () => {
+    const database = await setup();
+
+    const gaps = await findTranslationGaps(await titles(config, database), config.locales, database);
+
+    expect(gaps.map((gap) => [gap.contentId, gap.missingLocales])).toEqual([
+      ['1', ['kk']],
+      ['2', ['ru', 'kk']],
+      ['3', ['ru', 'kk']],
+    ]);
+  });
+
+  it('only checks the target locale when one is given', async () => {
+    const database = await setup();
+
+    const gaps = await findTranslationGaps(await titles(config, database), config.locales, database, 'ru');
+
+    expect(gaps.map((gap) => [gap.contentId, gap.missingLocales])).toEqual([
+      ['2', ['ru']],
+      ['3', ['ru']],
+    ]);
+  });
+
+  it('accepts hashes written by earlier runtime and CLI versions', async () => {
+    const database = createJsonFileAdapter({ tables: { products } });
+    const raw = crypto.SHA256('Red shoes').toString();
+    await database.saveTranslations([
+      row('1', 'ru', 'Red shoes', raw),
+      row('1', 'kk', 'Red shoes', raw.substring(0, 16)),
+      row('2', 'ru', 'Blue hat', crypto.SHA256('Blue cap').toString()),
+    ]);
+
+    const gaps = await findTranslationGaps(await titles(config, database), config.locales, database);
+
+    expect(gaps.map((gap) => [gap.contentId, gap.missingLocales])).toEqual([
+      ['2', ['ru', 'kk']],
+      ['3', ['ru', 'kk']],
+    ]);
+  });
+});
+
+describe('runTranslation', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'audarma-translate-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function translated(llm: ReturnType<typeof createMockLLMProvider>) {
+    return llm.calls.map((call) => `${call.targetLocale}:${call.items.map((item) => item.contentId).join(',')}`);
+  }
+
+  it('translates only the gaps', async () => {
+    const database = await setup();
+    const llm = createMockLLMProvider({ stream: false });
+
+    const result = await runTranslation(config, database, llm, {
+      types: ['product_title'],
+      journal: path.join(dir, 'journal.jsonl'),
+    });
+
+    expect(translated(llm)).toEqual(['ru:2,3', 'kk:1,2,3']);
+    expect(result.translatedItems).toBe(5);
+  });
+
+  it('re-translates up-to-date items with --force', async () => {
+    const database = await setup();
+    const llm = createMockLLMProvider({ stream: false });
+
+    await runTranslation(config, database, llm, {
+      types: ['product_title'],
+      locale: 'ru',
+      force: true,
+      journal: path.join(dir, 'journal.jsonl'),
+    });
+
+    expect(translated(llm)).toEqual(['ru:1,2,3']);
+  });
+
+  it('limits the run to --max-items gaps', async () => {
+    const database = await setup();
+    const llm = createMockLLMProvider({ stream: false });
+
+    await runTranslation({ ...config, maxItems: 3 }, database, llm, {
+      types: ['product_title'],
+      maxItems: 1,
+      journal: path.join(dir, 'journal.jsonl'),
+    });
+
+    // The first gap (product 1) is only missing in kk
+    expect(translated(llm)).toEqual(['kk:1']);
+  });
+
+  it('retries a failed save without translating again', async () => {
+    const database = await setup();
+    const llm = createMockLLMProvider({ stream: false });
+    vi.spyOn(database, 'saveTranslations').mockRejectedValueOnce(new Error('connection reset'));
+
+    const result = await runTranslation({ ...config, retry: { baseDelayMs: 1 } }, database, llm, {
+      types: ['product_title'],
+      locale: 'ru',
+      journal: path.join(dir, 'journal.jsonl'),
+    });
+
+    expect(translated(llm)).toEqual(['ru:2,3']);
+    expect(database.saveTranslations).toHaveBeenCalledTimes(2);
+    expect(result.translatedItems).toBe(2);
+    expect(result.failedBatches).toEqual([]);
+  });
+});
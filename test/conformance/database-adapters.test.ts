@@ -0,0 +1,129 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import * as orm from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/sql-js';
+import { integer, primaryKey, real, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { describe, it } from 'vitest';
+import { createDrizzleAdapter } from '../../src/adapters/examples/drizzle-adapter';
+import { createPostgresAdapter } from '../../src/adapters/examples/postgres-adapter';
+import { createPrismaAdapter } from '../../src/adapters/examples/prisma-adapter';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { createSQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import { runDatabaseAdapterConformance } from '../../src/testing/database-conformance';
+import { asPostgresClient, createPGlite } from '../helpers/pglite';
+import { resetPrismaDatabase, withPrismaSQLite } from '../helpers/prisma';
+import { asSQLiteDatabase, createSqlJsDatabase } from '../helpers/sql-js';
+
+// The Drizzle adapter's documented schema, for SQLite
+const drizzleTranslations = sqliteTable('content_translations', {
+  contentType: text('content_type').notNull(),
+  contentId: text('content_id').notNull(),
+  locale: text('locale').notNull(),
+  originalText: text('original_text').notNull(),
+  translatedText: text('translated_text').notNull(),
+  sourceHash: text('source_hash').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull().$defaultFn(() => new Date()),
+}, (t) => [primaryKey({ columns: [t.contentType, t.contentId, t.locale] })]);
+
+const drizzleBudgetCounters = sqliteTable('audarma_budget_counters', {
+  key: text('key').primaryKey(),
+  value: real('value').notNull(),
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }).notNull(),
+});
+
+const POSTGRES_MIGRATION = readFileSync(
+  path.join(__dirname, '../../src/adapters/examples/postgres-migration.sql'),
+  'utf8'
+);
+
+describe('DatabaseAdapter conformance', () => {
+  it('JSON file adapter', async () => {
+    await runDatabaseAdapterConformance(({ table, rows }) =>
+      createJsonFileAdapter({ tables: { [table]: rows.map((row) => ({ ...row })) } })
+    );
+  });
+
+  it('SQLite adapter', async () => {
+    await runDatabaseAdapterConformance(async ({ table, rows }) => {
+      const db = await createSqlJsDatabase();
+      db.run(`CREATE TABLE ${table} (id INTEGER, title TEXT, description TEXT, status TEXT, category TEXT)`);
+      for (const row of rows) {
+        db.run(`INSERT INTO ${table} VALUES (?, ?, ?, ?, ?)`, [row.id, row.title, row.description, row.status, row.category]);
+      }
+      return createSQLiteAdapter(asSQLiteDatabase(db));
+    });
+  });
+
+  it('PostgreSQL adapter', async () => {
+    // One database for every check - each starts from freshly created tables
+    const pg = await createPGlite();
+    try {
+      await runDatabaseAdapterConformance(async ({ table, rows }) => {
+        await pg.exec(`
+          DROP TABLE IF EXISTS content_translations, audarma_budget_counters, ${table};
+          CREATE TABLE ${table} (id INTEGER, title TEXT, description TEXT, status TEXT, category TEXT);
+          ${POSTGRES_MIGRATION}
+        `);
+        for (const row of rows) {
+          await pg.query(`INSERT INTO ${table} VALUES ($1, $2, $3, $4, $5)`, [
+            row.id, row.title, row.description, row.status, row.category,
+          ]);
+        }
+        return createPostgresAdapter(asPostgresClient(pg));
+      });
+    } finally {
+      await pg.close();
+    }
+  }, 60000);
+
+  it('Prisma adapter', async () => {
+    // Generated from test/prisma/schema.prisma; sources use the model's client property
+    await withPrismaSQLite((prisma) =>
+      runDatabaseAdapterConformance(async ({ rows }) => {
+        await resetPrismaDatabase(prisma);
+        await prisma.audarmaConformanceProduct.createMany({ data: rows });
+        return createPrismaAdapter(prisma);
+      }, { table: 'audarmaConformanceProduct' })
+    );
+  }, 60000);
+
+  it('Drizzle adapter', async () => {
+    await runDatabaseAdapterConformance(async ({ table, rows }) => {
+      const sqlite = await createSqlJsDatabase();
+      sqlite.run(`CREATE TABLE ${table} (id INTEGER, title TEXT, description TEXT, status TEXT, category TEXT)`);
+      sqlite.run(`
+        CREATE TABLE content_translations (
+          content_type TEXT NOT NULL,
+          content_id TEXT NOT NULL,
+          locale TEXT NOT NULL,
+          original_text TEXT NOT NULL,
+          translated_text TEXT NOT NULL,
+          source_hash TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (content_type, content_id, locale)
+        );
+        CREATE TABLE audarma_budget_counters (key TEXT PRIMARY KEY, value REAL NOT NULL, expires_at INTEGER NOT NULL);
+      `);
+
+      const products = sqliteTable(table, {
+        id: integer('id'),
+        title: text('title'),
+        description: text('description'),
+        status: text('status'),
+        category: text('category'),
+      });
+
+      const db = drizzle(sqlite);
+      await db.insert(products).values(rows);
+
+      return createDrizzleAdapter(db, {
+        orm,
+        translations: drizzleTranslations,
+        budgetCounters: drizzleBudgetCounters,
+        sources: { [table]: products },
+      });
+    });
+  });
+});
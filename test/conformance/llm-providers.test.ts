@@ -0,0 +1,74 @@
+import { afterEach, describe, it, vi } from 'vitest';
+import { createAnthropicProvider } from '../../src/adapters/examples/anthropic-llm-provider';
+import { createCerebrasProvider } from '../../src/adapters/examples/cerebras-llm-provider';
+import { createNebiusProvider } from '../../src/adapters/examples/nebius-llm-provider';
+import { createOpenAIProvider } from '../../src/adapters/examples/openai-llm-provider';
+import { keyedBatch } from '../../src/core/response-validation';
+import { runLLMProviderConformance, type ScriptedLLMModel } from '../../src/testing/llm-conformance';
+import { createMockLLMProvider } from '../../src/testing/mock-llm-provider';
+import type { LLMProvider } from '../../src/types';
+
+type Encoder = (translations: string[]) => string;
+type Transport = (model: ScriptedLLMModel) => (url: string, init: RequestInit) => Promise<Response>;
+
+const sse = (events: string[]) => new Response(events.map((event) => `data: ${event}\n\n`).join(''));
+
+// Small chunks, so streaming parsers see values split mid-string
+const chunks = (text: string) => text.match(/[\s\S]{1,7}/gu) ?? [];
+
+const isStream = (init: RequestInit) => JSON.parse(String(init.body)).stream === true;
+
+const keyed: Encoder = (translations) => JSON.stringify(keyedBatch(translations));
+const fenced: Encoder = (translations) => '```json\n' + keyed(translations) + '\n```';
+const numbered: Encoder = (translations) => translations.map((text, i) => `${i + 1}. ${text}`).join('\n');
+
+/**
+ * OpenAI-compatible chat completions API
+ */
+const chatCompletions = (encode: Encoder): Transport => (model) => async (_url, init) => {
+  const content = encode(model.next());
+  if (isStream(init)) {
+    return sse([...chunks(content).map((c) => JSON.stringify({ choices: [{ delta: { content: c } }] })), '[DONE]']);
+  }
+  return Response.json({ choices: [{ message: { content } }] });
+};
+
+const anthropicMessages: Transport = (model) => async (_url, init) => {
+  const text = keyed(model.next());
+  if (isStream(init)) {
+    return sse([
+      JSON.stringify({ type: 'message_start', message: { usage: { input_tokens: 1, output_tokens: 1 } } }),
+      ...chunks(text).map((c) => JSON.stringify({ type: 'content_block_delta', delta: { type: 'text_delta', text: c } })),
+    ]);
+  }
+  return Response.json({ content: [{ text }] });
+};
+
+const providers: Array<[string, Transport, () => LLMProvider]> = [
+  ['OpenAI', chatCompletions(keyed), () => createOpenAIProvider({ apiKey: 'test' })],
+  ['Cerebras', chatCompletions(fenced), () => createCerebrasProvider({ apiKey: 'test' })],
+  ['Nebius', chatCompletions(numbered), () => createNebiusProvider({ apiKey: 'test' })],
+  ['Anthropic', anthropicMessages, () => createAnthropicProvider({ apiKey: 'test' })],
+];
+
+describe('LLMProvider conformance', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each(providers)('%s example provider', async (_name, transport, create) => {
+    await runLLMProviderConformance(
+      (model) => {
+        vi.stubGlobal('fetch', transport(model));
+        return create();
+      },
+      { teardown: () => { vi.unstubAllGlobals(); } }
+    );
+  });
+
+  it('mock provider', async () => {
+    await runLLMProviderConformance((model) =>
+      createMockLLMProvider({ responses: Array.from({ length: 5 }, () => () => model.next()) })
+    );
+  });
+});
@@ -0,0 +1,212 @@
+// @vitest-environment jsdom
+import { act, type ReactNode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { AudarProvider, ViewTranslationProvider, useViewTranslation } from '../../src/core/ViewTranslationProvider';
+import { createMemoryMetadataStore } from '../../src/core/metadata-store';
+import { hashSourceText } from '../../src/core/source-hash';
+import { createMockLLMProvider, type MockLLMProvider } from '../../src/testing/mock-llm-provider';
+import type { AudarConfig, TranslationItem } from '../../src/types';
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+
+/**
+ * IntersectionObserver reporting elements marked data-visible as on screen
+ * as soon as they are observed
+ */
+class FakeIntersectionObserver {
+  constructor(private callback: IntersectionObserverCallback) {}
+
+  observe(target: Element) {
+    const entry = { target, isIntersecting: target.hasAttribute('data-visible') } as IntersectionObserverEntry;
+    this.callback([entry], this as unknown as IntersectionObserver);
+  }
+
+  unobserve() {}
+  disconnect() {}
+}
+
+function product(id: string): TranslationItem {
+  return { contentType: 'product_title', contentId: id, text: `Product ${id}` };
+}
+
+function Title({ item, visible }: { item: TranslationItem; visible?: boolean }) {
+  const { text, isTranslating, ref } = useViewTranslation(item.contentType, item.contentId, item.text);
+  return (
+    <h2 ref={ref} data-visible={visible || undefined} data-translating={isTranslating || undefined}>
+      {text}
+    </h2>
+  );
+}
+
+let container: HTMLDivElement;
+let root: Root;
+
+function setup(overrides: Partial<AudarConfig> = {}) {
+  const llm = createMockLLMProvider({ stream: false });
+  const config: AudarConfig = {
+    database: createJsonFileAdapter(),
+    llm,
+    i18n: { getCurrentLocale: () => 'ru', getDefaultLocale: () => 'en', getSupportedLocales: () => ['en', 'ru'] },
+    metadataStore: createMemoryMetadataStore(),
+    clientCache: false,
+    resilience: false,
+    coalesceWindowMs: 0,
+    ...overrides,
+  };
+  return { config, llm };
+}
+
+async function render(config: AudarConfig, items: TranslationItem[], children: ReactNode) {
+  await act(async () => {
+    root.render(
+      <AudarProvider config={config}>
+        <ViewTranslationProvider viewName="feed" items={items}>
+          {children}
+        </ViewTranslationProvider>
+      </AudarProvider>
+    );
+  });
+}
+
+function heading() {
+  const element = container.querySelector('h2')!;
+  return { text: element.textContent, isTranslating: element.hasAttribute('data-translating') };
+}
+
+/**
+ * Store a translation of an older version of the item's text
+ */
+async function storeOutdated(config: AudarConfig, item: TranslationItem) {
+  await config.database.saveTranslations([{
+    content_type: item.contentType,
+    content_id: item.contentId,
+    locale: 'ru',
+    original_text: 'Old title',
+    translated_text: 'Старое название',
+    source_hash: hashSourceText('Old title'),
+  }]);
+}
+
+/**
+ * LLM response held until release() is called
+ */
+function heldResponse() {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const response = async (items: TranslationItem[]) => {
+    await released;
+    return items.map((item) => `[ru] ${item.text}`);
+  };
+  return { response, release };
+}
+
+/**
+ * Retry an assertion, letting React apply pending updates between tries
+ * (updates made inside act() are only flushed when it returns)
+ */
+async function waitFor(assertion: () => void) {
+  await vi.waitFor(async () => {
+    await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+    assertion();
+  });
+}
+
+async function waitForCalls(llm: MockLLMProvider, count: number) {
+  await waitFor(() => expect(llm.calls).toHaveLength(count));
+}
+
+beforeEach(() => {
+  globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+  vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+  vi.unstubAllGlobals();
+});
+
+describe('ViewTranslationProvider', () => {
+  it('translates visible items first, then mounted ones, then the rest in items order', async () => {
+    const { config, llm } = setup({ chunkSize: 1, chunkConcurrency: 1 });
+    const items = ['1', '2', '3', '4', '5'].map(product);
+
+    // 5 is not rendered, 3 is on screen
+    await render(
+      config,
+      items,
+      items.slice(0, 4).map((item) => <Title key={item.contentId} item={item} visible={item.contentId === '3'} />)
+    );
+    await waitForCalls(llm, 5);
+
+    expect(llm.calls.map((call) => call.items[0].contentId)).toEqual(['3', '1', '2', '4', '5']);
+    await waitFor(() => expect(container.textContent).toContain('[ru] Product 4'));
+  });
+
+  it('re-translates an item whose stored translation is of an older source text', async () => {
+    const { config, llm } = setup();
+    const item = product('1');
+    await storeOutdated(config, item);
+
+    await render(config, [item], <Title item={item} />);
+    await waitForCalls(llm, 1);
+    await waitFor(() => expect(heading()).toEqual({ text: '[ru] Product 1', isTranslating: false }));
+
+    const [row] = await config.database.getCachedTranslations([item], 'ru');
+    expect(row).toMatchObject({ translated_text: '[ru] Product 1', source_hash: hashSourceText('Product 1') });
+  });
+
+  it('shows source text while a stale item is re-translated', async () => {
+    const { config, llm } = setup();
+    const held = heldResponse();
+    llm.enqueue(held.response);
+    const item = product('1');
+    await storeOutdated(config, item);
+
+    await render(config, [item], <Title item={item} />);
+    await waitForCalls(llm, 1);
+    expect(heading()).toEqual({ text: 'Product 1', isTranslating: true });
+
+    await act(async () => held.release());
+    await waitFor(() => expect(heading()).toEqual({ text: '[ru] Product 1', isTranslating: false }));
+  });
+
+  it('keeps the outdated translation on screen while revalidating with staleWhileRevalidate', async () => {
+    const { config, llm } = setup({ staleWhileRevalidate: true });
+    const held = heldResponse();
+    llm.enqueue(held.response);
+    const item = product('1');
+    await storeOutdated(config, item);
+
+    await render(config, [item], <Title item={item} />);
+    await waitForCalls(llm, 1);
+    expect(heading()).toEqual({ text: 'Старое название', isTranslating: true });
+
+    await act(async () => held.release());
+    await waitFor(() => expect(heading()).toEqual({ text: '[ru] Product 1', isTranslating: false }));
+  });
+
+  it('uses an up-to-date stored translation without calling the LLM', async () => {
+    const { config, llm } = setup();
+    const item = product('1');
+    await config.database.saveTranslations([{
+      content_type: item.contentType,
+      content_id: item.contentId,
+      locale: 'ru',
+      original_text: item.text,
+      translated_text: 'Товар 1',
+      source_hash: hashSourceText(item.text),
+    }]);
+
+    await render(config, [item], <Title item={item} />);
+    await waitFor(() => expect(heading()).toEqual({ text: 'Товар 1', isTranslating: false }));
+    expect(llm.calls).toHaveLength(0);
+  });
+});
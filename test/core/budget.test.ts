@@ -0,0 +1,152 @@
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createBudgetGuard,
+  createDatabaseBudgetCounter,
+  createMemoryBudgetCounter,
+} from '../../src/core/budget';
+import { estimateBatchUsage } from '../../src/core/cost';
+import { translateAndSave } from '../../src/core/pipeline';
+import { LLMRequestError, withResilience } from '../../src/core/resilience';
+import { createMockLLMProvider } from '../../src/testing/mock-llm-provider';
+import type { BudgetCounter, DatabaseAdapter, TranslationItem } from '../../src/types';
+
+function items(count: number, text = 'Hello world'): TranslationItem[] {
+  return Array.from({ length: count }, (_, i) => ({ contentType: 'product_title', contentId: String(i), text }));
+}
+
+describe('createMemoryBudgetCounter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('adds up increments and restarts after the window expires', async () => {
+    const counter = createMemoryBudgetCounter();
+
+    expect(await counter.increment('k', 2, 1000)).toBe(2);
+    expect(await counter.increment('k', 3, 1000)).toBe(5);
+    expect(await counter.increment('k', -1, 1000)).toBe(4);
+
+    vi.advanceTimersByTime(1000);
+    expect(await counter.increment('k', 1, 1000)).toBe(1);
+  });
+});
+
+describe('createDatabaseBudgetCounter', () => {
+  it('requires incrementBudgetCounter', () => {
+    expect(() => createDatabaseBudgetCounter({} as DatabaseAdapter)).toThrow(/incrementBudgetCounter/);
+  });
+
+  it('passes an absolute expiry to the adapter', async () => {
+    const incrementBudgetCounter = vi.fn(async () => 7);
+    const counter = createDatabaseBudgetCounter({ incrementBudgetCounter } as unknown as DatabaseAdapter);
+
+    expect(await counter.increment('k', 3, 60_000)).toBe(7);
+    const [key, amount, expiresAt] = incrementBudgetCounter.mock.calls[0] as unknown as [string, number, Date];
+    expect([key, amount]).toEqual(['k', 3]);
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 59_000);
+  });
+});
+
+describe('createBudgetGuard', () => {
+  it('allows reservations within the item limit and denies the one that exceeds it', async () => {
+    const guard = createBudgetGuard({ perMinute: { items: 5 }, counter: createMemoryBudgetCounter() });
+
+    expect((await guard.reserve(items(3), 'ru')).allowed).toBe(true);
+    const denied = await guard.reserve(items(3), 'ru');
+    expect(denied).toMatchObject({ allowed: false, exceeded: 'perMinute.items (global)' });
+    expect(denied.retryAfterMs).toBeGreaterThan(0);
+    expect(denied.retryAfterMs).toBeLessThanOrEqual(60_000);
+
+    // The denied reservation was rolled back
+    expect((await guard.reserve(items(2), 'ru')).allowed).toBe(true);
+  });
+
+  it('applies per-locale limits to each locale separately', async () => {
+    const guard = createBudgetGuard({ perLocale: { perDay: { items: 2 } }, counter: createMemoryBudgetCounter() });
+
+    expect((await guard.reserve(items(2), 'ru')).allowed).toBe(true);
+    expect((await guard.reserve(items(1), 'ru'))).toMatchObject({ allowed: false, exceeded: 'perDay.items (ru)' });
+    expect((await guard.reserve(items(2), 'kk')).allowed).toBe(true);
+  });
+
+  it('replaces the token estimate with reported usage on settle', async () => {
+    const counter = createMemoryBudgetCounter();
+    const batch = items(2);
+    const estimate = estimateBatchUsage(batch);
+    const estimated = estimate.inputTokens + estimate.outputTokens;
+    const guard = createBudgetGuard({ perDay: { tokens: estimated + 10 }, counter });
+
+    const decision = await guard.reserve(batch, 'ru');
+    expect(decision.allowed).toBe(true);
+    await decision.settle({ inputTokens: 1, outputTokens: 1 });
+
+    // Only 2 tokens are charged now, so a second batch of the same size fits
+    expect((await guard.reserve(batch, 'ru')).allowed).toBe(true);
+  });
+
+  it('denies when the counter fails', async () => {
+    const counter: BudgetCounter = { increment: async () => { throw new Error('down'); } };
+    const guard = createBudgetGuard({ perMinute: { items: 100 }, counter });
+
+    expect(await guard.reserve(items(1), 'ru')).toMatchObject({ allowed: false, exceeded: 'counter-error' });
+  });
+
+  it('allows everything without limits', async () => {
+    const increment = vi.fn(async () => 0);
+    const guard = createBudgetGuard({ counter: { increment } });
+
+    expect((await guard.reserve(items(100), 'ru')).allowed).toBe(true);
+    expect(increment).not.toHaveBeenCalled();
+  });
+
+  it('refunds the estimate when a call fails without reporting usage', async () => {
+    const counter = createMemoryBudgetCounter();
+    const batch = items(2);
+    const estimate = estimateBatchUsage(batch);
+    const budget = { perDay: { tokens: estimate.inputTokens + estimate.outputTokens }, counter };
+    const llm = createMockLLMProvider({ stream: false, responses: [new Error('503 Service Unavailable')] });
+    const options = { database: createJsonFileAdapter(), llm, items: batch, sourceLocale: 'en', targetLocale: 'ru', budget };
+
+    await expect(translateAndSave(options)).rejects.toThrow('503');
+
+    // The failed call's reservation was released, so the retry fits the budget
+    const { translations, budgetExceeded } = await translateAndSave(options);
+    expect(budgetExceeded).toBeUndefined();
+    expect(Object.keys(translations)).toHaveLength(2);
+  });
+
+  it('keeps the estimate when a successful call reports no usage', async () => {
+    const counter = createMemoryBudgetCounter();
+    const batch = items(2);
+    const estimate = estimateBatchUsage(batch);
+    const budget = { perDay: { tokens: estimate.inputTokens + estimate.outputTokens }, counter };
+    const llm = createMockLLMProvider({ stream: false, reportUsage: false });
+    const options = { database: createJsonFileAdapter(), llm, items: batch, sourceLocale: 'en', targetLocale: 'ru', budget };
+
+    await translateAndSave(options);
+
+    expect((await translateAndSave(options)).budgetExceeded).toBe('perDay.tokens (global)');
+  });
+
+  it('refunds the estimate when an open circuit answers without calling the provider', async () => {
+    const counter = createMemoryBudgetCounter();
+    const batch = items(2);
+    const estimate = estimateBatchUsage(batch);
+    const budget = { perDay: { tokens: estimate.inputTokens + estimate.outputTokens }, counter };
+    const mock = createMockLLMProvider({ stream: false, responses: [new LLMRequestError('HTTP 503', 503)] });
+    const llm = withResilience(mock, { retry: false, circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60_000 } });
+    const options = { database: createJsonFileAdapter(), llm, items: batch, sourceLocale: 'en', targetLocale: 'ru', budget };
+
+    await expect(translateAndSave(options)).rejects.toThrow('HTTP 503');
+    expect((await translateAndSave(options)).translations).toEqual({});
+    expect(mock.calls).toHaveLength(1);
+
+    // Neither call kept its reservation
+    expect((await createBudgetGuard(budget).reserve(batch, 'ru')).allowed).toBe(true);
+  });
+});
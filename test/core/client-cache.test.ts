@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createIndexedDBTranslationCache, createMemoryTranslationCache } from '../../src/core/client-cache';
+
+describe('createMemoryTranslationCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns stored entries and omits unknown keys', async () => {
+    const cache = createMemoryTranslationCache();
+    await cache.set({ a: 'A', b: 'B' });
+
+    expect(await cache.get(['a', 'c'])).toEqual(new Map([['a', 'A']]));
+  });
+
+  it('evicts the least recently used entry beyond maxEntries', async () => {
+    const cache = createMemoryTranslationCache({ maxEntries: 2 });
+    await cache.set({ a: 'A', b: 'B' });
+    await cache.get(['a']);
+    await cache.set({ c: 'C' });
+
+    expect(Array.from((await cache.get(['a', 'b', 'c'])).keys())).toEqual(['a', 'c']);
+  });
+
+  it('treats entries older than maxAgeMs as misses', async () => {
+    const cache = createMemoryTranslationCache({ maxAgeMs: 1000 });
+    await cache.set({ a: 'A' });
+
+    vi.advanceTimersByTime(1000);
+    expect((await cache.get(['a'])).get('a')).toBe('A');
+
+    // Reading does not extend the lifetime
+    vi.advanceTimersByTime(1);
+    expect((await cache.get(['a'])).size).toBe(0);
+  });
+
+  it('restarts the lifetime when an entry is stored again', async () => {
+    const cache = createMemoryTranslationCache({ maxAgeMs: 1000 });
+    await cache.set({ a: 'A' });
+    vi.advanceTimersByTime(800);
+    await cache.set({ a: 'A2' });
+    vi.advanceTimersByTime(800);
+
+    expect((await cache.get(['a'])).get('a')).toBe('A2');
+  });
+});
+
+describe('createIndexedDBTranslationCache', () => {
+  it('falls back to memory (with the same lifetime) without IndexedDB', async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = createIndexedDBTranslationCache({ maxAgeMs: 1000 });
+      await cache.set({ a: 'A' });
+      expect((await cache.get(['a'])).get('a')).toBe('A');
+
+      vi.advanceTimersByTime(1001);
+      expect((await cache.get(['a'])).size).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { createCostTracker } from '../../src/core/cost';
+import { translateAndSave } from '../../src/core/pipeline';
+import { createMockLLMProvider } from '../../src/testing/mock-llm-provider';
+import type { TranslationItem } from '../../src/types';
+
+const PRICING = { '*': { inputPerMillion: 1_000_000, outputPerMillion: 1_000_000 } };
+
+function item(contentType: string, contentId: string, text = 'Hello'): TranslationItem {
+  return { contentType, contentId, text };
+}
+
+describe('createCostTracker', () => {
+  it('sums usage and cost per locale and splits it across content types by source characters', () => {
+    const tracker = createCostTracker(PRICING);
+
+    const cost = tracker.record(
+      { inputTokens: 3, outputTokens: 1 },
+      [item('product_title', '1', 'abc'), item('shop_name', '1', 'a')],
+      'ru'
+    );
+
+    expect(cost).toBe(4);
+    const totals = tracker.totals();
+    expect(totals).toMatchObject({ items: 2, inputTokens: 3, outputTokens: 1, cost: 4 });
+    expect(totals.byLocale.ru).toEqual({ items: 2, inputTokens: 3, outputTokens: 1, cost: 4 });
+    expect(totals.byContentType.product_title).toEqual({ items: 1, inputTokens: 2.25, outputTokens: 0.75, cost: 3 });
+    expect(totals.byContentType.shop_name).toEqual({ items: 1, inputTokens: 0.75, outputTokens: 0.25, cost: 1 });
+  });
+
+  it('adds the usage of re-requested items without counting them again', () => {
+    const tracker = createCostTracker(PRICING);
+    const batch = [item('product_title', '1'), item('product_title', '2')];
+
+    tracker.record({ inputTokens: 10, outputTokens: 10 }, batch, 'ru');
+    tracker.record({ inputTokens: 5, outputTokens: 5 }, [batch[1]], 'ru');
+    tracker.record({ inputTokens: 10, outputTokens: 10 }, batch, 'kk');
+
+    const totals = tracker.totals();
+    expect(totals).toMatchObject({ items: 4, inputTokens: 25, outputTokens: 25 });
+    expect(totals.byLocale.ru).toMatchObject({ items: 2, inputTokens: 15, cost: 30 });
+    expect(totals.byContentType.product_title).toMatchObject({ items: 4, inputTokens: 25 });
+  });
+});
+
+describe('translateAndSave costs', () => {
+  it('counts an item re-requested after a rejection once', async () => {
+    const llm = createMockLLMProvider({ stream: false, responses: [{ malformed: 'empty' }] });
+    const items = [item('product_title', '1'), item('product_title', '2')];
+
+    const { costs } = await translateAndSave({
+      database: createJsonFileAdapter(),
+      llm,
+      items,
+      sourceLocale: 'en',
+      targetLocale: 'ru',
+    });
+
+    expect(llm.calls).toHaveLength(2);
+    expect(costs.items).toBe(2);
+    expect(costs.byLocale.ru.items).toBe(2);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { createMemoryTranslationCache } from '../../src/core/client-cache';
+import { invalidate, type InvalidateConfig } from '../../src/core/invalidate';
+import { createMemoryMetadataStore } from '../../src/core/metadata-store';
+import { hashSourceText } from '../../src/core/source-hash';
+import type { DatabaseAdapter, StoredTranslation, ViewTranslationMetadata } from '../../src/types';
+
+function row(contentId: string, locale: string): StoredTranslation {
+  return {
+    content_type: 'product_title',
+    content_id: contentId,
+    locale,
+    original_text: `Product ${contentId}`,
+    translated_text: `[${locale}] Product ${contentId}`,
+    source_hash: hashSourceText(`Product ${contentId}`),
+  };
+}
+
+const metadata: ViewTranslationMetadata = {
+  contentHash: 'abc',
+  lastTranslated: new Date().toISOString(),
+  locale: 'ru',
+  itemCount: 2,
+};
+
+async function setup() {
+  const database = createJsonFileAdapter();
+  await database.saveTranslations([row('1', 'ru'), row('2', 'ru'), row('1', 'kk')]);
+
+  const metadataStore = createMemoryMetadataStore();
+  await metadataStore.set('feed', 'ru', metadata);
+  await metadataStore.set('feed', 'kk', { ...metadata, locale: 'kk' });
+  await metadataStore.set('sidebar', 'ru', metadata);
+
+  const clientCache = createMemoryTranslationCache();
+  await clientCache.set({ a: 'A', b: 'B' });
+
+  const config: InvalidateConfig = {
+    database,
+    metadataStore,
+    clientCache,
+    i18n: { getCurrentLocale: () => 'ru', getDefaultLocale: () => 'en', getSupportedLocales: () => ['en', 'ru', 'kk'] },
+  };
+  return { config, database, metadataStore, clientCache };
+}
+
+async function remaining(database: DatabaseAdapter, locale: string): Promise<string[]> {
+  const rows = await database.getCachedTranslations(
+    ['1', '2'].map((contentId) => ({ contentType: 'product_title', contentId, text: '' })),
+    locale
+  );
+  return rows.map((r) => r.content_id).sort();
+}
+
+describe('invalidate', () => {
+  it('deletes matching rows and clears all view metadata and the client cache', async () => {
+    const { config, database, metadataStore, clientCache } = await setup();
+
+    const result = await invalidate(config, { contentType: 'product_title', contentIds: ['1'] });
+
+    expect(result.deleted).toBe(2);
+    expect(await remaining(database, 'ru')).toEqual(['2']);
+    expect(await remaining(database, 'kk')).toEqual([]);
+    expect(await metadataStore.get('feed', 'ru')).toBeNull();
+    expect(await metadataStore.get('sidebar', 'ru')).toBeNull();
+    expect((await clientCache.get(['a', 'b'])).size).toBe(0);
+  });
+
+  it('clears metadata of the given views only, in the filtered locales', async () => {
+    const { config, database, metadataStore } = await setup();
+
+    await invalidate(config, { locales: ['ru'] }, { views: ['feed'] });
+
+    expect(await remaining(database, 'ru')).toEqual([]);
+    expect(await remaining(database, 'kk')).toEqual(['1']);
+    expect(await metadataStore.get('feed', 'ru')).toBeNull();
+    expect(await metadataStore.get('feed', 'kk')).not.toBeNull();
+    expect(await metadataStore.get('sidebar', 'ru')).not.toBeNull();
+  });
+
+  it('refuses an empty filter', async () => {
+    const { config, database } = await setup();
+
+    await expect(invalidate(config, {})).rejects.toThrow('Refusing to invalidate every translation');
+    expect(await remaining(database, 'ru')).toEqual(['1', '2']);
+  });
+
+  it('requires deleteTranslations', async () => {
+    const { config } = await setup();
+    const database: DatabaseAdapter = { ...config.database, deleteTranslations: undefined };
+
+    await expect(invalidate({ ...config, database }, { contentType: 'product_title' })).rejects.toThrow(
+      'does not support invalidation'
+    );
+  });
+});
@@ -0,0 +1,190 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createLocalStorageMetadataStore,
+  createMemoryMetadataStore,
+  createNoopMetadataStore,
+  createSessionStorageMetadataStore,
+  resolveMetadataStore,
+} from '../../src/core/metadata-store';
+import type { MetadataStore, ViewTranslationMetadata } from '../../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function metadata(ageMs = 0): ViewTranslationMetadata {
+  return {
+    contentHash: 'abc',
+    lastTranslated: new Date(Date.now() - ageMs).toISOString(),
+    locale: 'ru',
+    itemCount: 3,
+  };
+}
+
+/**
+ * Web Storage whose next setItem calls fail with a quota error
+ */
+class FullStorage implements Storage {
+  private items = new Map<string, string>();
+  failures = 0;
+
+  get length() {
+    return this.items.size;
+  }
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    if (this.failures > 0) {
+      this.failures--;
+      throw Object.assign(new Error('Storage full'), { name: 'QuotaExceededError' });
+    }
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  clear() {
+    this.items.clear();
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-01-15T12:00:00Z'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  localStorage.clear();
+  sessionStorage.clear();
+});
+
+describe.each<[string, () => MetadataStore]>([
+  ['memory', () => createMemoryMetadataStore({ maxAgeMs: DAY })],
+  ['localStorage', () => createLocalStorageMetadataStore({ maxAgeMs: DAY })],
+  ['sessionStorage', () => createSessionStorageMetadataStore({ maxAgeMs: DAY })],
+])('%s metadata store', (_name, create) => {
+  it('stores metadata per view and locale', async () => {
+    const store = create();
+    await store.set('feed', 'ru', metadata());
+
+    expect(await store.get('feed', 'ru')).toEqual(metadata());
+    expect(await store.get('feed', 'kk')).toBeNull();
+    expect(await store.get('sidebar', 'ru')).toBeNull();
+  });
+
+  it('deletes one entry or clears all', async () => {
+    const store = create();
+    await store.set('feed', 'ru', metadata());
+    await store.set('feed', 'kk', metadata());
+    await store.set('sidebar', 'ru', metadata());
+
+    await store.delete('feed', 'ru');
+    expect(await store.get('feed', 'ru')).toBeNull();
+    expect(await store.get('feed', 'kk')).not.toBeNull();
+
+    await store.clear();
+    expect(await store.get('feed', 'kk')).toBeNull();
+    expect(await store.get('sidebar', 'ru')).toBeNull();
+  });
+
+  it('expires entries older than maxAgeMs', async () => {
+    const store = create();
+    await store.set('feed', 'ru', metadata(2 * DAY));
+    await store.set('sidebar', 'ru', metadata());
+
+    expect(await store.expire()).toBe(1);
+    expect(await store.get('feed', 'ru')).toBeNull();
+    expect(await store.get('sidebar', 'ru')).not.toBeNull();
+
+    vi.setSystemTime(Date.now() + 1);
+    expect(await store.expire(0)).toBe(1);
+  });
+});
+
+describe('createLocalStorageMetadataStore', () => {
+  it('reads entries written with the default prefix and leaves other keys alone', async () => {
+    localStorage.setItem('translation_metadata_feed_ru', JSON.stringify(metadata()));
+    localStorage.setItem('unrelated', 'keep');
+    const store = createLocalStorageMetadataStore();
+
+    expect(await store.get('feed', 'ru')).toEqual(metadata());
+    await store.clear();
+    expect(localStorage.getItem('translation_metadata_feed_ru')).toBeNull();
+    expect(localStorage.getItem('unrelated')).toBe('keep');
+  });
+
+  it('drops expired and unparsable entries on the first write', async () => {
+    localStorage.setItem('translation_metadata_old_ru', JSON.stringify(metadata(2 * DAY)));
+    localStorage.setItem('translation_metadata_broken_ru', '{');
+    const store = createLocalStorageMetadataStore({ maxAgeMs: DAY });
+
+    await store.set('feed', 'ru', metadata());
+
+    expect(localStorage.getItem('translation_metadata_old_ru')).toBeNull();
+    expect(localStorage.getItem('translation_metadata_broken_ru')).toBeNull();
+    expect(await store.get('feed', 'ru')).toEqual(metadata());
+  });
+
+  it('expires entries and retries once when storage is full', async () => {
+    const storage = new FullStorage();
+    vi.spyOn(window, 'localStorage', 'get').mockReturnValue(storage);
+    const store = createLocalStorageMetadataStore({ maxAgeMs: DAY });
+    await store.set('warmup', 'ru', metadata());
+
+    // Written after the first-write housekeeping, so only the quota error removes it
+    storage.setItem('translation_metadata_old_ru', JSON.stringify(metadata(2 * DAY)));
+    storage.failures = 1;
+    await store.set('feed', 'ru', metadata());
+
+    expect(storage.getItem('translation_metadata_old_ru')).toBeNull();
+    expect(await store.get('feed', 'ru')).toEqual(metadata());
+  });
+
+  it('drops the write when storage stays full', async () => {
+    const storage = new FullStorage();
+    vi.spyOn(window, 'localStorage', 'get').mockReturnValue(storage);
+    const store = createLocalStorageMetadataStore();
+    storage.failures = 3;
+
+    await expect(store.set('feed', 'ru', metadata())).resolves.toBeUndefined();
+    expect(await store.get('feed', 'ru')).toBeNull();
+  });
+
+  it('falls back to memory when storage is blocked', async () => {
+    vi.spyOn(window, 'localStorage', 'get').mockImplementation(() => {
+      throw new DOMException('Access denied', 'SecurityError');
+    });
+    const store = createLocalStorageMetadataStore();
+
+    await store.set('feed', 'ru', metadata());
+
+    expect(await store.get('feed', 'ru')).toEqual(metadata());
+  });
+});
+
+describe('createNoopMetadataStore', () => {
+  it('remembers nothing', async () => {
+    const store = createNoopMetadataStore();
+    await store.set('feed', 'ru', metadata());
+
+    expect(await store.get('feed', 'ru')).toBeNull();
+    expect(await store.expire()).toBe(0);
+  });
+});
+
+describe('resolveMetadataStore', () => {
+  it('uses the configured store, else one shared localStorage store', async () => {
+    const configured = createMemoryMetadataStore();
+    expect(resolveMetadataStore({ metadataStore: configured })).toBe(configured);
+
+    const fallback = resolveMetadataStore({});
+    expect(resolveMetadataStore({})).toBe(fallback);
+    await fallback.set('feed', 'ru', metadata());
+    expect(localStorage.getItem('translation_metadata_feed_ru')).not.toBeNull();
+  });
+});
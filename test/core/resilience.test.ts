@@ -0,0 +1,397 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CircuitOpenError,
+  LLMRequestError,
+  LLMTimeoutError,
+  backoffDelay,
+  isTransientError,
+  parseRetryAfter,
+  retryAfterOf,
+  resolveLLMProvider,
+  retryWithBackoff,
+  withResilience,
+} from '../../src/core/resilience';
+import type { LLMProvider, StreamedTranslation, TranslationItem } from '../../src/types';
+
+const ITEMS: TranslationItem[] = [
+  { contentType: 'product_title', contentId: '1', text: 'One' },
+  { contentType: 'product_title', contentId: '2', text: 'Two' },
+];
+
+const translated = (items: TranslationItem[]) => items.map((item) => `ru:${item.text}`);
+
+const status = (code: number, retryAfterMs?: number) => new LLMRequestError(`HTTP ${code}`, code, retryAfterMs);
+
+async function collect(stream: AsyncIterable<StreamedTranslation>): Promise<string[]> {
+  const out: string[] = [];
+  for await (const { text } of stream) out.push(text);
+  return out;
+}
+
+/**
+ * Provider failing with the scripted errors before answering
+ */
+function flakyProvider(...failures: unknown[]) {
+  const provider = {
+    calls: 0,
+    async translateBatch(items: TranslationItem[]) {
+      provider.calls++;
+      const failure = failures.shift();
+      if (failure) throw failure;
+      return translated(items);
+    },
+  };
+  return provider;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('LLMRequestError.fromResponse', () => {
+  it('keeps the status, body and Retry-After', async () => {
+    const response = new Response('slow down', { status: 429, headers: { 'retry-after': '2' } });
+    const error = await LLMRequestError.fromResponse('OpenAI', response);
+
+    expect(error.message).toBe('OpenAI API error: 429 slow down');
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(2000);
+  });
+
+  it('prefers retry-after-ms', async () => {
+    const response = new Response('', { status: 429, headers: { 'retry-after': '2', 'retry-after-ms': '150' } });
+    expect((await LLMRequestError.fromResponse('OpenAI', response)).retryAfterMs).toBe(150);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('1.5', now)).toBe(1500);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe('retryAfterOf', () => {
+  it('reads retryAfterMs or SDK-style headers', () => {
+    expect(retryAfterOf(new CircuitOpenError(500))).toBe(500);
+    expect(retryAfterOf({ status: 429, headers: { 'retry-after': '3' } })).toBe(3000);
+    expect(retryAfterOf(new Error('x'))).toBeUndefined();
+  });
+});
+
+describe('isTransientError', () => {
+  it.each([
+    [new LLMTimeoutError(10), true],
+    [new TypeError('fetch failed'), true],
+    [status(408), true],
+    [status(429), true],
+    [status(503), true],
+    [{ statusCode: 502 }, true],
+    [status(400), false],
+    [status(401), false],
+    [new SyntaxError('Unexpected token'), false],
+    [new CircuitOpenError(100), false],
+  ])('%s → %s', (error, expected) => {
+    expect(isTransientError(error)).toBe(expected);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('backs off exponentially with equal jitter, capped at maxDelayMs', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, { baseDelayMs: 100, maxDelayMs: 500 }))).toEqual([
+      100, 200, 400, 500,
+    ]);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(3, { baseDelayMs: 100 })).toBe(200);
+  });
+
+  it('waits at least Retry-After, and gives up when it exceeds maxRetryAfterMs', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(1, { baseDelayMs: 100 }, status(429, 5000))).toBe(5000);
+    expect(backoffDelay(1, { maxRetryAfterMs: 1000 }, status(429, 5000))).toBeUndefined();
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('retries until fn succeeds', async () => {
+    const onRetry = vi.fn();
+    let calls = 0;
+
+    const result = await retryWithBackoff(async (attempt) => {
+      calls++;
+      if (attempt < 2) throw new Error('flaky');
+      return 'ok';
+    }, { baseDelayMs: 1, onRetry });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it('stops after maxRetries and for non-retryable errors', async () => {
+    const always = vi.fn(async () => { throw status(503); });
+    await expect(retryWithBackoff(always, { maxRetries: 2, baseDelayMs: 1 })).rejects.toThrow('HTTP 503');
+    expect(always).toHaveBeenCalledTimes(3);
+
+    const permanent = vi.fn(async () => { throw status(400); });
+    await expect(retryWithBackoff(permanent, { baseDelayMs: 1, isRetryable: isTransientError })).rejects.toThrow('HTTP 400');
+    expect(permanent).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = retryWithBackoff(async () => { throw status(503); }, {
+      baseDelayMs: 10_000,
+      signal: controller.signal,
+      onRetry: () => controller.abort(new Error('cancelled')),
+    });
+    await expect(pending).rejects.toThrow('cancelled');
+  });
+});
+
+describe('withResilience', () => {
+  it('retries transient failures and honours Retry-After', async () => {
+    const provider = flakyProvider(status(429, 30), new TypeError('fetch failed'));
+    const onRetry = vi.fn();
+    const llm = withResilience(provider, { retry: { baseDelayMs: 1 }, onRetry });
+
+    expect(await llm.translateBatch(ITEMS, 'en', 'ru')).toEqual(translated(ITEMS));
+    expect(provider.calls).toBe(3);
+    expect(onRetry.mock.calls[0][1]).toBeGreaterThanOrEqual(30);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const provider = flakyProvider(status(401));
+    const llm = withResilience(provider, { retry: { baseDelayMs: 1 } });
+
+    await expect(llm.translateBatch(ITEMS, 'en', 'ru')).rejects.toMatchObject({ status: 401 });
+    expect(provider.calls).toBe(1);
+  });
+
+  it('times out requests and aborts the provider signal', async () => {
+    let signal: AbortSignal | undefined;
+    const hanging: LLMProvider = {
+      translateBatch: (_items, _source, _target, options) => {
+        signal = options?.signal;
+        return new Promise(() => {});
+      },
+    };
+    const llm = withResilience(hanging, { timeoutMs: 20, retry: false });
+
+    await expect(llm.translateBatch(ITEMS, 'en', 'ru')).rejects.toBeInstanceOf(LLMTimeoutError);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('passes the caller abort through without counting it as a failure', async () => {
+    let calls = 0;
+    const provider: LLMProvider = {
+      async translateBatch(items, _source, _target, options) {
+        if (++calls > 1) return translated(items);
+        return new Promise((_, reject) => options?.signal?.addEventListener('abort', () => reject(options.signal!.reason)));
+      },
+    };
+    const llm = withResilience(provider, { circuitBreaker: { failureThreshold: 1, whenOpen: 'throw' } });
+    const controller = new AbortController();
+
+    const pending = llm.translateBatch(ITEMS, 'en', 'ru', { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    controller.abort(new Error('unmounted'));
+    await expect(pending).rejects.toThrow('unmounted');
+
+    // Not retried, and the circuit is still closed
+    expect(await llm.translateBatch(ITEMS, 'en', 'ru')).toEqual(translated(ITEMS));
+    expect(calls).toBe(2);
+  });
+
+  it('rejects a call whose signal is already aborted without sending it', async () => {
+    const provider = flakyProvider();
+    const llm = withResilience(provider);
+    const controller = new AbortController();
+    controller.abort(new Error('unmounted'));
+
+    await expect(llm.translateBatch(ITEMS, 'en', 'ru', { signal: controller.signal })).rejects.toThrow('unmounted');
+    expect(provider.calls).toBe(0);
+  });
+
+  it('limits concurrent requests', async () => {
+    let active = 0;
+    let peak = 0;
+    const slow: LLMProvider = {
+      async translateBatch(items) {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+        return translated(items);
+      },
+    };
+    const llm = withResilience(slow, { concurrency: 2 });
+
+    await Promise.all(Array.from({ length: 6 }, () => llm.translateBatch(ITEMS, 'en', 'ru')));
+    expect(peak).toBe(2);
+  });
+
+  it('opens the circuit after repeated failures, answers without translations, then recovers', async () => {
+    let failing = true;
+    let calls = 0;
+    const provider: LLMProvider = {
+      async translateBatch(items) {
+        calls++;
+        if (failing) throw status(503);
+        return translated(items);
+      },
+    };
+    const llm = withResilience(provider, {
+      retry: false,
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 30 },
+    });
+
+    await expect(llm.translateBatch(ITEMS, 'en', 'ru')).rejects.toThrow();
+    await expect(llm.translateBatch(ITEMS, 'en', 'ru')).rejects.toThrow();
+
+    const onUsage = vi.fn();
+    expect(await llm.translateBatch(ITEMS, 'en', 'ru', { onUsage })).toEqual([undefined, undefined]);
+    expect(calls).toBe(2);
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 0, outputTokens: 0 });
+
+    failing = false;
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(await llm.translateBatch(ITEMS, 'en', 'ru')).toEqual(translated(ITEMS));
+    expect(calls).toBe(3);
+  });
+
+  it('throws CircuitOpenError when whenOpen is "throw"', async () => {
+    const llm = withResilience(flakyProvider(status(500)), {
+      retry: false,
+      circuitBreaker: { failureThreshold: 1, whenOpen: 'throw' },
+    });
+
+    await expect(llm.translateBatch(ITEMS, 'en', 'ru')).rejects.toMatchObject({ status: 500 });
+    await expect(llm.translateBatch(ITEMS, 'en', 'ru')).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('does not count permanent failures towards opening the circuit', async () => {
+    const provider = flakyProvider(status(400), status(400));
+    const llm = withResilience(provider, { retry: false, circuitBreaker: { failureThreshold: 2, whenOpen: 'throw' } });
+
+    await expect(llm.translateBatch(ITEMS, 'en', 'ru')).rejects.toMatchObject({ status: 400 });
+    await expect(llm.translateBatch(ITEMS, 'en', 'ru')).rejects.toMatchObject({ status: 400 });
+    expect(await llm.translateBatch(ITEMS, 'en', 'ru')).toEqual(translated(ITEMS));
+  });
+
+  describe('translateBatchStream', () => {
+    function streamingProvider(failures: number) {
+      let attempts = 0;
+      const provider: LLMProvider & { attempts: () => number } = {
+        attempts: () => attempts,
+        async translateBatch(items) {
+          return translated(items);
+        },
+        async *translateBatchStream(items) {
+          if (++attempts <= failures) throw status(502);
+          for (const [index, text] of translated(items).entries()) yield { index, text };
+        },
+      };
+      return provider;
+    }
+
+    it('retries until the first translation arrives', async () => {
+      const provider = streamingProvider(2);
+      const llm = withResilience(provider, { retry: { baseDelayMs: 1 } });
+
+      expect(await collect(llm.translateBatchStream!(ITEMS, 'en', 'ru'))).toEqual(translated(ITEMS));
+      expect(provider.attempts()).toBe(3);
+    });
+
+    it('times out a stream that stalls after its first translation', async () => {
+      const stalling: LLMProvider = {
+        async translateBatch() {
+          return [];
+        },
+        async *translateBatchStream(_items, _source, _target, options) {
+          yield { index: 0, text: 'ru:One' };
+          await new Promise((_, reject) => options?.signal?.addEventListener('abort', () => reject(options.signal!.reason)));
+        },
+      };
+      const llm = withResilience(stalling, { timeoutMs: 20 });
+      const received: string[] = [];
+
+      await expect((async () => {
+        for await (const { text } of llm.translateBatchStream!(ITEMS, 'en', 'ru')) received.push(text);
+      })()).rejects.toBeInstanceOf(LLMTimeoutError);
+      expect(received).toEqual(['ru:One']);
+    });
+
+    it('counts failures after the first translation towards opening the circuit', async () => {
+      let attempts = 0;
+      const failing: LLMProvider = {
+        async translateBatch() {
+          return [];
+        },
+        async *translateBatchStream() {
+          attempts++;
+          yield { index: 0, text: 'ru:One' };
+          throw status(502);
+        },
+      };
+      const llm = withResilience(failing, { retry: false, circuitBreaker: { failureThreshold: 2, whenOpen: 'throw' } });
+
+      await expect(collect(llm.translateBatchStream!(ITEMS, 'en', 'ru'))).rejects.toMatchObject({ status: 502 });
+      await expect(collect(llm.translateBatchStream!(ITEMS, 'en', 'ru'))).rejects.toMatchObject({ status: 502 });
+      await expect(collect(llm.translateBatchStream!(ITEMS, 'en', 'ru'))).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(attempts).toBe(2);
+    });
+
+    it('yields nothing while the circuit is open', async () => {
+      const llm = withResilience(streamingProvider(Infinity), {
+        retry: false,
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      await expect(collect(llm.translateBatchStream!(ITEMS, 'en', 'ru'))).rejects.toThrow();
+      const onUsage = vi.fn();
+      expect(await collect(llm.translateBatchStream!(ITEMS, 'en', 'ru', { onUsage }))).toEqual([]);
+      expect(onUsage).toHaveBeenCalledWith({ inputTokens: 0, outputTokens: 0 });
+    });
+
+    it('closes the provider stream when the consumer stops early', async () => {
+      let closed = false;
+      const provider: LLMProvider = {
+        async translateBatch() {
+          return [];
+        },
+        async *translateBatchStream() {
+          try {
+            yield { index: 0, text: 'ru:One' };
+            yield { index: 1, text: 'ru:Two' };
+          } finally {
+            closed = true;
+          }
+        },
+      };
+      const llm = withResilience(provider);
+
+      for await (const _translation of llm.translateBatchStream!(ITEMS, 'en', 'ru')) break;
+
+      expect(closed).toBe(true);
+    });
+  });
+});
+
+describe('resolveLLMProvider', () => {
+  it('wraps each provider once, unless it is already resilient or resilience is off', () => {
+    const llm = flakyProvider();
+    const wrapped = resolveLLMProvider({ llm });
+
+    expect(wrapped).not.toBe(llm);
+    expect(resolveLLMProvider({ llm, resilience: { timeoutMs: 1000 } })).toBe(wrapped);
+    expect(resolveLLMProvider({ llm: wrapped })).toBe(wrapped);
+    expect(resolveLLMProvider({ llm, resilience: false })).toBe(llm);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alignTranslations,
+  keyedBatch,
+  parseKeyedTranslations,
+  translateWithRecovery,
+  validateTranslation,
+} from '../../src/core/response-validation';
+import { createMockLLMProvider } from '../../src/testing/mock-llm-provider';
+import type { TranslationItem } from '../../src/types';
+
+function items(...texts: string[]): TranslationItem[] {
+  return texts.map((text, i) => ({ contentType: 'product_title', contentId: String(i + 1), text }));
+}
+
+describe('keyedBatch', () => {
+  it('keys texts by 1-based position', () => {
+    expect(keyedBatch(['a', 'b'])).toEqual({ 1: 'a', 2: 'b' });
+  });
+});
+
+describe('alignTranslations', () => {
+  it('places answers on their items, leaving gaps, dropping out-of-range indexes and keeping the first answer', () => {
+    const aligned = alignTranslations(
+      [{ index: 2, text: 'C' }, { index: 0, text: 'A' }, { index: 5, text: 'X' }, { index: 0, text: 'A2' }],
+      3
+    );
+    expect(aligned).toEqual(['A', undefined, 'C']);
+  });
+});
+
+describe('parseKeyedTranslations', () => {
+  it('aligns keyed answers by id', () => {
+    expect(parseKeyedTranslations('{"3": "C", "1": "A"}', 3)).toEqual(['A', undefined, 'C']);
+  });
+
+  it('trusts a positional answer only when its count matches', () => {
+    expect(parseKeyedTranslations('["A", "B"]', 2)).toEqual(['A', 'B']);
+    expect(parseKeyedTranslations('["A", "B"]', 3)).toEqual([undefined, undefined, undefined]);
+    expect(parseKeyedTranslations('{"translations": ["A", "B", "C", "D"]}', 3)).toEqual([undefined, undefined, undefined]);
+  });
+});
+
+describe('validateTranslation', () => {
+  const [item] = items('Red shoes');
+
+  it.each([
+    [undefined, 'missing'],
+    [null, 'missing'],
+    [42, 'invalid'],
+    ['  ', 'empty'],
+    [' Red shoes ', 'untranslated'],
+    ['Красные туфли', null],
+  ])('%j → %s', (text, reason) => {
+    expect(validateTranslation(item, text)).toBe(reason);
+  });
+
+  it('accepts unchanged output for a source without letters', () => {
+    const [sku] = items('12-345 / 99.90');
+    expect(validateTranslation(sku, '12-345 / 99.90')).toBeNull();
+  });
+});
+
+describe('translateWithRecovery', () => {
+  it('re-requests only the items that came back invalid', async () => {
+    const llm = createMockLLMProvider({ responses: [['A', 'Two', ''], ['B', 'C']] });
+    const batch = items('One', 'Two', 'Three');
+
+    const result = await translateWithRecovery(llm, batch, 'en', 'ru');
+
+    expect(result.translations.map(({ item, text }) => [item.text, text])).toEqual([
+      ['One', 'A'],
+      ['Two', 'B'],
+      ['Three', 'C'],
+    ]);
+    expect(result.rejected).toEqual([]);
+    expect(llm.calls.map((call) => call.items.map((item) => item.text))).toEqual([
+      ['One', 'Two', 'Three'],
+      ['Two', 'Three'],
+    ]);
+  });
+
+  it('reports items still invalid after the last re-request', async () => {
+    const llm = createMockLLMProvider({ responses: [{ malformed: 'empty' }, { malformed: 'empty' }] });
+    const batch = items('One', 'Two');
+
+    const result = await translateWithRecovery(llm, batch, 'en', 'ru', { retries: 1 });
+
+    expect(result.translations).toEqual([]);
+    expect(result.rejected).toEqual(batch.map((item) => ({ item, reason: 'empty' })));
+  });
+
+  it('never accepts source-identical output by default, even when the re-request repeats it', async () => {
+    const llm = createMockLLMProvider({ responses: [['iPhone 15', 'Чехол'], ['iPhone 15']] });
+    const batch = items('iPhone 15', 'Case');
+
+    const result = await translateWithRecovery(llm, batch, 'en', 'ru');
+
+    expect(result.translations.map(({ item, text }) => [item.text, text])).toEqual([['Case', 'Чехол']]);
+    expect(result.rejected).toEqual([{ item: batch[0], reason: 'untranslated' }]);
+    expect(llm.calls).toHaveLength(2);
+  });
+
+  it('accepts source-identical output for items acceptIdentical allows', async () => {
+    const llm = createMockLLMProvider({ responses: [['iPhone 15', 'Case'], ['Case']] });
+    const batch = items('iPhone 15', 'Case');
+
+    const result = await translateWithRecovery(llm, batch, 'en', 'ru', {
+      acceptIdentical: (item) => item.text.startsWith('iPhone'),
+    });
+
+    expect(result.translations.map(({ item, text }) => [item.text, text])).toEqual([['iPhone 15', 'iPhone 15']]);
+    expect(result.rejected).toEqual([{ item: batch[1], reason: 'untranslated' }]);
+    expect(llm.calls.map((call) => call.items.map((item) => item.text))).toEqual([['iPhone 15', 'Case'], ['Case']]);
+  });
+
+  it('treats positional output of the wrong length as misaligned', async () => {
+    const llm = createMockLLMProvider({ responses: [{ malformed: 'missing' }], stream: false });
+
+    const result = await translateWithRecovery(llm, items('One', 'Two'), 'en', 'ru', { retries: 0 });
+
+    expect(result.rejected.map((r) => r.reason)).toEqual(['misaligned', 'misaligned']);
+  });
+
+  it('reports accepted translations before a provider error propagates', async () => {
+    const llm = createMockLLMProvider({ responses: [['A', ''], new Error('503')] });
+    const accepted: string[] = [];
+
+    await expect(
+      translateWithRecovery(llm, items('One', 'Two'), 'en', 'ru', {
+        onTranslation: (_item, text) => accepted.push(text),
+      })
+    ).rejects.toThrow('503');
+    expect(accepted).toEqual(['A']);
+  });
+
+  it('passes usage with the items each request covered', async () => {
+    const llm = createMockLLMProvider({ responses: [['A', ''], ['B']] });
+    const covered: number[] = [];
+
+    await translateWithRecovery(llm, items('One', 'Two'), 'en', 'ru', {
+      onUsage: (_usage, requested) => covered.push(requested.length),
+    });
+
+    expect(covered).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { clientCacheKey, createMemoryTranslationCache } from '../../src/core/client-cache';
+import { createTranslationScheduler } from '../../src/core/scheduler';
+import { hashSourceText } from '../../src/core/source-hash';
+import { createMockLLMProvider } from '../../src/testing/mock-llm-provider';
+import type { AudarConfig, TranslationItem } from '../../src/types';
+
+function product(id: string): TranslationItem {
+  return { contentType: 'product_title', contentId: id, text: `Product ${id}` };
+}
+
+function setup(overrides: Partial<AudarConfig> = {}) {
+  const database = createJsonFileAdapter();
+  const llm = createMockLLMProvider({ stream: false });
+  const config: AudarConfig = {
+    database,
+    llm,
+    i18n: { getCurrentLocale: () => 'ru', getDefaultLocale: () => 'en', getSupportedLocales: () => ['en', 'ru'] },
+    clientCache: false,
+    resilience: false,
+    coalesceWindowMs: 5,
+    ...overrides,
+  };
+  const lookups = vi.spyOn(database, 'getCachedTranslations');
+  return { scheduler: createTranslationScheduler(() => config), database, llm, lookups };
+}
+
+describe('createTranslationScheduler', () => {
+  it('looks up an item requested by two concurrent callers once', async () => {
+    const { scheduler, database, lookups } = setup();
+    await database.saveTranslations([{
+      content_type: 'product_title',
+      content_id: '1',
+      locale: 'ru',
+      original_text: 'Product 1',
+      translated_text: 'Товар 1',
+      source_hash: hashSourceText('Product 1'),
+    }]);
+
+    const [feed, sidebar] = await Promise.all([
+      scheduler.lookup([product('1'), product('2')], 'ru'),
+      scheduler.lookup([product('1')], 'ru'),
+    ]);
+
+    expect(lookups).toHaveBeenCalledTimes(1);
+    expect(lookups.mock.calls[0][0].map((item) => item.contentId)).toEqual(['1', '2']);
+    expect(feed.map((row) => row.translated_text)).toEqual(['Товар 1']);
+    expect(sidebar.map((row) => row.translated_text)).toEqual(['Товар 1']);
+  });
+
+  it('translates an item requested by two concurrent callers once', async () => {
+    const { scheduler, llm } = setup();
+
+    const [feed, sidebar] = await Promise.all([
+      scheduler.translate([product('1'), product('2')], 'ru'),
+      scheduler.translate([product('1')], 'ru'),
+    ]);
+
+    expect(llm.calls.map((call) => call.items.map((item) => item.contentId))).toEqual([['1', '2']]);
+    expect(feed.translations).toEqual({ 'product_title:1': '[ru] Product 1', 'product_title:2': '[ru] Product 2' });
+    expect(sidebar.translations).toEqual({ 'product_title:1': '[ru] Product 1' });
+  });
+
+  it('joins a late caller to the call already in flight', async () => {
+    const { scheduler, llm } = setup();
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    llm.enqueue(async (items) => {
+      await released;
+      return items.map((item) => `[ru] ${item.text}`);
+    });
+
+    const first = scheduler.translate([product('1')], 'ru');
+    await vi.waitFor(() => expect(llm.calls).toHaveLength(1));
+
+    const late = scheduler.translate([product('1')], 'ru');
+    release();
+
+    expect((await first).translations).toEqual({ 'product_title:1': '[ru] Product 1' });
+    expect((await late).translations).toEqual({ 'product_title:1': '[ru] Product 1' });
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it('splits calls at chunkSize', async () => {
+    const { scheduler, llm } = setup({ chunkSize: 2 });
+
+    const result = await scheduler.translate(['1', '2', '3', '4', '5'].map(product), 'ru');
+
+    expect(llm.calls.map((call) => call.items.map((item) => item.contentId))).toEqual([['1', '2'], ['3', '4'], ['5']]);
+    expect(Object.keys(result.translations)).toHaveLength(5);
+  });
+
+  it('rejects every caller waiting on a failed call', async () => {
+    const { scheduler, llm } = setup();
+    llm.enqueue(new Error('503 Service Unavailable'));
+
+    const results = await Promise.allSettled([
+      scheduler.translate([product('1')], 'ru'),
+      scheduler.translate([product('1'), product('2')], 'ru'),
+    ]);
+
+    expect(llm.calls).toHaveLength(1);
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('answers client cache hits without asking the database', async () => {
+    const clientCache = createMemoryTranslationCache();
+    await clientCache.set({
+      [clientCacheKey('product_title', '1', 'ru', hashSourceText('Product 1'))]: 'Товар 1',
+    });
+    const { scheduler, lookups } = setup({ clientCache });
+
+    const rows = await scheduler.lookup([product('1')], 'ru');
+
+    expect(rows).toEqual([expect.objectContaining({ content_id: '1', translated_text: 'Товар 1' })]);
+    expect(lookups).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import crypto from 'crypto-js';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  hashSourceText,
+  isLegacySourceHash,
+  migrateSourceHashes,
+  normalizeSourceText,
+  sourceHashMatches,
+} from '../../src/core/source-hash';
+import type { StoredTranslation } from '../../src/types';
+
+const sha256 = (text: string) => crypto.SHA256(text).toString();
+
+function row(originalText: string, sourceHash: string): StoredTranslation {
+  return {
+    content_type: 'product_title',
+    content_id: '1',
+    locale: 'ru',
+    original_text: originalText,
+    translated_text: 'Перевод',
+    source_hash: sourceHash,
+  };
+}
+
+describe('normalizeSourceText', () => {
+  it('unifies line endings, collapses horizontal whitespace and trims', () => {
+    expect(normalizeSourceText('  Hello \t world\r\nnext \rline  ')).toBe('Hello world\nnext\nline');
+  });
+
+  it('keeps line breaks', () => {
+    expect(normalizeSourceText('First\n\nSecond')).toBe('First\n\nSecond');
+  });
+
+  it('composes unicode', () => {
+    expect(normalizeSourceText('Café')).toBe('Café');
+  });
+});
+
+describe('hashSourceText', () => {
+  it('hashes the normalized text', () => {
+    expect(hashSourceText(' Red  shoes ')).toBe(sha256('Red shoes'));
+    expect(hashSourceText('Red shoes\r\n')).toBe(hashSourceText('Red shoes'));
+  });
+
+  it('differs for different text', () => {
+    expect(hashSourceText('Red shoes')).not.toBe(hashSourceText('Blue shoes'));
+  });
+});
+
+describe('sourceHashMatches', () => {
+  it('accepts the current and both legacy formats', () => {
+    const text = 'Red  shoes';
+    expect(sourceHashMatches(hashSourceText(text), text)).toBe(true);
+    expect(sourceHashMatches(sha256(text), text)).toBe(true);
+    expect(sourceHashMatches(sha256(text).substring(0, 16), text)).toBe(true);
+  });
+
+  it('rejects hashes of other text', () => {
+    expect(sourceHashMatches(hashSourceText('Blue shoes'), 'Red shoes')).toBe(false);
+  });
+});
+
+describe('isLegacySourceHash', () => {
+  it('is true only for legacy formats of the same text', () => {
+    expect(isLegacySourceHash(sha256('Red  shoes'), 'Red  shoes')).toBe(true);
+    expect(isLegacySourceHash(hashSourceText('Red shoes'), 'Red shoes')).toBe(false);
+    expect(isLegacySourceHash(sha256('Blue shoes'), 'Red shoes')).toBe(false);
+  });
+});
+
+describe('migrateSourceHashes', () => {
+  it('rewrites only legacy rows, in batches', async () => {
+    const saveTranslations = vi.fn(async () => {});
+    const rows = [
+      // Legacy hashes were taken before normalization
+      row('One  item', sha256('One  item')),
+      row('Two  items', sha256('Two  items').substring(0, 16)),
+      row('Three', hashSourceText('Three')),
+      row('Four', 'unrelated'),
+    ];
+
+    const migrated = await migrateSourceHashes(rows, { saveTranslations }, { batchSize: 1 });
+
+    expect(migrated).toBe(2);
+    expect(saveTranslations).toHaveBeenCalledTimes(2);
+    expect(saveTranslations.mock.calls.flat(2)).toEqual([
+      { ...rows[0], source_hash: hashSourceText('One  item') },
+      { ...rows[1], source_hash: hashSourceText('Two  items') },
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createJsonArrayStreamParser,
+  createJsonObjectStreamParser,
+  createNumberedListStreamParser,
+  parseTranslationStream,
+  readEventStream,
+  type StreamParser,
+} from '../../src/core/streaming';
+import type { StreamedTranslation } from '../../src/types';
+
+/**
+ * Feed output in small chunks, recording after which chunk each translation completed
+ */
+function feed(parser: StreamParser, output: string, size = 3) {
+  const emitted: Array<StreamedTranslation & { chunk: number }> = [];
+  let chunk = 0;
+  for (let i = 0; i < output.length; i += size, chunk++) {
+    emitted.push(...parser.push(output.slice(i, i + size)).map((t) => ({ ...t, chunk })));
+  }
+  emitted.push(...parser.end().map((t) => ({ ...t, chunk })));
+  return emitted;
+}
+
+const texts = (emitted: StreamedTranslation[]) => emitted.map(({ index, text }) => ({ index, text }));
+
+describe('createJsonArrayStreamParser', () => {
+  it('emits each element as soon as it is complete', () => {
+    const emitted = feed(createJsonArrayStreamParser(), '["Привет", "Мир"]');
+    expect(texts(emitted)).toEqual([{ index: 0, text: 'Привет' }, { index: 1, text: 'Мир' }]);
+    expect(emitted[0].chunk).toBeLessThan(emitted[1].chunk);
+  });
+
+  it('skips fences and wrapping objects, and decodes escapes', () => {
+    const output = '```json\n{"translations": ["A \\"quoted\\" \\u00e9", "Line\nbreak"]}\n```';
+    expect(texts(feed(createJsonArrayStreamParser(), output))).toEqual([
+      { index: 0, text: 'A "quoted" é' },
+      { index: 1, text: 'Line\nbreak' },
+    ]);
+  });
+
+  it('keeps positions across nested values and stops at truncation', () => {
+    expect(texts(feed(createJsonArrayStreamParser(), '["A", {"x": 1}, "C", "trunc'))).toEqual([
+      { index: 0, text: 'A' },
+      { index: 2, text: 'C' },
+    ]);
+  });
+});
+
+describe('createJsonObjectStreamParser', () => {
+  it('maps 1-based ids to indexes regardless of order', () => {
+    expect(texts(feed(createJsonObjectStreamParser(), '{"2": "Два", "1": "Один"}'))).toEqual([
+      { index: 1, text: 'Два' },
+      { index: 0, text: 'Один' },
+    ]);
+  });
+
+  it('descends into wrapping objects and ignores non-numeric keys', () => {
+    const output = '```json\n{"note": "ok", "translations": {"1": "A", "3": "C"}}\n```';
+    expect(texts(feed(createJsonObjectStreamParser(), output))).toEqual([
+      { index: 0, text: 'A' },
+      { index: 2, text: 'C' },
+    ]);
+  });
+
+  it('falls back to positional parsing for arrays', () => {
+    expect(texts(feed(createJsonObjectStreamParser(), '["A", "B"]'))).toEqual([
+      { index: 0, text: 'A' },
+      { index: 1, text: 'B' },
+    ]);
+  });
+});
+
+describe('createNumberedListStreamParser', () => {
+  it('emits an item when the next one starts and the last at the end', () => {
+    const emitted = feed(createNumberedListStreamParser(), '1. One\n2) Two\n3. Three');
+    expect(texts(emitted)).toEqual([
+      { index: 0, text: 'One' },
+      { index: 1, text: 'Two' },
+      { index: 2, text: 'Three' },
+    ]);
+  });
+
+  it('keeps paragraphs of multi-line items and uses the item number as index', () => {
+    expect(texts(feed(createNumberedListStreamParser(), 'Sure!\n1. First\n\nsecond paragraph\n\n3. Third\n'))).toEqual([
+      { index: 0, text: 'First\n\nsecond paragraph' },
+      { index: 2, text: 'Third' },
+    ]);
+  });
+});
+
+describe('parseTranslationStream', () => {
+  it('runs async chunks through a parser', async () => {
+    async function* chunks() {
+      yield '["A", ';
+      yield '"B"]';
+    }
+    const out: StreamedTranslation[] = [];
+    for await (const t of parseTranslationStream(chunks(), createJsonArrayStreamParser())) out.push(t);
+    expect(out).toEqual([{ index: 0, text: 'A' }, { index: 1, text: 'B' }]);
+  });
+});
+
+describe('readEventStream', () => {
+  it('yields data payloads of server-sent events, across chunk boundaries', async () => {
+    const encoder = new TextEncoder();
+    const parts = ['data: {"a":', '1}\r\n\r\n: comment\n', 'event: x\ndata: line1\ndata: line2\n\n', 'data: [DONE]'];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+        controller.close();
+      },
+    });
+
+    const events: string[] = [];
+    for await (const data of readEventStream(new Response(body))) events.push(data);
+    expect(events).toEqual(['{"a":1}', 'line1\nline2', '[DONE]']);
+  });
+});
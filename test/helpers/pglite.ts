@@ -0,0 +1,24 @@
+import { PGlite } from '@electric-sql/pglite';
+import type { PostgresClient } from '../../src/adapters/examples/postgres-adapter';
+
+/**
+ * In-process PostgreSQL (PGlite: Postgres compiled to WebAssembly, so no
+ * server is needed)
+ */
+export async function createPGlite(): Promise<PGlite> {
+  const db = new PGlite();
+  await db.waitReady;
+  return db;
+}
+
+/**
+ * node-postgres style client over PGlite, for createPostgresAdapter
+ */
+export function asPostgresClient(db: PGlite): PostgresClient {
+  return {
+    async query<R>(text: string, values?: unknown[]) {
+      const result = await db.query<R>(text, values);
+      return { rows: result.rows, rowCount: result.affectedRows ?? null };
+    },
+  };
+}
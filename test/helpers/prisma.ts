@@ -0,0 +1,67 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PrismaLibSql } from '@prisma/adapter-libsql';
+import { PrismaClient } from '../prisma/generated/client';
+
+/**
+ * Tables for test/prisma/schema.prisma, as `prisma migrate` creates them on
+ * SQLite (the migration engine is not used, so tests need no engine binary)
+ */
+const MIGRATION = [
+  `CREATE TABLE "content_translations" (
+    "content_type" TEXT NOT NULL,
+    "content_id" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "original_text" TEXT NOT NULL,
+    "translated_text" TEXT NOT NULL,
+    "source_hash" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY ("content_type", "content_id", "locale")
+  )`,
+  `CREATE INDEX "content_translations_locale_idx" ON "content_translations"("locale")`,
+  `CREATE TABLE "audarma_budget_counters" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "value" REAL NOT NULL,
+    "expires_at" DATETIME NOT NULL
+  )`,
+  `CREATE TABLE "audarma_conformance_products" (
+    "id" INTEGER NOT NULL PRIMARY KEY,
+    "title" TEXT,
+    "description" TEXT,
+    "status" TEXT,
+    "category" TEXT
+  )`,
+];
+
+/**
+ * Run with a real Prisma Client on a fresh SQLite file (libSQL driver
+ * adapter), removed afterwards. Call `resetPrismaDatabase` to recreate the
+ * tables.
+ */
+export async function withPrismaSQLite<T>(run: (prisma: PrismaClient) => Promise<T>): Promise<T> {
+  const dir = mkdtempSync(path.join(tmpdir(), 'audarma-prisma-'));
+  const prisma = new PrismaClient({
+    adapter: new PrismaLibSql({ url: `file:${path.join(dir, 'test.db')}` }),
+  });
+
+  try {
+    return await run(prisma);
+  } finally {
+    await prisma.$disconnect();
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Drop and recreate every table of the test schema
+ */
+export async function resetPrismaDatabase(prisma: PrismaClient): Promise<void> {
+  for (const table of ['content_translations', 'audarma_budget_counters', 'audarma_conformance_products']) {
+    await prisma.$executeRawUnsafe(`DROP TABLE IF EXISTS "${table}"`);
+  }
+  for (const statement of MIGRATION) {
+    await prisma.$executeRawUnsafe(statement);
+  }
+}
@@ -0,0 +1,46 @@
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import type { SQLiteDatabase } from '../../src/adapters/sqlite-adapter';
+
+const sqlJs = initSqlJs();
+
+/**
+ * In-memory sql.js database (SQLite compiled to WebAssembly, so no native
+ * build is needed)
+ */
+export async function createSqlJsDatabase(): Promise<Database> {
+  const SQL = await sqlJs;
+  return new SQL.Database();
+}
+
+/**
+ * better-sqlite3-style statements over sql.js, for createSQLiteAdapter
+ */
+export function asSQLiteDatabase(db: Database): SQLiteDatabase {
+  const all = (sql: string, params: unknown[]) => {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind(params as SqlValue[]);
+      const rows: Record<string, unknown>[] = [];
+      while (statement.step()) rows.push(statement.getAsObject());
+      return rows;
+    } finally {
+      statement.free();
+    }
+  };
+
+  return {
+    exec(sql) {
+      db.exec(sql);
+    },
+    prepare(sql) {
+      return {
+        all: (...params) => all(sql, params),
+        get: (...params) => all(sql, params)[0],
+        run: (...params) => {
+          db.run(sql, params as SqlValue[]);
+          return { changes: db.getRowsModified() };
+        },
+      };
+    },
+  };
+}
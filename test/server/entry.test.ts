@@ -0,0 +1,14 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Importing React from the server entry would make it a client module graph
+vi.mock('react', () => {
+  throw new Error('audarma/server must not import react');
+});
+
+describe('audarma/server entry', () => {
+  it('loads without React', async () => {
+    const server = await import('../../src/server');
+    expect(server.createAudarmaRouteHandler).toBeTypeOf('function');
+    expect(server.getViewTranslations).toBeTypeOf('function');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { hashSourceText } from '../../src/core/source-hash';
+import { createAudarmaRouteHandler, type AudarmaRouteHandlerOptions } from '../../src/server/route-handler';
+import { createMockLLMProvider } from '../../src/testing/mock-llm-provider';
+import type { DatabaseAdapter, TranslationItem, TranslationResponse } from '../../src/types';
+
+function request(body: unknown): Request {
+  return new Request('http://localhost/api/audarma', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function translate(items: TranslationItem[], locale = 'ru') {
+  return request({ action: 'translate', locale, items });
+}
+
+async function stored(database: DatabaseAdapter, item: TranslationItem, locale = 'ru') {
+  const [row] = await database.getCachedTranslations([item], locale);
+  return row;
+}
+
+const PRODUCTS: Record<string, string> = { 1: 'Red shoes', 2: 'Blue hat' };
+
+const resolveProducts: AudarmaRouteHandlerOptions['resolveSourceText'] = async (items) =>
+  items.map((item) => PRODUCTS[item.contentId]);
+
+function setup(options: Partial<AudarmaRouteHandlerOptions> = {}) {
+  const database = createJsonFileAdapter();
+  const llm = createMockLLMProvider({ stream: false });
+  const handler = createAudarmaRouteHandler({ database, llm, locales: ['ru'], resolveSourceText: resolveProducts, ...options });
+  return { database, llm, handler };
+}
+
+const shoes: TranslationItem = { contentType: 'product_title', contentId: '1', text: 'Red shoes' };
+
+describe('createAudarmaRouteHandler', () => {
+  it('translates missing items and saves them', async () => {
+    const { database, handler } = setup();
+
+    const response = await handler(translate([shoes]));
+    const body: TranslationResponse = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.translations).toEqual([
+      { contentType: 'product_title', contentId: '1', originalText: 'Red shoes', translatedText: '[ru] Red shoes', cached: false },
+    ]);
+    expect(body.metadata).toMatchObject({ totalItems: 1, cachedItems: 0, translatedItems: 1 });
+    expect((await stored(database, shoes))?.translated_text).toBe('[ru] Red shoes');
+  });
+
+  it('leaves rejected items out of the response and the counts', async () => {
+    const { handler, llm } = setup();
+    const hat: TranslationItem = { contentType: 'product_title', contentId: '2', text: 'Blue hat' };
+    // The first call and its re-request both leave the hat empty
+    const emptyHat = (items: TranslationItem[]) => items.map((item) => (item.contentId === '2' ? '' : `[ru] ${item.text}`));
+    llm.enqueue(emptyHat, emptyHat);
+
+    const body: TranslationResponse = await (await handler(translate([shoes, hat]))).json();
+
+    expect(body.translations.map((t) => t.contentId)).toEqual(['1']);
+    expect(body.metadata).toMatchObject({ totalItems: 2, cachedItems: 0, translatedItems: 1 });
+  });
+
+  it('serves a second identical request from the cache', async () => {
+    const { handler, llm } = setup();
+
+    await handler(translate([shoes]));
+    const body: TranslationResponse = await (await handler(translate([shoes]))).json();
+
+    expect(body.translations).toEqual([expect.objectContaining({ translatedText: '[ru] Red shoes', cached: true })]);
+    expect(body.metadata).toMatchObject({ cachedItems: 1, translatedItems: 0 });
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it('requires resolveSourceText unless client text is trusted explicitly', () => {
+    expect(() => setup({ resolveSourceText: undefined })).toThrow('resolveSourceText');
+  });
+
+  it('translates and saves the request text with unsafeTrustClientText', async () => {
+    const { database, handler, llm } = setup({ resolveSourceText: undefined, unsafeTrustClientText: true });
+    const draft = { ...shoes, text: 'Red shoes (draft)' };
+
+    await handler(translate([draft]));
+    const body: TranslationResponse = await (await handler(translate([draft]))).json();
+
+    expect(body.translations).toEqual([expect.objectContaining({ translatedText: '[ru] Red shoes (draft)', cached: true })]);
+    expect((await stored(database, shoes))?.source_hash).toBe(hashSourceText('Red shoes (draft)'));
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it('translates the resolved source text instead of the request text', async () => {
+    const { database, handler, llm } = setup();
+    const unknown: TranslationItem = { contentType: 'product_title', contentId: '404', text: 'Anything' };
+
+    const body: TranslationResponse = await (await handler(translate([{ ...shoes, text: 'Buy cheap pills' }, unknown]))).json();
+
+    expect(llm.calls[0].items.map((item) => item.text)).toEqual(['Red shoes']);
+    expect(body.translations).toEqual([expect.objectContaining({ contentId: '1', originalText: 'Red shoes', translatedText: '[ru] Red shoes' })]);
+    expect(body.metadata).toMatchObject({ totalItems: 2, translatedItems: 1 });
+    expect((await stored(database, shoes))?.source_hash).toBe(hashSourceText('Red shoes'));
+  });
+
+  it('stops calling a failing provider once the circuit opens', async () => {
+    const { handler, llm } = setup({ resilience: { retry: false, circuitBreaker: { failureThreshold: 1 } } });
+    llm.enqueue(Object.assign(new Error('Service Unavailable'), { status: 503 }));
+
+    expect((await handler(translate([shoes]))).status).toBe(500);
+
+    const response = await handler(translate([shoes]));
+    const body: TranslationResponse = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.translations).toEqual([]);
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it('rejects requests authorize() refuses', async () => {
+    const { handler, llm } = setup({ authorize: (req) => req.headers.get('x-session') === 'ok' });
+
+    const response = await handler(translate([shoes]));
+
+    expect(response.status).toBe(403);
+    expect(llm.calls).toHaveLength(0);
+  });
+
+  it('rejects locales outside the allow-list', async () => {
+    const { handler } = setup();
+    const response = await handler(translate([shoes], 'de'));
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonFileAdapter } from '../../src/adapters/json-file-adapter';
+import { hashSourceText } from '../../src/core/source-hash';
+import { getViewTranslations } from '../../src/server/view-translations';
+import { createMockLLMProvider } from '../../src/testing/mock-llm-provider';
+import type { TranslationItem } from '../../src/types';
+
+const items: TranslationItem[] = [
+  { contentType: 'product_title', contentId: '1', text: 'Red shoes' },
+  { contentType: 'product_title', contentId: '2', text: 'Blue hat' },
+];
+
+async function setup() {
+  const database = createJsonFileAdapter();
+  await database.saveTranslations([{
+    content_type: 'product_title',
+    content_id: '1',
+    locale: 'ru',
+    original_text: 'Red shoes',
+    translated_text: 'Красные туфли',
+    source_hash: hashSourceText('Red shoes'),
+  }]);
+  return database;
+}
+
+describe('getViewTranslations', () => {
+  it('returns cached translations and leaves the rest to the client without llm', async () => {
+    const result = await getViewTranslations({ viewName: 'feed', items, locale: 'ru', database: await setup() });
+
+    expect(result.translations).toEqual({ 'product_title:1': 'Красные туфли' });
+    expect(result.missing).toBe(1);
+  });
+
+  it('translates missing items with llm', async () => {
+    const llm = createMockLLMProvider({ stream: false });
+
+    const result = await getViewTranslations({ viewName: 'feed', items, locale: 'ru', database: await setup(), llm });
+
+    expect(result.translations).toEqual({ 'product_title:1': 'Красные туфли', 'product_title:2': '[ru] Blue hat' });
+    expect(result.missing).toBe(0);
+    expect(llm.calls.map((call) => call.items.map((item) => item.contentId))).toEqual([['2']]);
+  });
+
+  it('stops calling a failing provider once the circuit opens', async () => {
+    const database = await setup();
+    const llm = createMockLLMProvider({ stream: false });
+    llm.enqueue(Object.assign(new Error('Service Unavailable'), { status: 503 }));
+    const options = {
+      viewName: 'feed',
+      items,
+      locale: 'ru',
+      database,
+      llm,
+      resilience: { retry: false as const, circuitBreaker: { failureThreshold: 1 } },
+    };
+
+    expect((await getViewTranslations(options)).missing).toBe(1);
+    expect((await getViewTranslations(options)).missing).toBe(1);
+    expect(llm.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,32 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig([
+  {
+    // Client entry: React components and hooks. esbuild drops module-level
+    // directives, so 'use client' is added back as a banner.
+    entry: { index: 'src/index.ts' },
+    format: ['cjs', 'esm'],
+    dts: true,
+    banner: { js: "'use client';" },
+  },
+  {
+    // Server entry: no React imports, safe in Server Components and route handlers
+    entry: { 'server/index': 'src/server/index.ts' },
+    format: ['cjs', 'esm'],
+    dts: true,
+  },
+  {
+    // Database adapters with no runtime dependencies, one subpath each
+    entry: {
+      'adapters/postgres': 'src/adapters/examples/postgres-adapter.ts',
+      'adapters/prisma': 'src/adapters/examples/prisma-adapter.ts',
+      'adapters/drizzle': 'src/adapters/examples/drizzle-adapter.ts',
+    },
+    format: ['cjs', 'esm'],
+    dts: true,
+  },
+  {
+    entry: { 'cli/index': 'cli/index.ts' },
+    format: ['esm'],
+  },
+]);